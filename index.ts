@@ -1,9 +1,20 @@
-import SimpleResearchMCPServer from './research-server.js';
+import SimpleResearchMCPServer, { TransportMode } from './research-server.js';
+
+function parseTransport(argv: string[]): TransportMode | undefined {
+  const flagIndex = argv.findIndex(arg => arg === '--transport' || arg.startsWith('--transport='));
+  if (flagIndex === -1) return undefined;
+
+  const value = argv[flagIndex].includes('=') ? argv[flagIndex].split('=')[1] : argv[flagIndex + 1];
+  if (value !== 'stdio' && value !== 'http' && value !== 'jsonrpc') {
+    throw new Error(`Unsupported transport "${value}". Use "stdio", "http" or "jsonrpc".`);
+  }
+  return value;
+}
 
 async function main() {
   try {
     const server = new SimpleResearchMCPServer();
-    await server.run();
+    await server.run(parseTransport(process.argv.slice(2)));
   } catch (error) {
     console.error('Failed to start MCP server:', error);
     process.exit(1);
@@ -0,0 +1,246 @@
+import {
+  detectBibliographyFormat,
+  parseBibliography,
+  parseBibtex,
+  parseCslJson,
+  parseRis,
+  serializeBibliography,
+  serializeBibtex,
+  serializeRis,
+  sessionItemsToCitations,
+  toCitationItems,
+} from '../bibliography';
+import { CitationItem } from '../citations';
+import { SessionItem } from '../sessionStore';
+
+const items: CitationItem[] = [
+  {
+    id: 'jumper2021highly',
+    type: 'article-journal',
+    title: 'Highly accurate protein structure prediction with AlphaFold',
+    author: [{ family: 'Jumper', given: 'John' }, { family: 'Gogh', given: 'Vincent', 'non-dropping-particle': 'van' }, { literal: 'AlphaFold Team & Co' }],
+    'container-title': 'Nature',
+    issued: { 'date-parts': [[2021, 7, 15]] },
+    volume: '596',
+    issue: '7873',
+    page: '583-589',
+    DOI: '10.1038/s41586-021-03819-2',
+    ISSN: '0028-0836',
+    language: 'en',
+    keyword: 'protein folding, deep learning',
+    abstract: 'Proteins are essential to life; 50% of them...',
+  },
+  {
+    id: 'king1999thesis',
+    type: 'thesis',
+    title: 'Émile Durkheim and the {sociology} of religion',
+    author: [{ family: 'King', given: 'Martin Luther', suffix: 'Jr.' }],
+    publisher: 'Boston University',
+    'publisher-place': 'Boston, MA',
+    genre: "Master's thesis",
+    issued: { 'date-parts': [[1999]] },
+    URL: 'https://example.org/~king/thesis_final.pdf',
+    accessed: { 'date-parts': [[2024, 3, 4]] },
+  },
+  {
+    id: 'who2023report',
+    type: 'report',
+    title: 'World health statistics 2023',
+    author: [{ literal: 'World Health Organization' }],
+    publisher: 'WHO',
+    number: 'WHO/2023-17',
+    'collection-title': 'Technical Report Series',
+    issued: { 'date-parts': [[2023, 5]] },
+    ISBN: '978-92-4-007432-3',
+    note: 'Licence: CC BY-NC-SA 3.0 IGO',
+  },
+];
+
+describe('BibTeX', () => {
+  test('should parse entries with macros, LaTeX accents and name forms', () => {
+    const [entry, conference] = parseBibtex(`
+      % exported from a reference manager
+      @string{nat = "Nature"}
+      @comment{ignored @article{x, title={y}} }
+      @article{ Jumper2021,
+        author = {Jumper, John and van Gogh, Vincent and M{\\"u}ller, J{\\"o}rg and {World Health Organization} and King, Jr., Martin Luther},
+        title = {Highly accurate protein structure prediction with {AlphaFold}},
+        journal = nat,
+        year = 2021, month = jul,
+        volume = "596", number = {7873}, pages = {583--589},
+        doi = {https://doi.org/10.1038/s41586-021-03819-2},
+      }
+      @inproceedings(vaswani2017,
+        author = "Ashish Vaswani and Noam Shazeer",
+        title = "Attention is all you need",
+        booktitle = "Advances in Neural Information Processing Systems " # "30",
+        year = {2017}
+      )`);
+    expect(entry).toMatchObject({
+      id: 'Jumper2021',
+      type: 'article-journal',
+      title: 'Highly accurate protein structure prediction with AlphaFold',
+      'container-title': 'Nature',
+      issued: { 'date-parts': [[2021, 7]] },
+      volume: '596',
+      issue: '7873',
+      page: '583-589',
+      DOI: '10.1038/s41586-021-03819-2',
+    });
+    expect(entry.author).toEqual([
+      { family: 'Jumper', given: 'John' },
+      { family: 'Gogh', given: 'Vincent', 'non-dropping-particle': 'van' },
+      { family: 'Müller', given: 'Jörg' },
+      { literal: 'World Health Organization' },
+      { family: 'King', given: 'Martin Luther', suffix: 'Jr.' },
+    ]);
+    expect(conference).toMatchObject({
+      type: 'paper-conference',
+      author: [{ family: 'Vaswani', given: 'Ashish' }, { family: 'Shazeer', given: 'Noam' }],
+      'container-title': 'Advances in Neural Information Processing Systems 30',
+    });
+  });
+
+  test('should round-trip the standard fields', () => {
+    const bibtex = serializeBibtex(items);
+    expect(bibtex).toContain('@article{jumper2021highly,');
+    expect(bibtex).toContain('  title = {Highly accurate protein structure prediction with {AlphaFold}}');
+    expect(bibtex).toContain('  month = jul');
+    expect(bibtex).toContain('@mastersthesis{king1999thesis,');
+    expect(bibtex).toContain('van Gogh, Vincent and {AlphaFold Team \\& Co}},');
+    expect(parseBibtex(bibtex)).toEqual(items);
+  });
+
+  test('should round-trip tildes and backslashes', () => {
+    const item: CitationItem = { type: 'webpage', id: 'home', title: 'Paths like ~/bin and C:\\Users', URL: 'https://example.org/~user' };
+    const bibtex = serializeBibtex([item]);
+    expect(bibtex).toContain('title = {Paths like \\textasciitilde{}/bin and {C:\\textbackslash{}Users}}');
+    expect(parseBibtex(bibtex)).toEqual([item]);
+  });
+
+  test('should generate unique keys for items without ids', () => {
+    const bibtex = serializeBibtex([
+      { type: 'book', title: 'The Art of Computer Programming', author: [{ family: 'Knuth', given: 'Donald E.' }], issued: { 'date-parts': [[1968]] } },
+      { type: 'book', title: 'Art of the possible', author: [{ family: 'Knuth', given: 'Donald E.' }], issued: { 'date-parts': [[1968]] } },
+    ]);
+    expect(bibtex).toContain('@book{knuth1968art,');
+    expect(bibtex).toContain('@book{knuth1968arta,');
+  });
+});
+
+describe('RIS', () => {
+  test('should parse records with split pages, serial numbers and continued lines', () => {
+    const [record] = parseRis([
+      'TY  - JOUR',
+      'AU  - Jumper, John',
+      'AU  - van Gogh, Vincent',
+      'TI  - Highly accurate protein structure prediction with AlphaFold',
+      'JO  - Nature',
+      'PY  - 2021',
+      'DA  - 2021/07/15/',
+      'SP  - 583',
+      'EP  - 589',
+      'SN  - 0028-0836',
+      'SN  - 978-3-16-148410-0',
+      'KW  - proteins',
+      'KW  - deep learning',
+      'AB  - First line',
+      'continued here',
+      'ER  - ',
+    ].join('\r\n'));
+    expect(record).toEqual({
+      type: 'article-journal',
+      title: 'Highly accurate protein structure prediction with AlphaFold',
+      author: [{ family: 'Jumper', given: 'John' }, { family: 'Gogh', given: 'Vincent', 'non-dropping-particle': 'van' }],
+      'container-title': 'Nature',
+      issued: { 'date-parts': [[2021, 7, 15]] },
+      page: '583-589',
+      ISBN: '978-3-16-148410-0',
+      ISSN: '0028-0836',
+      keyword: 'proteins, deep learning',
+      abstract: 'First line\ncontinued here',
+    });
+  });
+
+  test('should round-trip the standard fields', () => {
+    const ris = serializeRis(items);
+    expect(ris).toContain('TY  - JOUR\nID  - jumper2021highly\nAU  - Jumper, John\nAU  - van Gogh, Vincent');
+    expect(ris).toContain('SP  - 583\nEP  - 589');
+    expect(parseRis(ris)).toEqual(items);
+  });
+
+  test('should reject records without an end', () => {
+    expect(() => parseRis('TY  - BOOK\nTI  - Unfinished')).toThrow('has no ER line');
+  });
+});
+
+describe('CSL-JSON and format detection', () => {
+  test('should round-trip and map unknown types to the closest one', () => {
+    expect(parseCslJson(serializeBibliography(items, 'csl-json'))).toEqual(items);
+    expect(parseCslJson('{"items": [{"type": "article-newspaper", "title": "Storm warning"}]}')).toEqual([
+      { type: 'article-journal', title: 'Storm warning' },
+    ]);
+    expect(() => parseCslJson('[{"type": "book"}]')).toThrow('has no title');
+  });
+
+  test('should detect the format of an import', () => {
+    expect(detectBibliographyFormat('@book{x, title = {T}}')).toBe('bibtex');
+    expect(detectBibliographyFormat('TY  - BOOK\nTI  - T\nER  - ')).toBe('ris');
+    expect(detectBibliographyFormat(' [{"type": "book", "title": "T"}]')).toBe('csl-json');
+    expect(parseBibliography(serializeBibliography(items, 'bib'))).toEqual(items);
+    expect(() => detectBibliographyFormat('Just some text')).toThrow('pass its format');
+  });
+
+  test('should accept CSL items, citation fields and text as export data', () => {
+    expect(toCitationItems({ items: [items[2], { title: 'Deep learning', authors: ['Yann LeCun'], year: 2015, source: 'Nature', volume: '521' }] })).toEqual([
+      items[2],
+      { type: 'article-journal', title: 'Deep learning', author: [{ family: 'LeCun', given: 'Yann' }], 'container-title': 'Nature', issued: { 'date-parts': [[2015]] }, volume: '521' },
+    ]);
+    expect(toCitationItems(serializeRis(items.slice(0, 1)))).toEqual(items.slice(0, 1));
+  });
+});
+
+describe('sessionItemsToCitations', () => {
+  const sessionItem = (item: Partial<SessionItem>): SessionItem => ({ id: 'x', tags: [], data: {}, addedAt: '2024-03-04T10:00:00.000Z', ...item } as SessionItem);
+
+  test('should keep one source per work, preferring citations over pages and search results', () => {
+    const citations = sessionItemsToCitations([
+      sessionItem({ type: 'search_result', title: 'AlphaFold result', url: 'https://www.nature.com/articles/s41586-021-03819-2' }),
+      sessionItem({ type: 'page', title: 'Climate change', url: 'https://www.who.int/climate/', data: { byline: 'By Jane Doe and John Roe', publishedAt: '2023-10-12' } }),
+      sessionItem({ type: 'note', title: 'Thoughts' }),
+      sessionItem({ type: 'citation', title: items[0].title, data: { item: { ...items[0], URL: 'https://www.nature.com/articles/s41586-021-03819-2' } } }),
+      sessionItem({ type: 'search_result', title: 'Climate change - WHO', url: 'https://www.who.int/climate' }),
+      sessionItem({ type: 'wikipedia_article', title: 'Citation', url: 'https://en.wikipedia.org/wiki/Citation' }),
+    ]);
+    expect(citations.map(item => item.title)).toEqual([items[0].title, 'Climate change', 'Citation']);
+    expect(citations[1]).toEqual({
+      type: 'webpage',
+      title: 'Climate change',
+      author: [{ family: 'Doe', given: 'Jane' }, { family: 'Roe', given: 'John' }],
+      issued: { 'date-parts': [[2023, 10, 12]] },
+      accessed: { 'date-parts': [[2024, 3, 4]] },
+      URL: 'https://www.who.int/climate/',
+    });
+    expect(citations[2]).toMatchObject({ type: 'entry-encyclopedia', 'container-title': 'Wikipedia' });
+  });
+
+  test('should cite academic search results that carry paper metadata', () => {
+    const [paper] = sessionItemsToCitations([
+      sessionItem({
+        type: 'search_result',
+        title: 'Attention Is All You Need',
+        url: 'https://arxiv.org/abs/1706.03762v7',
+        data: { authors: ['Ashish Vaswani', 'Noam Shazeer'], venue: 'arXiv', year: 2017, doi: '10.48550/arXiv.1706.03762' },
+      }),
+    ]);
+    expect(paper).toEqual({
+      type: 'article-journal',
+      title: 'Attention Is All You Need',
+      author: [{ family: 'Vaswani', given: 'Ashish' }, { family: 'Shazeer', given: 'Noam' }],
+      'container-title': 'arXiv',
+      issued: { 'date-parts': [[2017]] },
+      DOI: '10.48550/arXiv.1706.03762',
+      URL: 'https://arxiv.org/abs/1706.03762v7',
+    });
+  });
+});
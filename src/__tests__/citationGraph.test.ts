@@ -0,0 +1,175 @@
+import {
+  buildCitationGraph,
+  CitationGraphSource,
+  citationGraphToDot,
+  citationGraphToGraphml,
+  GraphPaper,
+  OpenAlexGraphSource,
+  SemanticScholarGraphSource,
+  serializeCitationGraph,
+} from '../citationGraph';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+// Two anchors (A, B) sharing a reference (R1) and a citing paper (C1)
+const PAPERS: Record<string, GraphPaper> = Object.fromEntries([
+  { id: 'A', title: 'Anchor A', referenceIds: ['R1', 'R2'], citationCount: 50 },
+  { id: 'B', title: 'Anchor B', referenceIds: ['R1', 'R3'], citationCount: 40 },
+  { id: 'R1', title: 'Shared reference', citationCount: 900 },
+  { id: 'R2', title: 'Reference of A', citationCount: 30 },
+  { id: 'R3', title: 'Reference of B', citationCount: 20 },
+  { id: 'C1', title: 'Survey citing both', referenceIds: ['A', 'B', 'R2'], citationCount: 5 },
+  { id: 'C2', title: 'Paper citing A', referenceIds: ['A'], citationCount: 1 },
+].map(paper => [paper.id, { authors: [], url: `https://example.org/${paper.id}`, ...paper }]));
+
+const fakeSource: CitationGraphSource = {
+  name: 'openalex',
+  paper: async id => {
+    if (!PAPERS[id]) throw new Error(`No OpenAlex record for ${id}`);
+    return PAPERS[id];
+  },
+  references: async (paper, limit) => (paper.referenceIds ?? []).map(id => PAPERS[id]).slice(0, limit),
+  citations: async (paper, limit) => Object.values(PAPERS).filter(candidate => candidate.referenceIds?.includes(paper.id)).slice(0, limit),
+};
+
+describe('buildCitationGraph', () => {
+  test('should walk both directions and score degree, PageRank and co-citation', async () => {
+    const graph = await buildCitationGraph(fakeSource, ['A', 'B']);
+    expect(graph.anchors).toEqual(['A', 'B']);
+    expect(graph.truncated).toBe(false);
+    expect(graph.nodes.map(node => node.id).sort()).toEqual(['A', 'B', 'C1', 'C2', 'R1', 'R2', 'R3']);
+    expect(graph.edges.map(edge => `${edge.source}>${edge.target}`).sort()).toEqual([
+      'A>R1', 'A>R2', 'B>R1', 'B>R3', 'C1>A', 'C1>B',
+      // Known from C1's reference list without a request
+      'C1>R2',
+      'C2>A',
+    ]);
+
+    const node = (id: string) => graph.nodes.find(candidate => candidate.id === id)!;
+    expect(node('A')).toMatchObject({ hop: 0, anchor: true, inDegree: 2, outDegree: 2, coCitation: 1 });
+    expect(node('R1')).toMatchObject({ hop: 1, anchor: false, inDegree: 2, outDegree: 0, coCitation: 0 });
+    // C1 cites R2 together with both anchors
+    expect(node('R2').coCitation).toBe(2);
+    expect(node('R1').pageRank).toBeGreaterThan(node('R3').pageRank);
+    expect(graph.nodes.reduce((sum, candidate) => sum + candidate.pageRank, 0)).toBeCloseTo(1, 2);
+    expect(graph.coCitations).toHaveLength(5);
+    expect(graph.coCitations).toContainEqual({ a: 'A', b: 'B', count: 1 });
+  });
+
+  test('should stop adding papers at maxNodes and follow one direction', async () => {
+    const graph = await buildCitationGraph(fakeSource, ['A', 'B'], { maxNodes: 4, direction: 'references' });
+    expect(graph.nodes.map(node => node.id)).toEqual(['A', 'B', 'R1', 'R2']);
+    expect(graph.truncated).toBe(true);
+
+    const deeper = await buildCitationGraph(fakeSource, ['C2'], { depth: 2, direction: 'references' });
+    expect(deeper.nodes.map(node => [node.id, node.hop])).toEqual([['C2', 0], ['A', 1], ['R1', 2], ['R2', 2]]);
+    await expect(buildCitationGraph(fakeSource, ['missing'])).rejects.toThrow('No OpenAlex record for missing');
+  });
+
+  test('should not expand further once the graph is full', async () => {
+    const expanded: string[] = [];
+    const graph = await buildCitationGraph({
+      ...fakeSource,
+      references: async (paper, limit) => {
+        expanded.push(paper.id);
+        return fakeSource.references(paper, limit);
+      },
+    }, ['C1'], { depth: 2, maxNodes: 3, direction: 'references' });
+    expect(graph.nodes.map(node => node.id)).toEqual(['C1', 'A', 'B']);
+    expect(graph.truncated).toBe(true);
+    expect(expanded).toEqual(['C1']);
+  });
+});
+
+describe('graph serialization', () => {
+  test('should write GraphML and DOT with escaped labels', async () => {
+    const graph = await buildCitationGraph({
+      ...fakeSource,
+      paper: async () => ({ id: 'W1', title: 'Fish & "chips" <revisited>', authors: ['Ada Lovelace', 'Alan Turing'], year: 1843, url: 'https://example.org/W1', referenceIds: ['R1'] }),
+    }, ['W1'], { direction: 'references' });
+
+    const graphml = citationGraphToGraphml(graph);
+    expect(graphml).toContain('<graph id="citations" edgedefault="directed">');
+    expect(graphml).toContain('<key id="pageRank" for="node" attr.name="pageRank" attr.type="double"/>');
+    expect(graphml).toContain('<data key="title">Fish &amp; &quot;chips&quot; &lt;revisited&gt;</data>');
+    expect(graphml).toContain('<data key="authors">Ada Lovelace; Alan Turing</data>');
+    expect(graphml).toContain('<edge source="W1" target="R1"/>');
+
+    const dot = citationGraphToDot(graph);
+    expect(dot).toContain('"W1" [label="Lovelace et al. 1843\\nFish & \\"chips\\" <revisited>", peripheries=2, style=bold, URL="https://example.org/W1"];');
+    expect(dot).toContain('"W1" -> "R1";');
+
+    expect(JSON.parse(serializeCitationGraph(graph, 'json'))).toMatchObject({ provider: 'openalex', anchors: ['W1'], truncated: false });
+  });
+});
+
+describe('graph sources', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const url = new URL(request.url!, 'http://localhost');
+      requests.push(decodeURIComponent(`${url.pathname}${url.search}`));
+      const json = (status: number, body: unknown) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+      };
+      const work = (id: string, title: string, citedBy: number, references: string[] = []) => ({
+        id: `https://openalex.org/${id}`,
+        doi: null,
+        display_name: title,
+        publication_year: 2020,
+        authorships: [],
+        cited_by_count: citedBy,
+        referenced_works: references.map(reference => `https://openalex.org/${reference}`),
+      });
+      const paper = (paperId: string, title: string, citationCount: number) => ({ paperId, title, authors: [{ name: 'Jane Doe' }], year: 2020, citationCount, externalIds: {} });
+
+      if (url.pathname === '/openalex/works/doi:10.1038/s41586-021-03819-2') {
+        json(200, { ...work('W1', 'AlphaFold', 20000, ['W2', 'W3']), doi: 'https://doi.org/10.1038/s41586-021-03819-2' });
+      } else if (url.pathname === '/openalex/works' && url.searchParams.get('filter') === 'cited_by:W1') {
+        json(200, { results: [work('W3', 'More cited', 500), work('W2', 'Less cited', 10)].slice(0, Number(url.searchParams.get('per-page'))) });
+      } else if (url.pathname === '/openalex/works' && url.searchParams.get('filter') === 'cites:W1') {
+        json(200, { results: [work('W4', 'Citing paper', 3, ['W1', 'W3'])] });
+      } else if (url.pathname === '/s2/graph/v1/paper/DOI:10.1038/s41586-021-03819-2') {
+        json(200, paper('p1', 'AlphaFold', 20000));
+      } else if (url.pathname === '/s2/graph/v1/paper/p1/references') {
+        json(200, { data: [{ citedPaper: paper('p2', 'Less cited', 10) }, { citedPaper: { paperId: null, title: 'Unresolved' } }, { citedPaper: paper('p3', 'More cited', 500) }] });
+      } else if (url.pathname === '/s2/graph/v1/paper/p1/citations') {
+        json(200, { data: [{ citingPaper: paper('p4', 'Citing paper', 3) }] });
+      } else {
+        json(404, { error: 'Not found' });
+      }
+    });
+    baseUrl = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('should read references and citing works from OpenAlex', async () => {
+    const source = new OpenAlexGraphSource({ openAlexBaseUrl: `${baseUrl}/openalex`, contactEmail: 'research@example.org' });
+    const graph = await buildCitationGraph(source, ['https://doi.org/10.1038/s41586-021-03819-2'], { maxPerNode: 1 });
+    expect(graph.nodes.map(node => [node.id, node.title, node.doi])).toEqual([
+      ['W1', 'AlphaFold', '10.1038/s41586-021-03819-2'],
+      ['W3', 'More cited', undefined],
+      ['W4', 'Citing paper', undefined],
+    ]);
+    // W4's reference to W3 comes from its reference list
+    expect(graph.edges).toContainEqual({ source: 'W4', target: 'W3' });
+    expect(requests).toContainEqual(expect.stringContaining('/openalex/works?filter=cited_by:W1&sort=cited_by_count:desc&per-page=1'));
+    expect(requests).toContainEqual(expect.stringContaining('/openalex/works?filter=cites:W1&sort=cited_by_count:desc&per-page=1'));
+    expect(requests).toContainEqual(expect.stringContaining('mailto=research@example.org'));
+    await expect(source.paper('10.1000/missing')).rejects.toThrow('No OpenAlex record for 10.1000/missing');
+  });
+
+  test('should rank Semantic Scholar neighbours by citation count', async () => {
+    const source = new SemanticScholarGraphSource({ semanticScholarBaseUrl: `${baseUrl}/s2` });
+    const anchor = await source.paper('10.1038/s41586-021-03819-2');
+    expect(anchor).toMatchObject({ id: 'p1', title: 'AlphaFold', authors: ['Jane Doe'] });
+    expect((await source.references(anchor, 5)).map(paper => paper.id)).toEqual(['p3', 'p2']);
+    expect((await source.citations(anchor, 5)).map(paper => paper.id)).toEqual(['p4']);
+  });
+});
@@ -0,0 +1,90 @@
+import { buildCitationItem, CitationItem, describeCitationStyle, formatCitation, normalizeDoi, parseName } from '../citations';
+
+const authors = (count: number) => Array.from({ length: count }, (_, index) => parseName(`Author${index + 1}, Given Middle`));
+
+const article: CitationItem = {
+  type: 'article-journal',
+  title: 'Highly accurate protein structure prediction with AlphaFold',
+  author: ['John Jumper', 'Richard Evans'].map(parseName),
+  'container-title': 'Nature',
+  volume: 596,
+  issue: 7873,
+  page: '583-589',
+  issued: { 'date-parts': [[2021, 7, 15]] },
+  DOI: 'https://doi.org/10.1038/s41586-021-03819-2',
+};
+
+describe('parseName', () => {
+  test('should split given and family names in either order', () => {
+    expect(parseName('Jumper, John M.')).toEqual({ family: 'Jumper', given: 'John M.' });
+    expect(parseName('Martin Luther King Jr.')).toEqual({ family: 'King', given: 'Martin Luther', suffix: 'Jr.' });
+    expect(parseName('Ludwig van Beethoven')).toEqual({ family: 'Beethoven', given: 'Ludwig', 'non-dropping-particle': 'van' });
+    expect(parseName('{Nature Editors}')).toEqual({ literal: 'Nature Editors' });
+    expect(parseName('World Health Organization')).toEqual({ literal: 'World Health Organization' });
+  });
+});
+
+describe('formatCitation', () => {
+  test('should format a journal article in each style', () => {
+    expect(formatCitation(article, 'APA').citation).toBe(
+      'Jumper, J., & Evans, R. (2021). Highly accurate protein structure prediction with AlphaFold. Nature, 596(7873), 583–589. https://doi.org/10.1038/s41586-021-03819-2');
+    expect(formatCitation(article, 'apa').markdown).toContain('*Nature*, *596*(7873)');
+    expect(formatCitation(article, 'mla').citation).toBe(
+      'Jumper, John, and Richard Evans. “Highly accurate protein structure prediction with AlphaFold.” Nature, vol. 596, no. 7873, 15 July 2021, pp. 583–589, https://doi.org/10.1038/s41586-021-03819-2.');
+    expect(formatCitation(article, 'ieee', { number: 3 }).citation).toBe(
+      '[3] J. Jumper and R. Evans, “Highly accurate protein structure prediction with AlphaFold,” Nature, vol. 596, no. 7873, pp. 583–589, Jul. 2021. doi: 10.1038/s41586-021-03819-2.');
+    expect(formatCitation(article, 'vancouver').citation).toBe(
+      '1. Jumper J, Evans R. Highly accurate protein structure prediction with AlphaFold. Nature. 2021;596(7873):583-9. doi:10.1038/s41586-021-03819-2');
+    expect(formatCitation(article, 'harvard').inText).toBe('(Jumper and Evans, 2021)');
+    expect(formatCitation(article, 'chicago-author-date').inText).toBe('(Jumper and Evans 2021)');
+  });
+
+  test('should apply each style\'s et al. rule', () => {
+    const many = (count: number): CitationItem => ({ ...article, author: authors(count) });
+    expect(formatCitation(many(3), 'apa').inText).toBe('(Author1 et al., 2021)');
+    expect(formatCitation(many(21), 'apa').citation).toContain('Author19, G. M., … Author21, G. M. (2021)');
+    expect(formatCitation(many(3), 'mla').citation).toMatch(/^Author1, Given Middle, et al\. /);
+    expect(formatCitation(many(3), 'chicago-author-date').inText).toBe('(Author1, Author2, and Author3 2021)');
+    expect(formatCitation(many(4), 'chicago-author-date').inText).toBe('(Author1 et al. 2021)');
+    expect(formatCitation(many(4), 'chicago-notes').note).toMatch(/^Given Middle Author1 et al\., “/);
+    expect(formatCitation(many(11), 'chicago-notes').citation).toContain('Given Middle Author7, et al.');
+    expect(formatCitation(many(6), 'ieee').citation).toContain('G. M. Author5, and G. M. Author6,');
+    expect(formatCitation(many(7), 'ieee').citation).toContain('[1] G. M. Author1 et al., “');
+    expect(formatCitation(many(4), 'harvard').citation).toMatch(/^Author1, G\.M\. et al\. \(2021\)/);
+    expect(formatCitation(many(7), 'vancouver').citation).toContain('Author6 GM, et al. Highly');
+  });
+
+  test('should cope with missing dates and authors', () => {
+    const undated: CitationItem = { type: 'book', title: 'An Anonymous Book', publisher: 'Press' };
+    const apa = formatCitation(undated, 'apa');
+    expect(apa.citation).toBe('An Anonymous Book. (n.d.). Press.');
+    expect(apa.inText).toBe('(Anonymous Book, n.d.)');
+    expect(apa.warnings).toHaveLength(2);
+    expect(formatCitation(undated, 'harvard').citation).toBe('An Anonymous Book (no date). Press.');
+  });
+
+  test('should recognize Wikipedia articles and cite them with access dates', () => {
+    const item = buildCitationItem({ title: 'Citation', url: 'https://en.wikipedia.org/wiki/Citation', date: '2024-02-20' }, new Date('2024-03-04T12:00:00Z'));
+    expect(item.type).toBe('webpage');
+    expect(formatCitation(item, 'apa').citation).toBe('Citation. (2024, February 20). In Wikipedia. Retrieved March 4, 2024, from https://en.wikipedia.org/wiki/Citation');
+    expect(formatCitation(item, 'chicago-notes').note).toBe('Wikipedia, s.v. “Citation,” last modified February 20, 2024, https://en.wikipedia.org/wiki/Citation.');
+  });
+});
+
+describe('buildCitationItem', () => {
+  test('should infer the item type and normalize identifiers', () => {
+    expect(buildCitationItem({ title: 'T', source: 'J', volume: 3 }).type).toBe('article-journal');
+    expect(buildCitationItem({ title: 'T', url: 'https://example.com' }).type).toBe('webpage');
+    expect(buildCitationItem({ title: 'T', publisher: 'P' })).toEqual({ type: 'book', title: 'T', publisher: 'P' });
+    expect(normalizeDoi('doi:10.1000/xyz123.')).toBe('10.1000/xyz123');
+  });
+});
+
+describe('describeCitationStyle', () => {
+  test('should document rules with rendered examples', () => {
+    const description = describeCitationStyle('vancouver');
+    expect(description.name).toBe('Vancouver');
+    expect(Object.keys(description.examples)).toEqual(['article-journal', 'book', 'chapter', 'webpage', 'entry-encyclopedia']);
+    expect(() => describeCitationStyle('turabian')).toThrow('Unknown citation style');
+  });
+});
@@ -0,0 +1,79 @@
+import { extractReadableContent } from '../contentExtractor';
+
+const paragraph = (text: string) => `<p>${text} It also carries enough words, commas, and detail to read like prose.</p>`;
+
+const articlePage = `<!doctype html><html lang="en"><head>
+<title>How Rust handles memory | Dev Blog</title>
+<meta name="description" content="A tour of ownership.">
+<meta property="article:published_time" content="2024-05-02T10:00:00Z">
+<meta property="og:site_name" content="Dev Blog">
+<script type="application/ld+json">{"@context":"https://schema.org","@type":"BlogPosting","author":{"@type":"Person","name":"Jane Doe"}}</script>
+</head><body>
+<header class="site-header"><a href="/">Home</a> <a href="/about">About</a></header>
+<nav><ul><li><a href="/a">Archive</a></li><li><a href="/b">Tags</a></li></ul></nav>
+<div id="wrapper">
+<div class="sidebar"><ul><li><a href="/x">Popular post one</a></li><li><a href="/y">Popular post two</a></li></ul></div>
+<article class="post">
+<h1>How Rust handles memory</h1>
+${paragraph('Rust manages memory through ownership, checked by the compiler at compile time.')}
+<h2>Ownership rules</h2>
+<ul><li>Each value has an <em>owner</em>.</li><li>One owner at a time.<ul><li>Moves transfer ownership.</li></ul></li></ul>
+${paragraph('Here is a move between two variables using <code>String::from</code>, tracked by the compiler.')}
+<pre><code class="language-rust">let s1 = String::from("hello");
+let s2 = s1;
+</code></pre>
+<table><thead><tr><th>Type</th><th>Copy?</th></tr></thead><tbody><tr><td>i32</td><td>yes</td></tr><tr><td>String | str</td><td>no</td></tr></tbody></table>
+${paragraph('Borrowing lets functions use values without taking ownership, see <a href="/docs/borrow">the borrowing chapter</a>.')}
+<div class="share-widget"><a href="https://twitter.example">Tweet</a> <a href="https://facebook.example">Share</a></div>
+</article>
+</div>
+<footer>Copyright 2024 Dev Blog</footer>
+</body></html>`;
+
+describe('extractReadableContent', () => {
+  test('should read title, byline, publish date and site name from metadata', () => {
+    const result = extractReadableContent(articlePage, 'https://blog.example/posts/rust');
+    expect(result).toEqual(expect.objectContaining({
+      title: 'How Rust handles memory',
+      byline: 'Jane Doe',
+      publishedAt: '2024-05-02T10:00:00.000Z',
+      siteName: 'Dev Blog',
+      excerpt: 'A tour of ownership.',
+      lang: 'en',
+    }));
+  });
+
+  test('should keep the article and drop navigation, sidebars and share widgets', () => {
+    const { markdown, text } = extractReadableContent(articlePage, 'https://blog.example/posts/rust');
+    expect(text).toContain('Rust manages memory through ownership');
+    expect(text).toContain('Borrowing lets functions use values');
+    for (const boilerplate of ['Home', 'Archive', 'Popular post', 'Tweet', 'Copyright']) {
+      expect(markdown).not.toContain(boilerplate);
+    }
+    // The headline is the title, not repeated in the body
+    expect(markdown).not.toContain('# How Rust handles memory');
+  });
+
+  test('should render headings, nested lists, code, tables and links as markdown', () => {
+    const { markdown } = extractReadableContent(articlePage, 'https://blog.example/posts/rust');
+    expect(markdown).toContain('## Ownership rules');
+    expect(markdown).toContain('- Each value has an *owner*.\n- One owner at a time.\n  - Moves transfer ownership.');
+    expect(markdown).toContain('`String::from`');
+    expect(markdown).toContain('```rust\nlet s1 = String::from("hello");\nlet s2 = s1;\n```');
+    expect(markdown).toContain('| Type | Copy? |\n| --- | --- |\n| i32 | yes |\n| String \\| str | no |');
+    expect(markdown).toContain('[the borrowing chapter](https://blog.example/docs/borrow)');
+  });
+
+  test('should fall back to a byline element and a time tag without metadata', () => {
+    const html = `<html><head><title>Plain page</title></head><body><div id="content">
+      <span class="byline">By Sam Lee</span> <time datetime="2023-11-20">Nov 20</time>
+      ${paragraph('A plain page without structured metadata still has a readable body.')}
+      ${paragraph('The second paragraph makes the container the clear winner.')}
+    </div></body></html>`;
+    const result = extractReadableContent(html, 'https://plain.example/');
+    expect(result.byline).toBe('Sam Lee');
+    expect(result.publishedAt).toBe('2023-11-20T00:00:00.000Z');
+    expect(result.text).not.toContain('Sam Lee');
+    expect(result.wordCount).toBeGreaterThan(20);
+  });
+});
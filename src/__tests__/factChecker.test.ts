@@ -0,0 +1,115 @@
+import { aggregateVerdict, extractClaimReviews, FactChecker, normalizeRating } from '../factChecker';
+import { UrlPolicyError } from '../urlPolicy';
+
+function claimReviewPage(publisher: string, claimReviewed: string, rating: Record<string, any>): string {
+  const jsonLd = {
+    '@context': 'https://schema.org',
+    '@graph': [
+      { '@type': 'WebPage', name: 'Fact check' },
+      {
+        '@type': 'ClaimReview',
+        url: `https://${publisher.toLowerCase()}.example/check`,
+        claimReviewed,
+        author: { '@type': 'Organization', name: publisher },
+        reviewRating: { '@type': 'Rating', ...rating },
+        datePublished: '2024-03-01',
+      },
+    ],
+  };
+  return `<html><head><script type="application/ld+json">${JSON.stringify(jsonLd)}</script>` +
+    '<script type="application/ld+json">{ not json</script></head><body></body></html>';
+}
+
+describe('extractClaimReviews', () => {
+  test('should read ClaimReview nodes from JSON-LD graphs and skip malformed blocks', () => {
+    const reviews = extractClaimReviews(
+      claimReviewPage('PolitiFact', 'The moon is made of cheese', { alternateName: 'Pants on Fire', ratingValue: '1', bestRating: '6', worstRating: '1' }),
+      'https://politifact.example/page'
+    );
+    expect(reviews).toEqual([expect.objectContaining({
+      publisher: 'PolitiFact',
+      claimReviewed: 'The moon is made of cheese',
+      textualRating: 'Pants on Fire',
+      ratingValue: 1,
+      bestRating: 6,
+      datePublished: '2024-03-01',
+    })]);
+  });
+});
+
+describe('normalizeRating', () => {
+  test('should map textual ratings onto the verdict scale', () => {
+    expect(normalizeRating({ textualRating: 'Mostly False' }).verdict).toBe('mostly_false');
+    expect(normalizeRating({ textualRating: 'Half True' }).verdict).toBe('mixed');
+    expect(normalizeRating({ textualRating: 'Not true' }).verdict).toBe('false');
+    expect(normalizeRating({ textualRating: 'Unproven' })).toEqual({ verdict: 'unverified', score: null });
+  });
+
+  test('should read negated and in-/un- ratings as their opposite', () => {
+    expect(normalizeRating({ textualRating: 'Not correct' }).verdict).toBe('false');
+    expect(normalizeRating({ textualRating: 'Not Accurate' }).verdict).toBe('false');
+    expect(normalizeRating({ textualRating: 'Inaccurate' }).verdict).toBe('false');
+    expect(normalizeRating({ textualRating: 'Untrue' }).verdict).toBe('false');
+    expect(normalizeRating({ textualRating: 'Not entirely accurate' }).verdict).toBe('mostly_false');
+    expect(normalizeRating({ textualRating: 'Mostly inaccurate' }).verdict).toBe('mostly_false');
+    expect(normalizeRating({ textualRating: 'Not entirely false' }).verdict).toBe('mostly_true');
+    expect(normalizeRating({ textualRating: 'Unconfirmed' }).verdict).toBe('unverified');
+    expect(normalizeRating({ textualRating: 'Accurate' }).verdict).toBe('true');
+  });
+
+  test('should fall back to numeric ratings', () => {
+    expect(normalizeRating({ ratingValue: 5, bestRating: 5, worstRating: 1 })).toEqual({ verdict: 'true', score: 1 });
+    expect(normalizeRating({ textualRating: 'Ausgewogen', ratingValue: 1 }).verdict).toBe('false');
+  });
+});
+
+describe('aggregateVerdict', () => {
+  const evidence = (score: number | null, similarity = 1) => ({
+    url: '', publisher: '', claimReviewed: '', verdict: 'mixed' as const, score, similarity,
+  });
+
+  test('should be confident when several relevant ratings agree', () => {
+    const result = aggregateVerdict([evidence(0), evidence(0), evidence(0.25, 0.5)]);
+    expect(result.verdict).toBe('false');
+    expect(result.confidence).toBeGreaterThan(0.6);
+  });
+
+  test('should lower confidence when ratings disagree and report unverified without ratings', () => {
+    expect(aggregateVerdict([evidence(0), evidence(1), evidence(0.5)]).confidence).toBeLessThan(0.4);
+    expect(aggregateVerdict([evidence(null)])).toEqual({ verdict: 'unverified', score: null, confidence: 0 });
+  });
+});
+
+describe('FactChecker', () => {
+  test('should combine publisher ratings with Wikipedia context', async () => {
+    const pages: Record<string, string> = {
+      'https://a.example': claimReviewPage('Snopes', 'The Great Wall of China is visible from the Moon', { alternateName: 'False' }),
+      'https://b.example': claimReviewPage('FullFact', 'Great Wall visible from Moon with the naked eye', { alternateName: 'Incorrect' }),
+      'https://c.example': claimReviewPage('Other', 'Vaccines cause autism', { alternateName: 'False' }),
+    };
+    const checker = new FactChecker({
+      search: async () => ({
+        provider: 'test',
+        items: Object.keys(pages).concat('https://down.example', 'http://10.0.0.1').map(link => ({ title: link, link, snippet: '' })),
+      }),
+      fetchHtml: async (url) => {
+        if (url === 'http://10.0.0.1') throw new UrlPolicyError('PRIVATE_ADDRESS', '10.0.0.1 is a private, loopback or link-local address');
+        if (!pages[url]) throw new Error('connection refused');
+        return pages[url];
+      },
+      wikipedia: {
+        search: async () => ({ query: { search: [{ title: 'Great Wall of China' }] } }),
+        getPageSummary: async (title) => ({ title, extract: 'The Great Wall of China is a series of fortifications.' }),
+      },
+    });
+
+    const result = await checker.check('The Great Wall of China is visible from the Moon');
+    expect(result.verdict).toBe('false');
+    expect(result.evidence.map(item => item.publisher).sort()).toEqual(['FullFact', 'Snopes']);
+    expect(result.sourcesChecked).toHaveLength(5);
+    expect(result.sourcesChecked[3].error).toBe('connection refused');
+    expect(result.sourcesChecked[3].errorCode).toBeUndefined();
+    expect(result.sourcesChecked[4]).toMatchObject({ errorCode: 'PRIVATE_ADDRESS', error: expect.stringContaining('10.0.0.1') });
+    expect(result.wikipedia[0]).toEqual(expect.objectContaining({ title: 'Great Wall of China', url: expect.stringContaining('Great_Wall_of_China') }));
+  });
+});
@@ -0,0 +1,139 @@
+import { decodeText, FetchError, isAllowedByRobots, PageFetcher, parseRobotsTxt } from '../fetcher';
+import { UrlPolicy } from '../urlPolicy';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+describe('robots.txt', () => {
+  const robotsTxt = [
+    'User-agent: *',
+    'Disallow: /private/',
+    'Allow: /private/open',
+    'Crawl-delay: 2',
+    '',
+    'User-agent: research-mcp-server',
+    'User-agent: other-bot',
+    'Disallow: /*.pdf$',
+    'Disallow: /drafts # trailing comment',
+  ].join('\n');
+
+  test('should use the group naming our product token instead of *', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'research-mcp-server/1.0 (+https://example.com)');
+    expect(isAllowedByRobots(rules, '/private/page')).toBe(true);
+    expect(isAllowedByRobots(rules, '/paper.pdf')).toBe(false);
+    expect(isAllowedByRobots(rules, '/paper.pdf?download=1')).toBe(true);
+    expect(isAllowedByRobots(rules, '/drafts/1')).toBe(false);
+    expect(rules.crawlDelay).toBeUndefined();
+  });
+
+  test('should fall back to * and let the longest rule win', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'SomeBot/2.0');
+    expect(isAllowedByRobots(rules, '/private/page')).toBe(false);
+    expect(isAllowedByRobots(rules, '/private/open/doc')).toBe(true);
+    expect(isAllowedByRobots(rules, '/robots.txt')).toBe(true);
+    expect(rules.crawlDelay).toBe(2);
+  });
+});
+
+describe('PageFetcher', () => {
+  // The test server listens on loopback, which the default policy refuses
+  const policy = new UrlPolicy({ allowPrivateNetworks: true });
+  let server: TestServer;
+  let baseUrl: string;
+  let active = 0;
+  let maxActive = 0;
+  let robotsRequests = 0;
+  const userAgents: string[] = [];
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      userAgents.push(String(request.headers['user-agent']));
+      switch (request.url) {
+        case '/robots.txt':
+          robotsRequests++;
+          response.end('User-agent: *\nDisallow: /blocked\n');
+          return;
+        case '/image.png':
+          response.setHeader('Content-Type', 'image/png');
+          response.end(Buffer.alloc(64));
+          return;
+        case '/large':
+          response.setHeader('Content-Type', 'text/html');
+          // No Content-Length: the limit must hold while streaming
+          response.write('x'.repeat(2048));
+          response.end('x'.repeat(2048));
+          return;
+        default:
+          active++;
+          maxActive = Math.max(maxActive, active);
+          setTimeout(() => {
+            active--;
+            response.setHeader('Content-Type', 'text/html; charset=iso-8859-1');
+            response.end(Buffer.from('<p>Caf\xe9</p>', 'latin1'));
+          }, 30);
+      }
+    });
+    baseUrl = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('should send the configured user agent and honor robots.txt', async () => {
+    const fetcher = new PageFetcher({ userAgent: 'test-agent/1.0', hostDelayMs: 0, policy });
+    const page = await fetcher.fetch(`${baseUrl}/page`);
+    expect(page.status).toBe(200);
+    expect(decodeText(page)).toBe('<p>Café</p>');
+    expect(userAgents).toContain('test-agent/1.0');
+    expect(userAgents).not.toContain('Mozilla/5.0');
+    await expect(fetcher.fetch(`${baseUrl}/blocked`)).rejects.toMatchObject({ code: 'ROBOTS_DISALLOWED' });
+  });
+
+  test('should refuse unexpected content types and oversized bodies', async () => {
+    const fetcher = new PageFetcher({ hostDelayMs: 0, maxBytes: 3000, policy });
+    await expect(fetcher.fetch(`${baseUrl}/image.png`)).rejects.toMatchObject({ code: 'UNSUPPORTED_CONTENT_TYPE' });
+    const error = await fetcher.fetch(`${baseUrl}/large`).catch(caught => caught);
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error.code).toBe('RESPONSE_TOO_LARGE');
+  });
+
+  test('should limit concurrency and space out requests per host', async () => {
+    maxActive = 0;
+    const fetcher = new PageFetcher({ hostConcurrency: 1, hostDelayMs: 50, respectRobots: false, policy });
+    const started = Date.now();
+    await Promise.all([1, 2, 3].map(index => fetcher.fetch(`${baseUrl}/page${index}`)));
+    expect(maxActive).toBe(1);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(100);
+  });
+
+  test('should fetch robots.txt once for concurrent requests to a site', async () => {
+    robotsRequests = 0;
+    const fetcher = new PageFetcher({ hostConcurrency: 3, hostDelayMs: 0, policy });
+    await Promise.all([1, 2, 3].map(index => fetcher.fetch(`${baseUrl}/page${index}`)));
+    expect(robotsRequests).toBe(1);
+  });
+
+  test('should space out the robots.txt request like any other', async () => {
+    robotsRequests = 0;
+    const fetcher = new PageFetcher({ hostDelayMs: 50, policy });
+    const started = Date.now();
+    await fetcher.fetch(`${baseUrl}/page`);
+    expect(robotsRequests).toBe(1);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(50);
+  });
+
+  test('should connect directly even when a proxy is configured', async () => {
+    const saved = { HTTP_PROXY: process.env.HTTP_PROXY, NO_PROXY: process.env.NO_PROXY, no_proxy: process.env.no_proxy };
+    process.env.HTTP_PROXY = 'http://127.0.0.1:9';
+    delete process.env.NO_PROXY;
+    delete process.env.no_proxy;
+    try {
+      const fetcher = new PageFetcher({ hostDelayMs: 0, respectRobots: false, policy });
+      expect((await fetcher.fetch(`${baseUrl}/page`)).status).toBe(200);
+    } finally {
+      for (const [key, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+  });
+});
@@ -0,0 +1,25 @@
+import { createServer, RequestListener, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface TestServer {
+  server: Server;
+  port: number;
+  // http://127.0.0.1:<port>, without a trailing slash
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve `handler` on a free loopback port for tests that talk to a fake upstream API.
+ */
+export async function startTestServer(handler: RequestListener): Promise<TestServer> {
+  const server = createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    server,
+    port,
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
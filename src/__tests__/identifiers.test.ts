@@ -0,0 +1,278 @@
+import axios from 'axios';
+import { formatCitation } from '../citations';
+import { IdentifierResolver, metaTagsToItem, parseIdentifier } from '../identifiers';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+// Trimmed recordings of each service's response
+const CROSSREF_WORK = {
+  status: 'ok',
+  message: {
+    DOI: '10.1038/s41586-021-03819-2',
+    type: 'journal-article',
+    title: ['Highly accurate protein structure prediction with <i>AlphaFold</i>'],
+    author: [
+      { given: 'John', family: 'Jumper', sequence: 'first', affiliation: [] },
+      { given: 'Richard', family: 'Evans', sequence: 'additional', affiliation: [] },
+      { name: 'AlphaFold Team', sequence: 'additional', affiliation: [] },
+    ],
+    'container-title': ['Nature'],
+    publisher: 'Springer Science and Business Media LLC',
+    issued: { 'date-parts': [[2021, 7, 15]] },
+    volume: '596',
+    issue: '7873',
+    page: '583-589',
+    ISSN: ['0028-0836', '1476-4687'],
+    URL: 'https://doi.org/10.1038/s41586-021-03819-2',
+    abstract: '<jats:p>Proteins are essential to life.</jats:p>',
+  },
+};
+
+const OPEN_LIBRARY_BOOK = {
+  'ISBN:9780226458120': {
+    title: 'The Structure of Scientific Revolutions',
+    subtitle: '50th Anniversary Edition',
+    authors: [{ url: 'https://openlibrary.org/authors/OL23978A', name: 'Thomas S. Kuhn' }],
+    publishers: [{ name: 'University of Chicago Press' }],
+    publish_places: [{ name: 'Chicago' }],
+    publish_date: 'April 30, 2012',
+  },
+};
+
+const ARXIV_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="html">ArXiv Query: id_list=1706.03762</title>
+  <entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <updated>2023-08-02T00:41:18Z</updated>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All You
+      Need</title>
+    <summary>  The dominant sequence transduction models are based on complex recurrent networks.</summary>
+    <author><name>Ashish Vaswani</name></author>
+    <author><name>Noam Shazeer</name></author>
+    <arxiv:comment xmlns:arxiv="http://arxiv.org/schemas/atom">15 pages, 5 figures</arxiv:comment>
+    <arxiv:journal_ref xmlns:arxiv="http://arxiv.org/schemas/atom">NeurIPS 2017</arxiv:journal_ref>
+  </entry>
+</feed>`;
+
+const ARXIV_ERROR_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <id>http://arxiv.org/api/errors#incorrect_id_format_for_9999.99999</id>
+    <title>Error</title>
+    <summary>incorrect id format for 9999.99999</summary>
+  </entry>
+</feed>`;
+
+const PUBMED_SUMMARY = {
+  header: { type: 'esummary', version: '0.3' },
+  result: {
+    uids: ['34265844'],
+    34265844: {
+      uid: '34265844',
+      pubdate: '2021 Aug',
+      source: 'Nature',
+      authors: [
+        { name: 'Jumper J', authtype: 'Author' },
+        { name: 'Evans RM', authtype: 'Author' },
+        { name: 'AlphaFold Team', authtype: 'CollectiveName' },
+      ],
+      title: 'Highly accurate protein structure prediction with AlphaFold.',
+      volume: '596',
+      issue: '7873',
+      pages: '583-589',
+      fulljournalname: 'Nature',
+      issn: '0028-0836',
+      articleids: [{ idtype: 'pubmed', value: '34265844' }, { idtype: 'doi', value: '10.1038/s41586-021-03819-2' }],
+    },
+  },
+};
+
+const ARTICLE_PAGE = `<!doctype html><html lang="en"><head>
+  <title>Deep learning | Nature</title>
+  <meta name="citation_title" content="Deep learning">
+  <meta name="citation_author" content="LeCun, Yann">
+  <meta name="citation_author" content="Bengio, Yoshua">
+  <meta name="citation_journal_title" content="Nature">
+  <meta name="citation_publisher" content="Nature Publishing Group">
+  <meta name="citation_publication_date" content="2015/05/28">
+  <meta name="citation_volume" content="521">
+  <meta name="citation_issue" content="7553">
+  <meta name="citation_firstpage" content="436">
+  <meta name="citation_lastpage" content="444">
+  <meta name="citation_doi" content="doi:10.1038/nature14539">
+</head><body><p>Abstract</p></body></html>`;
+
+const REPORT_PAGE = `<html><head>
+  <meta name="DC.title" content="Open data in practice">
+  <meta name="DC.creator" content="Ada Lovelace">
+  <meta name="DC.date" content="2020-03-01">
+  <meta name="DC.publisher" content="Open Data Institute">
+  <meta property="og:site_name" content="ODI">
+</head><body></body></html>`;
+
+describe('parseIdentifier', () => {
+  test('should recognize each identifier and its URL forms', () => {
+    expect(parseIdentifier('https://doi.org/10.1038/nature14539')).toEqual({ type: 'doi', value: '10.1038/nature14539' });
+    expect(parseIdentifier('doi:10.1038/nature14539')).toEqual({ type: 'doi', value: '10.1038/nature14539' });
+    expect(parseIdentifier('arXiv:1706.03762v7')).toEqual({ type: 'arxiv', value: '1706.03762v7' });
+    expect(parseIdentifier('https://arxiv.org/pdf/hep-th/9901001.pdf')).toEqual({ type: 'arxiv', value: 'hep-th/9901001' });
+    expect(parseIdentifier('ISBN 978-0-226-45812-0')).toEqual({ type: 'isbn', value: '9780226458120' });
+    expect(parseIdentifier('0-306-40615-2')).toEqual({ type: 'isbn', value: '0306406152' });
+    expect(parseIdentifier('PMID: 34265844')).toEqual({ type: 'pmid', value: '34265844' });
+    expect(parseIdentifier('https://pubmed.ncbi.nlm.nih.gov/34265844/')).toEqual({ type: 'pmid', value: '34265844' });
+    expect(parseIdentifier('https://example.com/paper')).toEqual({ type: 'url', value: 'https://example.com/paper' });
+    expect(parseIdentifier('https://doi.org/10.1038/nature14539', 'url').type).toBe('url');
+  });
+
+  test('should reject invalid identifiers', () => {
+    expect(() => parseIdentifier('978-0-226-45812-1')).toThrow('not a valid DOI, ISBN, arXiv ID, PMID or URL');
+    expect(() => parseIdentifier('10.1038/nature14539', 'isbn')).toThrow('not a valid ISBN');
+  });
+});
+
+describe('metaTagsToItem', () => {
+  test('should fall back to Dublin Core and the page URL', () => {
+    expect(metaTagsToItem(REPORT_PAGE, 'https://example.org/report')).toMatchObject({
+      type: 'webpage',
+      title: 'Open data in practice',
+      author: [{ family: 'Lovelace', given: 'Ada' }],
+      'container-title': 'ODI',
+      publisher: 'Open Data Institute',
+      issued: { 'date-parts': [[2020, 3, 1]] },
+      URL: 'https://example.org/report',
+    });
+  });
+});
+
+describe('IdentifierResolver', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const url = new URL(request.url!, 'http://localhost');
+      requests.push(`${url.pathname}${url.search}`);
+      const json = (status: number, body: unknown) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+      };
+      if (url.pathname === '/crossref/works/10.1038%2Fs41586-021-03819-2' || url.pathname === '/crossref/works/10.1038/s41586-021-03819-2') {
+        json(200, CROSSREF_WORK);
+      } else if (url.pathname.startsWith('/crossref/works/')) {
+        response.writeHead(404);
+        response.end('Resource not found.');
+      } else if (url.pathname === '/openlibrary/api/books') {
+        json(200, url.searchParams.get('bibkeys') === 'ISBN:9780226458120' ? OPEN_LIBRARY_BOOK : {});
+      } else if (url.pathname === '/arxiv/api/query') {
+        response.writeHead(200, { 'Content-Type': 'application/atom+xml' });
+        response.end(url.searchParams.get('id_list') === '1706.03762' ? ARXIV_FEED : ARXIV_ERROR_FEED);
+      } else if (url.pathname === '/eutils/esummary.fcgi') {
+        json(200, PUBMED_SUMMARY);
+      } else if (url.pathname === '/article') {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end(ARTICLE_PAGE);
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    baseUrl = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const resolver = () => new IdentifierResolver({
+    fetchHtml: async url => (await axios.get(url, { responseType: 'text' })).data,
+    crossrefBaseUrl: `${baseUrl}/crossref`,
+    openLibraryBaseUrl: `${baseUrl}/openlibrary`,
+    arxivBaseUrl: `${baseUrl}/arxiv`,
+    pubmedBaseUrl: `${baseUrl}/eutils`,
+    contactEmail: 'research@example.org',
+    arxivRequestInterval: 0,
+  });
+
+  test('should resolve DOIs through Crossref', async () => {
+    const resolved = await resolver().resolve('https://doi.org/10.1038/s41586-021-03819-2');
+    expect(resolved.source).toBe('crossref');
+    expect(requests).toContain('/crossref/works/10.1038%2Fs41586-021-03819-2?mailto=research%40example.org');
+    expect(resolved.item).toEqual({
+      type: 'article-journal',
+      title: 'Highly accurate protein structure prediction with AlphaFold',
+      author: [{ family: 'Jumper', given: 'John' }, { family: 'Evans', given: 'Richard' }, { literal: 'AlphaFold Team' }],
+      'container-title': 'Nature',
+      publisher: 'Springer Science and Business Media LLC',
+      issued: { 'date-parts': [[2021, 7, 15]] },
+      volume: '596',
+      issue: '7873',
+      page: '583-589',
+      DOI: '10.1038/s41586-021-03819-2',
+      URL: 'https://doi.org/10.1038/s41586-021-03819-2',
+      ISSN: '0028-0836',
+      abstract: 'Proteins are essential to life.',
+    });
+    expect(formatCitation(resolved.item, 'apa').citation).toBe(
+      'Jumper, J., Evans, R., & AlphaFold Team. (2021). Highly accurate protein structure prediction with AlphaFold. Nature, 596(7873), 583–589. https://doi.org/10.1038/s41586-021-03819-2');
+    await expect(resolver().resolve('10.9999/missing')).rejects.toThrow('No Crossref record for DOI 10.9999/missing');
+  });
+
+  test('should resolve ISBNs through OpenLibrary and arXiv IDs through the arXiv API', async () => {
+    const book = await resolver().resolve('978-0-226-45812-0');
+    expect(book.item).toEqual({
+      type: 'book',
+      title: 'The Structure of Scientific Revolutions: 50th Anniversary Edition',
+      author: [{ family: 'Kuhn', given: 'Thomas S.' }],
+      publisher: 'University of Chicago Press',
+      'publisher-place': 'Chicago',
+      issued: { 'date-parts': [[2012, 4, 30]] },
+      ISBN: '9780226458120',
+    });
+    await expect(resolver().resolve('0-306-40615-2')).rejects.toThrow('No OpenLibrary record');
+
+    const preprint = await resolver().resolve('arXiv:1706.03762');
+    expect(preprint.item).toMatchObject({
+      type: 'document',
+      title: 'Attention Is All You Need',
+      author: [{ family: 'Vaswani', given: 'Ashish' }, { family: 'Shazeer', given: 'Noam' }],
+      'container-title': 'arXiv',
+      number: 'arXiv:1706.03762',
+      issued: { 'date-parts': [[2017, 6, 12]] },
+      DOI: '10.48550/arXiv.1706.03762',
+      URL: 'https://arxiv.org/abs/1706.03762v7',
+      note: 'Published in NeurIPS 2017',
+    });
+    await expect(resolver().resolve('9999.99999')).rejects.toThrow('No arXiv record');
+  });
+
+  test('should resolve PMIDs through PubMed and URLs through citation meta tags', async () => {
+    const article = await resolver().resolve('PMID:34265844');
+    expect(article.item).toMatchObject({
+      type: 'article-journal',
+      title: 'Highly accurate protein structure prediction with AlphaFold',
+      author: [{ family: 'Jumper', given: 'J.' }, { family: 'Evans', given: 'R. M.' }, { literal: 'AlphaFold Team' }],
+      issued: { 'date-parts': [[2021, 8]] },
+      page: '583-589',
+      DOI: '10.1038/s41586-021-03819-2',
+    });
+
+    const page = await resolver().resolve(`${baseUrl}/article`);
+    expect(page.source).toBe('meta-tags');
+    expect(page.item).toEqual({
+      type: 'article-journal',
+      title: 'Deep learning',
+      author: [{ family: 'LeCun', given: 'Yann' }, { family: 'Bengio', given: 'Yoshua' }],
+      'container-title': 'Nature',
+      publisher: 'Nature Publishing Group',
+      issued: { 'date-parts': [[2015, 5, 28]] },
+      volume: '521',
+      issue: '7553',
+      page: '436-444',
+      DOI: '10.1038/nature14539',
+      URL: `${baseUrl}/article`,
+      language: 'en',
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { JSONRPCServer, JSONRPCError, INVALID_PARAMS } from '../jsonrpc';
+import { HttpTransport } from '../httpTransport';
+
+describe('JSONRPCServer over HttpTransport', () => {
+  let transport: HttpTransport;
+  let server: JSONRPCServer;
+  let endpoint: string;
+
+  beforeEach(async () => {
+    transport = new HttpTransport({ port: 0, host: '127.0.0.1' });
+    server = new JSONRPCServer(transport);
+    server.on('add', async (params) => {
+      if (!Array.isArray(params) || params.some(value => typeof value !== 'number')) {
+        throw new JSONRPCError(INVALID_PARAMS, 'Invalid params: expected an array of numbers');
+      }
+      return params.reduce((sum: number, value: number) => sum + value, 0);
+    });
+    server.on('fail', async () => {
+      throw new Error('boom');
+    });
+    await server.start();
+    endpoint = `http://127.0.0.1:${transport.address()!.port}/rpc`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const post = (body: string) => fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  });
+
+  test('should answer a single request', async () => {
+    const response = await post(JSON.stringify({ jsonrpc: '2.0', method: 'add', params: [1, 2], id: 1 }));
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', result: 3, id: 1 });
+  });
+
+  test('should return a parse error for malformed JSON', async () => {
+    const response = await post('{"jsonrpc": "2.0", "method"');
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null });
+  });
+
+  test('should return invalid params errors from handlers', async () => {
+    const response = await post(JSON.stringify({ jsonrpc: '2.0', method: 'add', params: ['a'], id: 'x' }));
+    const body = await response.json();
+    expect(body.error.code).toBe(-32602);
+    expect(body.id).toBe('x');
+  });
+
+  test('should reject non-structured params', async () => {
+    const response = await post(JSON.stringify({ jsonrpc: '2.0', method: 'add', params: 5, id: 2 }));
+    expect((await response.json()).error.code).toBe(-32602);
+  });
+
+  test('should process batches and skip notifications', async () => {
+    const response = await post(JSON.stringify([
+      { jsonrpc: '2.0', method: 'add', params: [1, 1], id: 1 },
+      { jsonrpc: '2.0', method: 'add', params: [5] },
+      { jsonrpc: '2.0', method: 'missing', id: 2 },
+      { jsonrpc: '2.0', method: 'fail', id: 3 },
+      42,
+    ]));
+    expect(await response.json()).toEqual([
+      { jsonrpc: '2.0', result: 2, id: 1 },
+      { jsonrpc: '2.0', error: { code: -32601, message: 'Method not found' }, id: 2 },
+      { jsonrpc: '2.0', error: { code: -32000, message: 'boom' }, id: 3 },
+      { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request: body must be a JSON object.' }, id: null },
+    ]);
+  });
+
+  test('should return no content for notification-only batches', async () => {
+    const response = await post(JSON.stringify([{ jsonrpc: '2.0', method: 'add', params: [1] }]));
+    expect(response.status).toBe(204);
+  });
+
+  test('should reject an empty batch', async () => {
+    const response = await post('[]');
+    expect((await response.json()).error.code).toBe(-32600);
+  });
+});
@@ -0,0 +1,146 @@
+import { extractPdfContent, isPdf, parsePdfDate, PdfPageContent, structurePdf } from '../pdfExtractor';
+
+// One text item per line: [fontSize, x, y, text]
+function page(number: number, lines: [number, number, number, string][]): PdfPageContent {
+  return {
+    number,
+    items: lines.map(([fontSize, x, y, text]) => ({ text, x, y, fontSize, width: text.length * fontSize * 0.5 })),
+  };
+}
+
+const paper = [
+  page(1, [
+    [10, 72, 760, 'Journal of Folding 12 (2023)'],
+    [18, 72, 720, 'Deep Learning for'],
+    [18, 72, 700, 'Protein Folding'],
+    [11, 72, 670, 'Alice Smith1, Bob Jones2 and Carol White*'],
+    [9, 72, 655, '1 University of Somewhere, 2 Institute of Proteins'],
+    [10, 72, 630, 'Abstract'],
+    [10, 72, 615, 'We present a new method for predicting protein struc-'],
+    [10, 72, 603, 'tures from sequences. It improves accuracy.'],
+    [12, 72, 570, '1 Introduction'],
+    [10, 72, 555, 'Proteins fold into complex shapes, which determine their function.'],
+    [10, 300, 40, '1'],
+  ]),
+  page(2, [
+    [10, 72, 760, 'Journal of Folding 12 (2023)'],
+    [10, 72, 720, 'The results confirm the approach works across benchmarks.'],
+    [12, 72, 690, 'References'],
+    [10, 72, 675, 'Doe, J. (2020). Folding at home. Nature,'],
+    [10, 90, 663, '580, 12-15.'],
+    [10, 72, 651, 'Roe, R. (2021). Structure prediction revisited.'],
+    [10, 300, 40, '2'],
+  ]),
+  page(3, [
+    [10, 72, 760, 'Journal of Folding 12 (2023)'],
+    [10, 72, 720, 'Zed, Z. (2022). A final reference. Cell, 3, 1-2.'],
+    [10, 300, 40, '3'],
+  ]),
+];
+
+describe('structurePdf', () => {
+  const result = structurePdf(paper, { title: 'Microsoft Word - draft7.docx', creationDate: "D:20230415120000+02'00'" }, 'https://x.example/fold.pdf');
+
+  test('should recover title, authors, abstract and publish date', () => {
+    expect(result.format).toBe('pdf');
+    expect(result.title).toBe('Deep Learning for Protein Folding');
+    expect(result.authors).toEqual(['Alice Smith', 'Bob Jones', 'Carol White']);
+    expect(result.byline).toBe('Alice Smith, Bob Jones, Carol White');
+    expect(result.abstract).toBe('We present a new method for predicting protein structures from sequences. It improves accuracy.');
+    expect(result.publishedAt).toBe('2023-04-15T10:00:00.000Z');
+  });
+
+  test('should split author-year references by hanging indent across pages', () => {
+    expect(result.references).toEqual([
+      'Doe, J. (2020). Folding at home. Nature, 580, 12-15.',
+      'Roe, R. (2021). Structure prediction revisited.',
+      'Zed, Z. (2022). A final reference. Cell, 3, 1-2.',
+    ]);
+  });
+
+  test('should keep page boundaries and drop running heads and page numbers', () => {
+    expect(result.pages).toHaveLength(3);
+    expect(result.markdown).toMatch(/^<!-- page 1 -->\n\n## Abstract/);
+    expect(result.markdown).toContain('## 1 Introduction\n\nProteins fold');
+    expect(result.markdown).toContain('<!-- page 2 -->\n\nThe results confirm');
+    expect(result.markdown).toContain('## References\n\n1. Doe, J. (2020)');
+    expect(result.text).not.toContain('Journal of Folding');
+    expect(result.text).not.toContain('University of Somewhere');
+  });
+});
+
+describe('two-column pages', () => {
+  const twoColumns = page(1, [
+    [16, 150, 760, 'A Study Set in Two Columns of Text'],
+    [10, 72, 700, 'Left column opens the first paragraph here,'],
+    [10, 320, 700, 'Right column starts the second paragraph.'],
+    [10, 72, 688, 'and the left column carries on below it.'],
+    [10, 320, 688, 'It continues on the right side as well.'],
+    [10, 72, 676, 'The left column closes its paragraph now.'],
+    [10, 320, 676, 'Then the right column closes its own one.'],
+  ]);
+
+  test('should read each column top to bottom instead of interleaving them', () => {
+    const result = structurePdf([twoColumns], {}, 'https://x.example/columns.pdf');
+    expect(result.pages![0].text.split('\n')).toEqual([
+      'A Study Set in Two Columns of Text',
+      'Left column opens the first paragraph here,',
+      'and the left column carries on below it.',
+      'The left column closes its paragraph now.',
+      'Right column starts the second paragraph.',
+      'It continues on the right side as well.',
+      'Then the right column closes its own one.',
+    ]);
+    expect(result.text).toContain('Left column opens the first paragraph here, and the left column carries on below it.');
+  });
+
+  test('should fall back to a placeholder title for malformed URLs', () => {
+    expect(structurePdf([page(1, [[10, 72, 700, 'x']])], {}, 'https://x.example/%E0%A4%A.pdf').title).toBe('Untitled PDF');
+  });
+});
+
+describe('extractPdfContent', () => {
+  test('should map pdf.js text items, metadata and pages', async () => {
+    const cleanup = jest.fn();
+    const destroy = jest.fn(async () => undefined);
+    const pages = [
+      [{ str: 'Folding Proteins Quickly', transform: [18, 0, 0, 18, 72, 720], width: 200, height: 18 }, { type: 'beginMarkedContent' }],
+      [{ str: 'Body text on the second page.', transform: [10, 0, 0, 10, 72, 700], width: 150, height: 10 }],
+      [{ str: 'Never read', transform: [10, 0, 0, 10, 72, 700], width: 50, height: 10 }],
+    ];
+    const document = {
+      numPages: 3,
+      getMetadata: async () => ({ info: { Author: 'Alice Smith', CreationDate: 'D:20200102', Language: 'en' } }),
+      getPage: async (number: number) => ({ getTextContent: async () => ({ items: pages[number - 1] }), cleanup }),
+      destroy,
+    };
+    const getDocument = jest.fn(() => ({ promise: Promise.resolve(document) }));
+
+    const result = await extractPdfContent(Buffer.from('%PDF-1.7'), 'https://x.example/p.pdf', 2, async () => ({ getDocument }) as any);
+    expect(result).toMatchObject({ title: 'Folding Proteins Quickly', authors: ['Alice Smith'], publishedAt: '2020-01-02T00:00:00.000Z', lang: 'en' });
+    expect(result.pages).toEqual([
+      { number: 1, text: 'Folding Proteins Quickly' },
+      { number: 2, text: 'Body text on the second page.' },
+    ]);
+    expect(cleanup).toHaveBeenCalledTimes(2);
+    expect(destroy).toHaveBeenCalled();
+  });
+});
+
+describe('isPdf', () => {
+  test('should detect PDFs by content type or signature', () => {
+    const pdfBytes = Buffer.from('%PDF-1.7\n...');
+    expect(isPdf('application/pdf; charset=binary', Buffer.alloc(0))).toBe(true);
+    expect(isPdf('application/octet-stream', pdfBytes)).toBe(true);
+    expect(isPdf(undefined, pdfBytes)).toBe(true);
+    expect(isPdf('text/html', Buffer.from('<p>How to make a %PDF- file</p>'))).toBe(false);
+  });
+});
+
+describe('parsePdfDate', () => {
+  test('should parse partial dates and reject garbage', () => {
+    expect(parsePdfDate('D:2021')).toBe('2021-01-01T00:00:00.000Z');
+    expect(parsePdfDate('D:20210302093000Z')).toBe('2021-03-02T09:30:00.000Z');
+    expect(parsePdfDate('yesterday')).toBeUndefined();
+  });
+});
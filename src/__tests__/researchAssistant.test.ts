@@ -0,0 +1,63 @@
+import { ChannelSearch, coreTerms, expandQueries, keySentences, ResearchAssistant } from '../researchAssistant';
+
+function channel(name: string, calls: string[]): ChannelSearch {
+  return async (query, num) => {
+    calls.push(`${name}:${query}`);
+    return [
+      { title: `${name} result`, link: `https://${name}.example/${encodeURIComponent(query)}`, snippet: `${name} snippet about ${query}` },
+      { title: 'Shared result', link: 'https://shared.example/page?utm_source=x', snippet: 'Shared snippet' },
+    ].slice(0, num);
+  };
+}
+
+describe('query expansion', () => {
+  test('should strip question words before expanding', () => {
+    expect(coreTerms('How does caffeine affect sleep?')).toBe('caffeine affect sleep');
+    expect(expandQueries('How does caffeine affect sleep?', 'academic').map(q => q.query)).toContain('caffeine affect sleep study results');
+  });
+
+  test('should pick the sentences that best match the topic', () => {
+    const text = 'The weather was nice. Caffeine blocks adenosine receptors, which delays sleep onset in most adults. Unrelated sentence here about cooking pasta well.';
+    expect(keySentences(text, 'caffeine sleep', 1)).toEqual(['Caffeine blocks adenosine receptors, which delays sleep onset in most adults.']);
+  });
+});
+
+describe('ResearchAssistant', () => {
+  test('should route by research type and respect the depth budget', () => {
+    const assistant = new ResearchAssistant({
+      channels: { web: channel('web', []), academic: channel('academic', []), news: channel('news', []), wikipedia: channel('wikipedia', []) },
+      fetchPage: async () => ({ title: '', content: '' }),
+    });
+    expect(assistant.plan('solar power', 'news', 'quick').searches.map(search => search.channel)).toEqual(['news', 'news', 'news']);
+    expect(assistant.plan('solar power', 'factual', 'standard').searches.every(search => search.channel === 'wikipedia')).toBe(true);
+    expect(assistant.plan('solar power', 'comprehensive', 'deep').searches).toHaveLength(12);
+  });
+
+  test('should fall back to Wikipedia when web channels are unavailable', () => {
+    const assistant = new ResearchAssistant({ channels: { wikipedia: channel('wikipedia', []) }, fetchPage: async () => ({ title: '', content: '' }) });
+    const plan = assistant.plan('solar power', 'academic', 'quick');
+    expect(plan.channels).toEqual(['wikipedia']);
+    expect(plan.skippedChannels).toEqual(['academic']);
+  });
+
+  test('should deduplicate results, read the top pages and cite them in the briefing', async () => {
+    const calls: string[] = [];
+    const fetched: string[] = [];
+    const assistant = new ResearchAssistant({
+      channels: { academic: channel('academic', calls) },
+      fetchPage: async (url) => {
+        fetched.push(url);
+        if (url.includes('shared')) throw new Error('timeout');
+        return { title: 'Paper', content: 'Solar power adoption grew quickly in 2023 according to the survey data. Nothing else.' };
+      },
+    });
+
+    const result = await assistant.research('solar power adoption', 'academic', 'quick');
+    expect(calls).toHaveLength(3);
+    expect(result.sources.filter(source => source.url.includes('shared'))).toHaveLength(1);
+    expect(result.sources[0]).toEqual(expect.objectContaining({ url: 'https://shared.example/page?utm_source=x', hits: 3, fetched: false, error: 'timeout' }));
+    expect(fetched).toHaveLength(2);
+    expect(result.briefing).toContain('Solar power adoption grew quickly in 2023 according to the survey data. [2]');
+    expect(result.sections[0].heading).toBe('Research overview');
+  });
+});
@@ -0,0 +1,120 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+
+describe('ResearchMCPServer over Streamable HTTP', () => {
+  let server: { run(mode: 'http'): Promise<void>; address(): { port: number } | null; close(): Promise<void> };
+  let sessionDir: string;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    sessionDir = await mkdtemp(path.join(os.tmpdir(), 'research-http-'));
+    process.env.PORT = '0';
+    process.env.RESEARCH_SESSION_DIR = sessionDir;
+    const { default: ResearchMCPServer } = await import('../../research-server');
+    server = new ResearchMCPServer();
+    await server.run('http');
+    endpoint = `http://127.0.0.1:${server.address()!.port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await rm(sessionDir, { recursive: true, force: true });
+  });
+
+  const post = (body: string, sessionId?: string) => fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+    },
+    body,
+  });
+
+  // Responses may come back as a single SSE event rather than plain JSON
+  const readMessage = async (response: Response) => {
+    const text = await response.text();
+    const data = text.split('\n').find(line => line.startsWith('data:'));
+    return JSON.parse(data ? data.slice('data:'.length) : text);
+  };
+
+  test('should initialize a session and list tools', async () => {
+    const initialize = await post(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+    }));
+    expect(initialize.status).toBe(200);
+    const sessionId = initialize.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    expect((await readMessage(initialize)).result.serverInfo).toBeDefined();
+
+    await post(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }), sessionId!);
+    const list = await post(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }), sessionId!);
+    const { result } = await readMessage(list);
+    expect(result.tools.map((tool: { name: string }) => tool.name)).toEqual(expect.arrayContaining(['wikipedia_search', 'citation_formatter']));
+  });
+
+  test('should reject requests without a session', async () => {
+    const response = await post(JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/list' }));
+    expect(response.status).toBe(400);
+  });
+
+  test('should reject oversized bodies with 413', async () => {
+    const response = await post(JSON.stringify({ jsonrpc: '2.0', id: 4, method: 'tools/list', params: { padding: 'x'.repeat(2 * 1024 * 1024) } }));
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toBe('Request body too large');
+  });
+});
+
+describe('ResearchMCPServer over JSON-RPC', () => {
+  let server: { run(mode: 'jsonrpc'): Promise<void>; address(): { port: number } | null; close(): Promise<void> };
+  let sessionDir: string;
+  let port: number;
+
+  beforeAll(async () => {
+    sessionDir = await mkdtemp(path.join(os.tmpdir(), 'research-rpc-'));
+    process.env.PORT = '0';
+    process.env.RESEARCH_SESSION_DIR = sessionDir;
+    const { default: ResearchMCPServer } = await import('../../research-server');
+    server = new ResearchMCPServer();
+    await server.run('jsonrpc');
+    port = server.address()!.port;
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await rm(sessionDir, { recursive: true, force: true });
+  });
+
+  // Each client keeps its requests on one keep-alive connection
+  const client = () => {
+    const agent = new http.Agent({ keepAlive: true, maxSockets: 1 });
+    const call = (args: Record<string, unknown>) => new Promise<any>((resolve, reject) => {
+      const request = http.request({ port, path: '/rpc', method: 'POST', agent, headers: { 'Content-Type': 'application/json' } }, response => {
+        let text = '';
+        response.on('data', chunk => text += chunk);
+        response.on('end', () => resolve(JSON.parse(text).result));
+      });
+      request.on('error', reject);
+      request.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'research_session_manager', params: args }));
+    });
+    return { call, close: () => agent.destroy() };
+  };
+
+  test('should keep each connection\'s active session to itself', async () => {
+    const first = client();
+    const second = client();
+    try {
+      await first.call({ action: 'activate', sessionName: 'first' });
+      expect((await second.call({ action: 'deactivate' })).structuredContent.message).toBe('No research session was active.');
+      expect((await first.call({ action: 'deactivate' })).structuredContent.message).toBe('Research session "first" is no longer active.');
+    } finally {
+      first.close();
+      second.close();
+    }
+  });
+});
@@ -0,0 +1,241 @@
+import { IncomingHttpHeaders } from 'node:http';
+import { dateRestrictToFromDate, mergeScholarlyRecords, ScholarlyRecord, ScholarlySearch } from '../scholarlySearch';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+// Trimmed recordings of each service's search response
+const OPENALEX_WORKS = {
+  meta: { count: 2 },
+  results: [
+    {
+      id: 'https://openalex.org/W3177828909',
+      doi: 'https://doi.org/10.1038/s41586-021-03819-2',
+      display_name: 'Highly accurate protein structure prediction with <i>AlphaFold</i>',
+      publication_year: 2021,
+      authorships: [{ author: { display_name: 'John Jumper' } }, { author: { display_name: 'Richard Evans' } }],
+      primary_location: { landing_page_url: 'https://doi.org/10.1038/s41586-021-03819-2', source: { display_name: 'Nature' } },
+      best_oa_location: { pdf_url: 'https://www.nature.com/articles/s41586-021-03819-2.pdf' },
+      cited_by_count: 21000,
+      abstract_inverted_index: { Proteins: [0], are: [1], essential: [2], to: [3], 'life.': [4] },
+    },
+    {
+      id: 'https://openalex.org/W2963403868',
+      doi: 'https://doi.org/10.48550/arxiv.1706.03762',
+      display_name: 'Attention Is All You Need',
+      publication_year: 2017,
+      authorships: [{ author: { display_name: 'Ashish Vaswani' } }],
+      primary_location: { landing_page_url: 'https://arxiv.org/abs/1706.03762', source: null },
+      best_oa_location: null,
+      cited_by_count: 90000,
+      abstract_inverted_index: null,
+    },
+  ],
+};
+
+const SEMANTIC_SCHOLAR_SEARCH = {
+  total: 1,
+  data: [{
+    paperId: 'dc32a984b651256a8ec282be52310e6bd33d9815',
+    title: 'Highly accurate protein structure prediction with AlphaFold',
+    authors: [{ name: 'J. Jumper' }],
+    venue: 'Nature',
+    year: 2021,
+    externalIds: { DOI: '10.1038/s41586-021-03819-2', PubMed: '34265844' },
+    abstract: 'Proteins are essential to life, and understanding their structure can facilitate a mechanistic understanding of their function.',
+    citationCount: 25000,
+    openAccessPdf: { url: 'https://europepmc.org/articles/pmc8371605.pdf' },
+    url: 'https://www.semanticscholar.org/paper/dc32a984b651256a8ec282be52310e6bd33d9815',
+  }],
+};
+
+const ARXIV_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All You
+      Need</title>
+    <summary>  The dominant sequence transduction models are based on complex recurrent networks.</summary>
+    <author><name>Ashish Vaswani</name></author>
+    <author><name>Noam Shazeer</name></author>
+    <link href="http://arxiv.org/abs/1706.03762v7" rel="alternate" type="text/html"/>
+    <link title="pdf" href="http://arxiv.org/pdf/1706.03762v7" rel="related" type="application/pdf"/>
+  </entry>
+</feed>`;
+
+const CROSSREF_WORKS = {
+  status: 'ok',
+  message: {
+    items: [
+      {
+        DOI: '10.1038/S41586-021-03819-2',
+        title: ['Highly accurate protein structure prediction with AlphaFold'],
+        author: [{ given: 'John', family: 'Jumper' }, { name: 'AlphaFold Team' }],
+        'container-title': ['Nature'],
+        issued: { 'date-parts': [[2021, 7, 15]] },
+        'is-referenced-by-count': 19000,
+        URL: 'https://doi.org/10.1038/s41586-021-03819-2',
+      },
+      {
+        DOI: '10.1145/3065386',
+        title: ['ImageNet classification with deep convolutional neural networks'],
+        author: [{ given: 'Alex', family: 'Krizhevsky' }],
+        'container-title': ['Communications of the ACM'],
+        issued: { 'date-parts': [[2017, 5, 24]] },
+        'is-referenced-by-count': 50000,
+        abstract: '<jats:p>We trained a large, deep convolutional neural network.</jats:p>',
+        URL: 'https://doi.org/10.1145/3065386',
+      },
+    ],
+  },
+};
+
+describe('dateRestrictToFromDate', () => {
+  test('should turn date restrictions into the earliest allowed date', () => {
+    const now = new Date('2024-03-31T15:00:00Z');
+    expect(dateRestrictToFromDate('d7', now)).toBe('2024-03-24');
+    expect(dateRestrictToFromDate('w2', now)).toBe('2024-03-17');
+    expect(dateRestrictToFromDate('y2', now)).toBe('2022-03-31');
+    expect(dateRestrictToFromDate(undefined, now)).toBeUndefined();
+    expect(dateRestrictToFromDate('last week', now)).toBeUndefined();
+  });
+});
+
+describe('mergeScholarlyRecords', () => {
+  const record = (fields: Partial<ScholarlyRecord>): ScholarlyRecord => ({ title: 'T', authors: [], url: 'https://example.org/', sources: [], ...fields });
+
+  test('should interleave by rank and merge papers sharing a DOI or arXiv ID', () => {
+    const merged = mergeScholarlyRecords([
+      [record({ title: 'A', doi: '10.1/a', sources: ['openalex'] }), record({ title: 'B', doi: '10.48550/arXiv.1706.03762', arxivId: '1706.03762', sources: ['openalex'] })],
+      [record({ title: 'C', sources: ['arxiv'] }), record({ title: 'B2', doi: '10.5555/b', arxivId: '1706.03762', citationCount: 7, sources: ['arxiv'] })],
+      [record({ title: 'A2', doi: '10.1/A', authors: ['Ann Author'], year: 2020, sources: ['crossref'] })],
+    ]);
+    expect(merged.map(item => item.title)).toEqual(['A', 'C', 'B']);
+    expect(merged[0]).toMatchObject({ authors: ['Ann Author'], year: 2020, sources: ['openalex', 'crossref'] });
+    // The publisher DOI replaces the arXiv one
+    expect(merged[2]).toMatchObject({ doi: '10.5555/b', citationCount: 7, sources: ['openalex', 'arxiv'] });
+  });
+});
+
+describe('ScholarlySearch', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  const requests: { path: string; headers: IncomingHttpHeaders }[] = [];
+  let semanticScholarStatus = 200;
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const url = new URL(request.url!, 'http://localhost');
+      requests.push({ path: `${url.pathname}${url.search}`, headers: request.headers });
+      const json = (status: number, body: unknown) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+      };
+      if (url.pathname === '/openalex/works') {
+        json(200, OPENALEX_WORKS);
+      } else if (url.pathname === '/s2/graph/v1/paper/search') {
+        json(semanticScholarStatus, semanticScholarStatus === 200 ? SEMANTIC_SCHOLAR_SEARCH : { message: 'Too Many Requests' });
+      } else if (url.pathname === '/arxiv/api/query') {
+        response.writeHead(200, { 'Content-Type': 'application/atom+xml' });
+        response.end(ARXIV_FEED);
+      } else if (url.pathname === '/crossref/works') {
+        json(200, CROSSREF_WORKS);
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    baseUrl = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    semanticScholarStatus = 200;
+  });
+
+  const search = (arxivRequestInterval = 0) => new ScholarlySearch({
+    openAlexBaseUrl: `${baseUrl}/openalex`,
+    semanticScholarBaseUrl: `${baseUrl}/s2`,
+    arxivBaseUrl: `${baseUrl}/arxiv`,
+    crossrefBaseUrl: `${baseUrl}/crossref`,
+    semanticScholarApiKey: 's2-key',
+    contactEmail: 'research@example.org',
+    arxivRequestInterval,
+  });
+
+  test('should normalize and merge the records of every provider', async () => {
+    const result = await search().search({ query: 'protein structure', limit: 5 });
+    expect(result.providers).toEqual([
+      { name: 'openalex', count: 2 },
+      { name: 'semanticscholar', count: 1 },
+      { name: 'arxiv', count: 1 },
+      { name: 'crossref', count: 2 },
+    ]);
+    expect(result.records).toEqual([
+      {
+        title: 'Highly accurate protein structure prediction with AlphaFold',
+        authors: ['John Jumper', 'Richard Evans'],
+        venue: 'Nature',
+        year: 2021,
+        doi: '10.1038/s41586-021-03819-2',
+        arxivId: undefined,
+        abstract: 'Proteins are essential to life.',
+        citationCount: 25000,
+        pdfUrl: 'https://www.nature.com/articles/s41586-021-03819-2.pdf',
+        url: 'https://doi.org/10.1038/s41586-021-03819-2',
+        sources: ['openalex', 'semanticscholar', 'crossref'],
+      },
+      {
+        title: 'Attention Is All You Need',
+        authors: ['Ashish Vaswani', 'Noam Shazeer'],
+        venue: 'arXiv',
+        year: 2017,
+        doi: '10.48550/arXiv.1706.03762',
+        arxivId: '1706.03762',
+        abstract: 'The dominant sequence transduction models are based on complex recurrent networks.',
+        citationCount: 90000,
+        pdfUrl: 'https://arxiv.org/pdf/1706.03762v7',
+        url: 'https://arxiv.org/abs/1706.03762v7',
+        sources: ['arxiv', 'openalex'],
+      },
+      expect.objectContaining({
+        title: 'ImageNet classification with deep convolutional neural networks',
+        authors: ['Alex Krizhevsky'],
+        abstract: 'We trained a large, deep convolutional neural network.',
+        sources: ['crossref'],
+      }),
+    ]);
+
+    const semanticScholar = requests.find(request => request.path.startsWith('/s2/'))!;
+    expect(semanticScholar.headers['x-api-key']).toBe('s2-key');
+    expect(requests.map(request => request.path)).toContain('/arxiv/api/query?search_query=all:protein+AND+all:structure&start=0&max_results=5&sortBy=relevance');
+    expect(requests.find(request => request.path.startsWith('/openalex/'))!.path).toContain('mailto=research%40example.org');
+  });
+
+  test('should pass date and open-access filters and report failing providers', async () => {
+    semanticScholarStatus = 429;
+    const result = await search().search({ query: 'attention', limit: 5, fromDate: '2017-01-01', openAccess: true }, ['openalex', 'semanticscholar', 'crossref']);
+    expect(result.providers).toEqual([
+      { name: 'openalex', count: 2 },
+      { name: 'semanticscholar', count: 0, error: 'Semantic Scholar rate limit reached, try again later' },
+      { name: 'crossref', count: 2 },
+    ]);
+    // Only the paper with an open-access PDF is left
+    expect(result.records.map(record => record.title)).toEqual(['Highly accurate protein structure prediction with AlphaFold']);
+
+    const paths = requests.map(request => decodeURIComponent(request.path));
+    expect(paths).toContainEqual(expect.stringContaining('filter=from_publication_date:2017-01-01,is_oa:true'));
+    expect(paths).toContainEqual(expect.stringContaining('publicationDateOrYear=2017-01-01:&openAccessPdf='));
+    expect(paths).toContainEqual(expect.stringContaining('filter=from-pub-date:2017-01-01'));
+  });
+
+  test('should space out arXiv requests', async () => {
+    const started = Date.now();
+    await Promise.all([search(300).search({ query: 'attention', limit: 5 }, ['arxiv']), search(300).search({ query: 'transformer', limit: 5 }, ['arxiv'])]);
+    expect(requests.filter(request => request.path.startsWith('/arxiv/'))).toHaveLength(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(300);
+  });
+});
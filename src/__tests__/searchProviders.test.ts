@@ -0,0 +1,178 @@
+import axios from 'axios';
+import {
+  BraveSearchProvider,
+  buildOperatorQuery,
+  createSearchProvider,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  FallbackSearchProvider,
+  GoogleSearchProvider,
+  SearchProvider,
+  SearchQuery,
+  searchPaged,
+  SearxngSearchProvider,
+  validateSearchFilters,
+} from '../searchProviders';
+
+function fakeProvider(name: string, behaviour: 'ok' | 'fail' | 'unconfigured'): SearchProvider & { calls: SearchQuery[] } {
+  const calls: SearchQuery[] = [];
+  return {
+    name,
+    calls,
+    isConfigured: () => behaviour !== 'unconfigured',
+    search: async (query: SearchQuery) => {
+      calls.push(query);
+      if (behaviour === 'fail') throw new Error('quota exceeded');
+      return { provider: name, items: [{ title: 't', link: 'https://example.com', snippet: 's' }] };
+    },
+  };
+}
+
+describe('FallbackSearchProvider', () => {
+  test('should fall back to the next provider when the first one fails', async () => {
+    const primary = fakeProvider('google', 'fail');
+    const secondary = fakeProvider('searxng', 'ok');
+    const result = await new FallbackSearchProvider([primary, secondary]).search({ q: 'test' });
+    expect(result.provider).toBe('searxng');
+    expect(primary.calls).toHaveLength(1);
+  });
+
+  test('should skip providers that are not configured', async () => {
+    const unconfigured = fakeProvider('google', 'unconfigured');
+    const brave = fakeProvider('brave', 'ok');
+    await new FallbackSearchProvider([unconfigured, brave]).search({ q: 'test' });
+    expect(unconfigured.calls).toHaveLength(0);
+  });
+
+  test('should report every failure when all providers fail', async () => {
+    const chain = new FallbackSearchProvider([fakeProvider('google', 'fail'), fakeProvider('bing', 'fail')]);
+    await expect(chain.search({ q: 'test' })).rejects.toThrow('google: quota exceeded; bing: quota exceeded');
+  });
+});
+
+describe('createSearchProvider', () => {
+  test('should only count providers with credentials as configured', () => {
+    expect(createSearchProvider({ providers: ['google', 'brave'] }).isConfigured()).toBe(false);
+    expect(createSearchProvider({ providers: ['google', 'searxng'], searxng: { baseUrl: 'http://localhost:8080' } }).isConfigured()).toBe(true);
+  });
+
+  test('should reject unknown providers', () => {
+    expect(() => createSearchProvider({ providers: ['altavista'] })).toThrow('Unknown search provider');
+  });
+});
+
+describe('page-based providers', () => {
+  // 25 results served in pages of `size`, numbered from 1
+  const pageOf = (page: number, size: number) => Array.from({ length: Math.max(0, Math.min(size, 25 - page * size)) }, (_, i) => ({
+    title: `Result ${page * size + i + 1}`,
+    url: `https://example.com/${page * size + i + 1}`,
+  }));
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should fetch both SearXNG pages a non-aligned range spans', async () => {
+    const get = jest.spyOn(axios, 'get').mockImplementation(async (_url, config) => ({ data: { results: pageOf(config!.params.pageno - 1, 10) } }));
+    const result = await new SearxngSearchProvider({ baseUrl: 'http://searx.local' }).search({ q: 'test', start: 6, num: 10 });
+    expect(get.mock.calls.map(([, config]) => config!.params.pageno)).toEqual([1, 2]);
+    expect(result.items.map(item => item.title)).toEqual(Array.from({ length: 10 }, (_, i) => `Result ${i + 6}`));
+  });
+
+  test('should treat Brave offsets as page indexes', async () => {
+    const get = jest.spyOn(axios, 'get').mockImplementation(async (_url, config) => ({ data: { web: { results: pageOf(config!.params.offset, config!.params.count) } } }));
+    const provider = new BraveSearchProvider({ apiKey: 'key' });
+    const result = await provider.search({ q: 'test', start: 6, num: 10 });
+    expect(get.mock.calls.map(([, config]) => config!.params.offset)).toEqual([0, 1]);
+    expect(result.items[0].title).toBe('Result 6');
+    expect(result.items).toHaveLength(10);
+
+    get.mockClear();
+    expect((await provider.search({ q: 'test', start: 21, num: 10 })).items.map(item => item.title)).toEqual(['Result 21', 'Result 22', 'Result 23', 'Result 24', 'Result 25']);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('buildOperatorQuery', () => {
+  test('should fold structured filters into query operators', () => {
+    expect(buildOperatorQuery({ q: 'climate', exactTerms: 'sea level', excludeTerms: 'opinion blog', siteSearch: 'nasa.gov', fileType: 'pdf' }))
+      .toBe('climate "sea level" -opinion -blog site:nasa.gov filetype:pdf');
+  });
+
+  test('should group orTerms into an OR clause', () => {
+    expect(buildOperatorQuery({ q: 'vaccine', orTerms: 'mrna adenovirus' })).toBe('vaccine (mrna OR adenovirus)');
+  });
+});
+
+describe('validateSearchFilters', () => {
+  test('should accept well-formed filters', () => {
+    expect(() => validateSearchFilters({
+      dateRestrict: 'm6', sort: 'date:r:20200101:20201231', lr: 'lang_en', rights: 'cc_publicdomain|cc_attribute', safe: 'active', gl: 'us',
+    })).not.toThrow();
+    expect(() => validateSearchFilters({ sort: 'date:d:s' })).not.toThrow();
+  });
+
+  test('should reject malformed dateRestrict and sort values', () => {
+    expect(() => validateSearchFilters({ dateRestrict: '7d' })).toThrow('Invalid dateRestrict');
+    expect(() => validateSearchFilters({ sort: 'relevance' })).toThrow('Invalid sort');
+    expect(() => validateSearchFilters({ sort: 'date:r:20201231:20200101' })).toThrow('Invalid sort date range');
+    expect(() => validateSearchFilters({ sort: 'date:r:20200230:20201231' })).toThrow('Invalid sort date range');
+  });
+});
+
+describe('searchPaged', () => {
+  // 25 results where result 12 repeats result 3 with a tracking parameter
+  const pagedSearch = async (query: SearchQuery) => {
+    const start = query.start ?? 1;
+    const items = [];
+    for (let i = start; i < start + (query.num ?? 10) && i <= 25; i++) {
+      const link = i === 12 ? 'https://example.com/3?utm_source=feed' : `https://example.com/${i}`;
+      items.push({ title: `Result ${i}`, link, snippet: '' });
+    }
+    return { provider: 'google', items, totalResults: 25 };
+  };
+
+  test('should fetch pages of 10 and drop duplicate URLs', async () => {
+    const calls: SearchQuery[] = [];
+    const result = await searchPaged(async (query) => { calls.push(query); return pagedSearch(query); }, { q: 'test' }, 15);
+    expect(calls.map(call => [call.start, call.num])).toEqual([[1, 10], [11, 10]]);
+    expect(result.items).toHaveLength(15);
+    expect(result.items.map(item => item.title)).not.toContain('Result 12');
+    expect(result.nextStart).toBe(17);
+  });
+
+  test('should return no next start once results are exhausted', async () => {
+    const result = await searchPaged(pagedSearch, { q: 'test', start: 17 }, 100);
+    expect(result.items).toHaveLength(9);
+    expect(result.nextStart).toBeNull();
+  });
+
+  test('should keep dropping duplicates across continuations', async () => {
+    const first = await searchPaged(pagedSearch, { q: 'test' }, 10);
+    const next = await searchPaged(pagedSearch, { q: 'test', start: first.nextStart! }, 10, first.seen);
+    expect(next.items.map(item => item.title)).not.toContain('Result 12');
+    expect(next.items[0].title).toBe('Result 11');
+    expect(next.seen).toHaveLength(20);
+  });
+
+  test('should round-trip cursors and reject malformed ones', () => {
+    expect(decodeSearchCursor(encodeSearchCursor({ q: 'test', start: 21 }))).toEqual({ q: 'test', start: 21 });
+    expect(decodeSearchCursor(encodeSearchCursor({ q: 'test', start: 21, seen: ['abc'] })).seen).toEqual(['abc']);
+    expect(() => decodeSearchCursor('not-a-cursor')).toThrow('Invalid cursor');
+    expect(() => decodeSearchCursor(encodeSearchCursor({ q: 'test', start: 21, seen: 'abc' as any }))).toThrow('Invalid cursor');
+  });
+
+  test('should keep only valid search filters from a cursor', () => {
+    const forged = { q: 'test', start: 11, filters: { siteSearch: 'nasa.gov', key: 'stolen', cx: 'other', num: 100 } as any };
+    expect(decodeSearchCursor(encodeSearchCursor(forged)).filters).toEqual({ siteSearch: 'nasa.gov' });
+    expect(() => decodeSearchCursor(encodeSearchCursor({ q: 'test', start: 11, filters: { dateRestrict: 'forever' } }))).toThrow('Invalid cursor');
+    expect(() => decodeSearchCursor(encodeSearchCursor({ q: 'test', start: 11, filters: 'x' as any }))).toThrow('Invalid cursor');
+  });
+
+  test('should not let query fields replace the Google credentials', async () => {
+    const get = jest.spyOn(axios, 'get').mockResolvedValue({ data: { items: [] } });
+    await new GoogleSearchProvider({ apiKey: 'server-key', cseId: 'server-cx' }).search({ q: 'test', key: 'stolen', cx: 'other' } as any);
+    expect(get.mock.calls[0][1]!.params).toMatchObject({ q: 'test', key: 'server-key', cx: 'server-cx' });
+    get.mockRestore();
+  });
+});
@@ -0,0 +1,130 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileSessionStore } from '../sessionStore';
+
+describe('FileSessionStore', () => {
+  let directory: string;
+  let store: FileSessionStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+    store = new FileSessionStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should persist sessions across store instances', async () => {
+    await store.save('climate', 'first notes');
+    const reopened = new FileSessionStore(directory);
+    const session = await reopened.load('climate');
+    expect(session.content).toBe('first notes');
+    expect(session.version).toBe(1);
+  });
+
+  test('should append a version on every save', async () => {
+    await store.save('climate', 'v1');
+    await store.save('climate', 'v2');
+    const history = await store.history('climate');
+    expect(history.map(v => v.version)).toEqual([1, 2]);
+    expect((await store.load('climate', 1)).content).toBe('v1');
+  });
+
+  test('should keep every version when saves race', async () => {
+    await Promise.all(['a', 'b', 'c', 'd'].map(content => store.save('race', content)));
+    expect((await store.history('race')).map(v => v.version)).toEqual([1, 2, 3, 4]);
+  });
+
+  test('should restore an earlier version as a new version', async () => {
+    await store.save('climate', 'v1');
+    await store.save('climate', 'v2');
+    const restored = await store.restore('climate', 1);
+    expect(restored).toMatchObject({ version: 3, content: 'v1', restoredFrom: 1 });
+  });
+
+  test('should list and delete sessions', async () => {
+    await store.save('b/with slash', 'x');
+    await store.save('a', 'y');
+    expect((await store.list()).map(s => s.name)).toEqual(['a', 'b/with slash']);
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.delete('a')).toBe(false);
+    await expect(store.load('a')).rejects.toThrow('not found');
+  });
+
+  test('should add, tag, query and remove typed items', async () => {
+    await store.save('climate', 'notes');
+    const { item } = await store.addItem('climate', {
+      type: 'search_result',
+      title: 'IPCC report',
+      url: 'https://www.ipcc.ch/',
+      source: { tool: 'google_search', arguments: { q: 'ipcc' }, calledAt: new Date().toISOString() },
+    });
+    await store.addItem('climate', { type: 'note', data: { text: 'check methodology' } });
+    await store.tag('climate', ['Primary'], item.id);
+
+    expect(await store.query('climate', { tags: ['primary'] })).toHaveLength(1);
+    expect(await store.query('climate', { type: 'note' })).toHaveLength(1);
+    expect(await store.query('climate', { text: 'methodology' })).toHaveLength(1);
+
+    await store.removeItem('climate', item.id);
+    const latest = await store.load('climate');
+    expect(latest.items.map(i => i.type)).toEqual(['note']);
+    expect(latest.content).toBe('notes');
+    expect((await store.load('climate', 4)).items[0].source?.tool).toBe('google_search');
+  });
+
+  test('should append one delta line per version instead of rewriting snapshots', async () => {
+    await store.save('climate', 'notes');
+    const { item } = await store.addItem('climate', { type: 'note', data: { text: 'first' } });
+    await store.addItem('climate', { type: 'note', data: { text: 'second' } });
+    await store.removeItem('climate', item.id);
+    await store.restore('climate', 3);
+
+    const lines = (await fs.readFile(path.join(directory, 'climate.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(6);
+    expect(JSON.parse(lines[3])).toEqual(expect.objectContaining({ version: 3, change: 'add_item', putItems: [expect.objectContaining({ data: { text: 'second' } })] }));
+    expect(JSON.parse(lines[3]).content).toBeUndefined();
+
+    const reopened = new FileSessionStore(directory);
+    expect((await reopened.load('climate')).items.map(i => i.data.text)).toEqual(['first', 'second']);
+    expect((await reopened.load('climate', 4)).items.map(i => i.data.text)).toEqual(['second']);
+    expect((await reopened.load('climate', 4)).content).toBe('notes');
+  });
+
+  test('should append after a partial line left by a crash', async () => {
+    await store.save('climate', 'v1');
+    await store.save('climate', 'v2');
+    const file = path.join(directory, 'climate.jsonl');
+    await fs.appendFile(file, '{"version":3,"timestamp":"2024-', 'utf8');
+    expect((await store.history('climate')).map(v => v.content)).toEqual(['v1', 'v2']);
+
+    expect((await store.save('climate', 'v3')).version).toBe(3);
+    await store.save('climate', 'v4');
+    for (const reader of [store, new FileSessionStore(directory)]) {
+      expect((await reader.history('climate')).map(v => [v.version, v.content])).toEqual([[1, 'v1'], [2, 'v2'], [3, 'v3'], [4, 'v4']]);
+    }
+
+    // A complete last line that only lost its newline is kept
+    await fs.writeFile(file, (await fs.readFile(file, 'utf8')).trimEnd(), 'utf8');
+    await store.save('climate', 'v5');
+    expect((await new FileSessionStore(directory).history('climate')).map(v => v.content)).toEqual(['v1', 'v2', 'v3', 'v4', 'v5']);
+  });
+
+  test('should add a batch of items as one version', async () => {
+    const { version, items } = await store.addItems('climate', [
+      { type: 'search_result', title: 'A', url: 'https://a.example/' },
+      { type: 'search_result', title: 'B', url: 'https://b.example/' },
+    ]);
+    expect(version).toMatchObject({ version: 1, change: 'add_item' });
+    expect(items.map(item => item.title)).toEqual(['A', 'B']);
+    expect(await store.history('climate')).toHaveLength(1);
+    await expect(store.addItems('climate', [{ type: 'note' }, { type: 'video' as any }])).rejects.toThrow('Unknown session item type');
+    expect(await store.history('climate')).toHaveLength(1);
+  });
+
+  test('should reject unknown item types', async () => {
+    await expect(store.addItem('climate', { type: 'video' as any })).rejects.toThrow('Unknown session item type');
+  });
+});
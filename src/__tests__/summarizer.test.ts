@@ -0,0 +1,54 @@
+import { splitSentences, summarizeDocuments, textRank, tokenize } from '../summarizer';
+
+const solarA = [
+  'Home About Contact Menu Login',
+  'Solar panels convert sunlight into electricity using photovoltaic cells made of silicon.',
+  'The efficiency of modern solar panels has improved to over twenty percent in commercial products.',
+  'Installation costs for residential solar systems fell sharply during the last decade.',
+  'Our office dog enjoys long walks on the beach every single afternoon.',
+].join(' ');
+
+const solarB = [
+  'Photovoltaic cells made of silicon let solar panels convert sunlight into electricity.',
+  'Falling installation costs have made residential solar systems affordable for many households.',
+  'Grid operators must balance solar output that peaks around midday.',
+].join(' ');
+
+describe('text helpers', () => {
+  test('should split sentences and keep closing quotes', () => {
+    expect(splitSentences('He said "it works." Then it failed! Why?')).toEqual(['He said "it works."', 'Then it failed!', 'Why?']);
+  });
+
+  test('should drop stop words and fold plurals', () => {
+    expect(tokenize('The panels and the panel')).toEqual(['panel', 'panel']);
+  });
+
+  test('should rank the most connected sentence highest', () => {
+    const vectors = [new Map([['a', 1], ['b', 1]]), new Map([['a', 1]]), new Map([['b', 1]]), new Map([['z', 1]])];
+    const ranks = textRank(vectors);
+    expect(ranks.indexOf(Math.max(...ranks))).toBe(0);
+    expect(ranks[3]).toBeLessThan(ranks[1]);
+  });
+});
+
+describe('summarizeDocuments', () => {
+  const result = summarizeDocuments([
+    { url: 'https://a.example', title: 'A', text: solarA },
+    { url: 'https://b.example', title: 'B', text: solarB },
+  ], { maxLength: 200, combinedSentences: 3 });
+
+  test('should summarize each document within its budget and skip navigation text', () => {
+    const [a] = result.documents;
+    expect(a.summary.length).toBeLessThanOrEqual(200);
+    expect(a.summary).not.toContain('Menu Login');
+    expect(a.sentences.every(sentence => sentence.url === 'https://a.example')).toBe(true);
+  });
+
+  test('should build a combined summary without near-duplicate sentences', () => {
+    const texts = result.combined.sentences.map(sentence => sentence.text);
+    expect(texts).toHaveLength(3);
+    expect(texts.filter(text => /photovoltaic/i.test(text))).toHaveLength(1);
+    expect(texts).not.toContain('Our office dog enjoys long walks on the beach every single afternoon.');
+    expect(new Set(result.combined.sentences.map(sentence => sentence.url)).size).toBe(2);
+  });
+});
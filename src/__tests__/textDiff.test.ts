@@ -0,0 +1,65 @@
+import { diffParagraphs, diffSequences, formatLineDiff } from '../textDiff';
+
+describe('diffParagraphs', () => {
+  const before = [
+    'The bridge opened in 1932 after four years of work.',
+    'It was designed by John Bradfield.',
+    'Tolls were abolished in 1950.',
+  ].join('\n\n');
+
+  test('should report added, removed and changed paragraphs', () => {
+    const after = [
+      'The bridge opened in 1932 after  four years of work.',
+      'It was designed by engineer John Bradfield and built by Dorman Long.',
+      'A pedestrian path was added in 2000.',
+    ].join('\n\n');
+    const diff = diffParagraphs(before, after);
+
+    expect(diff.unchanged).toBe(1);
+    expect(diff.changes.map(change => change.type)).toEqual(['changed', 'removed', 'added']);
+    expect(diff.changes[0]).toMatchObject({
+      beforeIndex: 1,
+      afterIndex: 1,
+      inline: 'It was designed by {+engineer+} John [-Bradfield.-] {+Bradfield and built by Dorman Long.+}',
+    });
+    expect(diff.changes[1]).toMatchObject({ type: 'removed', before: 'Tolls were abolished in 1950.', beforeIndex: 2 });
+    expect(diff.similarity).toBeGreaterThan(0.5);
+    expect(diff.similarity).toBeLessThan(1);
+  });
+
+  test('should score identical and unrelated texts', () => {
+    expect(diffParagraphs(before, before)).toMatchObject({ changes: [], unchanged: 3, similarity: 1 });
+    expect(diffParagraphs(before, 'Something else entirely.')).toMatchObject({ removed: 3, added: 1, changed: 0, similarity: 0 });
+  });
+});
+
+describe('diffSequences', () => {
+  test('should diff long sequences that differ only in the middle', () => {
+    const lines = Array.from({ length: 50000 }, (_, index) => `line ${index}`);
+    const edited = [...lines.slice(0, 25000), 'inserted', ...lines.slice(25001)];
+    const operations = diffSequences(lines, edited);
+    expect(operations).toHaveLength(50001);
+    expect(operations.filter(op => op.type !== 'equal')).toEqual([
+      { type: 'removed', value: 'line 25000' },
+      { type: 'added', value: 'inserted' },
+    ]);
+  });
+
+  test('should replace a middle too large to compare as a whole', () => {
+    const before = Array.from({ length: 3000 }, (_, index) => `old ${index}`);
+    const after = Array.from({ length: 3000 }, (_, index) => `new ${index}`);
+    const operations = diffSequences(['same', ...before, 'end'], ['same', ...after, 'end']);
+    expect(operations.map(op => op.type)).toEqual([
+      'equal',
+      ...before.map(() => 'removed'),
+      ...after.map(() => 'added'),
+      'equal',
+    ]);
+  });
+});
+
+describe('formatLineDiff', () => {
+  test('should mark added and removed lines', () => {
+    expect(formatLineDiff('a\nb', 'a\nc')).toBe('  a\n- b\n+ c');
+  });
+});
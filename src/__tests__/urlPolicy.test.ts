@@ -0,0 +1,85 @@
+import { decodeText, PageFetcher } from '../fetcher';
+import { UrlPolicy, UrlPolicyError } from '../urlPolicy';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+describe('UrlPolicy', () => {
+  test('should classify private, loopback and link-local addresses', () => {
+    const policy = new UrlPolicy();
+    for (const address of ['127.0.0.1', '10.2.3.4', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']) {
+      expect(policy.isBlockedAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(policy.isBlockedAddress(address)).toBe(false);
+    }
+  });
+
+  test('should enforce schemes and domain lists, with the deny list winning', () => {
+    const policy = new UrlPolicy({ allowDomains: ['example.org', '.wikipedia.org'], denyDomains: ['private.example.org'] });
+    expect(policy.checkUrl('https://en.wikipedia.org/wiki/Test').hostname).toBe('en.wikipedia.org');
+    expect(() => policy.checkUrl('file:///etc/passwd')).toThrow(expect.objectContaining({ code: 'SCHEME_NOT_ALLOWED' }));
+    expect(() => policy.checkUrl('http://api.private.example.org/')).toThrow(expect.objectContaining({ code: 'DOMAIN_DENIED' }));
+    expect(() => policy.checkUrl('http://notexample.org/')).toThrow(expect.objectContaining({ code: 'DOMAIN_NOT_ALLOWED' }));
+    expect(() => policy.checkUrl('not a url')).toThrow(expect.objectContaining({ code: 'INVALID_URL' }));
+    expect(() => new UrlPolicy().checkUrl('http://[::1]:8080/')).toThrow(expect.objectContaining({ code: 'PRIVATE_ADDRESS' }));
+  });
+
+  test('should refuse host names that resolve to private addresses', async () => {
+    const policy = new UrlPolicy({
+      allowedNetworks: ['10.1.0.0/16'],
+      resolve: async hostname => hostname === 'internal.example.com'
+        ? [{ address: '93.184.216.34', family: 4 }, { address: '169.254.169.254', family: 4 }]
+        : [{ address: '10.1.2.3', family: 4 }],
+    });
+    const error = await policy.assertAllowed('http://internal.example.com/').catch(caught => caught);
+    expect(error).toBeInstanceOf(UrlPolicyError);
+    expect(error.code).toBe('PRIVATE_ADDRESS');
+    expect(error.message).toContain('169.254.169.254');
+    await expect(policy.assertAllowed('http://intranet.example.com/')).resolves.toBeInstanceOf(URL);
+  });
+});
+
+describe('PageFetcher with a URL policy', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  let port: number;
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      const redirects: Record<string, string> = {
+        '/to-loopback': `http://127.0.0.2:${port}/secret`,
+        '/to-denied': `http://denied.test:${port}/secret`,
+      };
+      if (request.url && redirects[request.url]) {
+        response.writeHead(302, { Location: redirects[request.url] });
+        response.end();
+        return;
+      }
+      response.setHeader('Content-Type', 'text/html');
+      response.end('<p>ok</p>');
+    });
+    ({ port, baseUrl } = server);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('should refuse private addresses by default', async () => {
+    const fetcher = new PageFetcher({ hostDelayMs: 0, respectRobots: false });
+    await expect(fetcher.fetch(`${baseUrl}/page`)).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS' });
+  });
+
+  test('should connect to the address the policy resolved', async () => {
+    const policy = new UrlPolicy({ allowedNetworks: ['127.0.0.1/32'], resolve: async () => [{ address: '127.0.0.1', family: 4 }] });
+    const fetcher = new PageFetcher({ hostDelayMs: 0, respectRobots: false, policy });
+    expect(decodeText(await fetcher.fetch(`http://site.test:${port}/page`))).toBe('<p>ok</p>');
+  });
+
+  test('should check every redirect target again', async () => {
+    const policy = new UrlPolicy({ allowedNetworks: ['127.0.0.1/32'], denyDomains: ['denied.test'] });
+    const fetcher = new PageFetcher({ hostDelayMs: 0, respectRobots: false, policy });
+    expect((await fetcher.fetch(`${baseUrl}/page`)).status).toBe(200);
+    await expect(fetcher.fetch(`${baseUrl}/to-loopback`)).rejects.toMatchObject({ code: 'PRIVATE_ADDRESS' });
+    await expect(fetcher.fetch(`${baseUrl}/to-denied`)).rejects.toMatchObject({ code: 'DOMAIN_DENIED' });
+  });
+});
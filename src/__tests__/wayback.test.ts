@@ -0,0 +1,79 @@
+import { parseCdxRows, parseSnapshotUrl, timestampToIso, toWaybackTimestamp, WaybackClient } from '../wayback';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+describe('Wayback timestamps', () => {
+  test('should normalize dates and partial timestamps', () => {
+    expect(toWaybackTimestamp(2019)).toBe('2019');
+    expect(toWaybackTimestamp('2019-06-30')).toBe('20190630');
+    expect(toWaybackTimestamp('2019-06-30T14:00:00+02:00')).toBe('20190630120000');
+    expect(() => toWaybackTimestamp('last summer')).toThrow('Invalid Wayback timestamp');
+    expect(timestampToIso('20190630120000')).toBe('2019-06-30T12:00:00Z');
+    expect(timestampToIso('2019')).toBe('2019-01-01T00:00:00Z');
+  });
+
+  test('should split snapshot URLs', () => {
+    expect(parseSnapshotUrl('https://web.archive.org/web/20200101000000id_/https://example.com/a?b=1')).toEqual({
+      timestamp: '20200101000000',
+      originalUrl: 'https://example.com/a?b=1',
+    });
+    expect(parseSnapshotUrl('https://example.com/web/page')).toBeUndefined();
+  });
+});
+
+describe('parseCdxRows', () => {
+  test('should map rows by the header and tolerate missing values', () => {
+    const snapshots = parseCdxRows([
+      ['timestamp', 'original', 'mimetype', 'statuscode', 'digest', 'length'],
+      ['20200101000000', 'http://example.com/', 'text/html', '200', 'AAA', '1234'],
+      ['20210101000000', 'http://example.com/', 'warc/revisit', '-', 'BBB', '-'],
+    ]);
+    expect(snapshots).toHaveLength(2);
+    expect(snapshots[0]).toMatchObject({
+      capturedAt: '2020-01-01T00:00:00Z',
+      archiveUrl: 'https://web.archive.org/web/20200101000000/http://example.com/',
+      rawUrl: 'https://web.archive.org/web/20200101000000id_/http://example.com/',
+      statusCode: 200,
+      length: 1234,
+    });
+    expect(snapshots[1].statusCode).toBeUndefined();
+    expect(parseCdxRows([])).toEqual([]);
+  });
+});
+
+describe('WaybackClient', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  let lastQuery: URLSearchParams;
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      lastQuery = new URL(request.url!, 'http://localhost').searchParams;
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify([
+        ['timestamp', 'original', 'mimetype', 'statuscode', 'digest', 'length'],
+        ['20190315101010', 'http://example.com/', 'text/html', '200', 'AAA', '900'],
+      ]));
+    });
+    baseUrl = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('should query the CDX API for a collapsed date range', async () => {
+    const client = new WaybackClient({ baseUrl });
+    const snapshots = await client.listSnapshots('example.com', { from: '2019-01-01', to: '2019', limit: 50 });
+    expect(lastQuery.get('url')).toBe('example.com');
+    expect(lastQuery.get('from')).toBe('20190101');
+    expect(lastQuery.get('to')).toBe('2019');
+    expect(lastQuery.get('collapse')).toBe('digest');
+    expect(lastQuery.get('filter')).toBe('!statuscode:[45]..');
+    expect(lastQuery.get('limit')).toBe('50');
+    expect(snapshots[0].archiveUrl).toBe(`${baseUrl}/web/20190315101010/http://example.com/`);
+
+    await client.listSnapshots('example.com', { collapseDigest: false, includeErrors: true });
+    expect(lastQuery.has('collapse')).toBe(false);
+    expect(lastQuery.has('filter')).toBe(false);
+  });
+});
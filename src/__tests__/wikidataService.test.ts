@@ -0,0 +1,225 @@
+import { bindSparqlParams, formatWikidataTime, LANGUAGE_CODE_PATTERN, limitSparqlQuery, parseEntityId, WikidataService } from '../wikidataService';
+import { startTestServer, TestServer } from './helpers/testServer';
+
+// Trimmed wbgetentities response for Q7251 (Alan Turing)
+const TURING = {
+  entities: {
+    Q7251: {
+      id: 'Q7251',
+      labels: { en: { language: 'en', value: 'Alan Turing' } },
+      descriptions: { en: { language: 'en', value: 'English computer scientist (1912–1954)' } },
+      aliases: { en: [{ language: 'en', value: 'Alan Mathison Turing' }] },
+      sitelinks: { enwiki: { site: 'enwiki', title: 'Alan Turing', url: 'https://en.wikipedia.org/wiki/Alan_Turing' } },
+      claims: {
+        P31: [{ mainsnak: { snaktype: 'value', property: 'P31', datatype: 'wikibase-item', datavalue: { type: 'wikibase-entityid', value: { 'entity-type': 'item', id: 'Q5' } } }, rank: 'normal' }],
+        P569: [
+          { mainsnak: { snaktype: 'value', property: 'P569', datatype: 'time', datavalue: { type: 'time', value: { time: '+1912-06-23T00:00:00Z', precision: 11, calendarmodel: 'http://www.wikidata.org/entity/Q1985727' } } }, rank: 'normal' },
+          { mainsnak: { snaktype: 'value', property: 'P569', datatype: 'time', datavalue: { type: 'time', value: { time: '+1912-06-24T00:00:00Z', precision: 11, calendarmodel: 'http://www.wikidata.org/entity/Q1985727' } } }, rank: 'deprecated' },
+        ],
+        P2048: [{ mainsnak: { snaktype: 'value', property: 'P2048', datatype: 'quantity', datavalue: { type: 'quantity', value: { amount: '+1.75', unit: 'http://www.wikidata.org/entity/Q11573' } } }, rank: 'normal' }],
+        P625: [{ mainsnak: { snaktype: 'value', property: 'P625', datatype: 'globe-coordinate', datavalue: { type: 'globecoordinate', value: { latitude: 51.5, longitude: -0.12, precision: 0.01 } } }, rank: 'normal' }],
+        P496: [{ mainsnak: { snaktype: 'value', property: 'P496', datatype: 'external-id', datavalue: { type: 'string', value: '0000-0002-1825-0097' } }, rank: 'normal' }],
+        P108: [
+          {
+            mainsnak: { snaktype: 'value', property: 'P108', datatype: 'wikibase-item', datavalue: { type: 'wikibase-entityid', value: { 'entity-type': 'item', id: 'Q35794' } } },
+            qualifiers: { P580: [{ snaktype: 'value', property: 'P580', datatype: 'time', datavalue: { type: 'time', value: { time: '+1948-00-00T00:00:00Z', precision: 9, calendarmodel: 'http://www.wikidata.org/entity/Q1985727' } } }] },
+            rank: 'preferred',
+          },
+          { mainsnak: { snaktype: 'value', property: 'P108', datatype: 'wikibase-item', datavalue: { type: 'wikibase-entityid', value: { 'entity-type': 'item', id: 'Q220798' } } }, rank: 'normal' },
+        ],
+        P570: [{ mainsnak: { snaktype: 'somevalue', property: 'P570', datatype: 'time' }, rank: 'normal' }],
+      },
+    },
+  },
+};
+
+const LABELS: Record<string, string> = {
+  P31: 'instance of', P569: 'date of birth', P2048: 'height', P625: 'coordinate location', P496: 'ORCID iD',
+  P108: 'employer', P580: 'start time', P570: 'date of death', Q5: 'human', Q11573: 'metre',
+  Q35794: 'University of Cambridge', Q220798: 'Government Communications Headquarters',
+};
+
+describe('Wikidata helpers', () => {
+  test('should read entity IDs and trim dates to their precision', () => {
+    expect(parseEntityId('q42')).toBe('Q42');
+    expect(parseEntityId('https://www.wikidata.org/wiki/Property:P356')).toBe('P356');
+    expect(parseEntityId('http://www.wikidata.org/entity/Q7251')).toBe('Q7251');
+    expect(parseEntityId('Alan Turing')).toBeUndefined();
+
+    expect(formatWikidataTime('+1912-06-23T00:00:00Z', 11)).toBe('1912-06-23');
+    expect(formatWikidataTime('+1912-06-00T00:00:00Z', 10)).toBe('1912-06');
+    expect(formatWikidataTime('+1870-00-00T00:00:00Z', 8)).toBe('1870s');
+    expect(formatWikidataTime('+1801-00-00T00:00:00Z', 7)).toBe('19th century');
+    expect(formatWikidataTime('-0500-00-00T00:00:00Z', 9)).toBe('500 BCE');
+  });
+
+  test('should bind placeholders as terms or escaped literals', () => {
+    const sparql = 'SELECT ?item WHERE { ?item $prop $class ; rdfs:label $name ; schema:url $site . FILTER(?n > $min && $flag) } # $unbound';
+    expect(bindSparqlParams(sparql, {
+      prop: 'P31',
+      class: 'Q5',
+      name: 'Ada "Countess" Lovelace\n} DELETE',
+      site: 'https://example.org/a',
+      min: 3,
+      flag: true,
+    })).toBe('SELECT ?item WHERE { ?item wdt:P31 wd:Q5 ; rdfs:label "Ada \\"Countess\\" Lovelace\\n} DELETE" ; schema:url <https://example.org/a> . FILTER(?n > 3 && true) } # $unbound');
+    expect(bindSparqlParams('SELECT ?x WHERE { ?x wdt:P31 $type }', { type: 'wd:Q5' })).toContain('wdt:P31 wd:Q5');
+    expect(() => bindSparqlParams('SELECT ?x WHERE { ?x ?p ?o }', { typo: 'Q5' })).toThrow('The query has no placeholder for $typo');
+  });
+
+  test('should cap the top-level LIMIT and leave subqueries alone', () => {
+    const subquery = 'SELECT ?item ?count WHERE { { SELECT ?item (COUNT(*) AS ?count) WHERE { ?item wdt:P50 ?author } GROUP BY ?item LIMIT 5000 } }';
+    expect(limitSparqlQuery(subquery, 101)).toBe(`${subquery}\nLIMIT 101`);
+    expect(limitSparqlQuery('SELECT ?x WHERE { ?x ?p ?o } ORDER BY ?x LIMIT 100000 OFFSET 10', 101)).toBe('SELECT ?x WHERE { ?x ?p ?o } ORDER BY ?x LIMIT 101 OFFSET 10');
+    expect(limitSparqlQuery('SELECT ?x WHERE { ?x ?p ?o } LIMIT 5', 101)).toBe('SELECT ?x WHERE { ?x ?p ?o } LIMIT 5');
+    // Braces and keywords in strings, IRIs and comments don't count
+    const quoted = 'PREFIX ex: <http://example.org/#> SELECT ?x WHERE { ?x rdfs:label "} LIMIT 1" } # LIMIT 2\nVALUES ?x { ex:a }';
+    expect(limitSparqlQuery(quoted, 101)).toBe('PREFIX ex: <http://example.org/#> SELECT ?x WHERE { ?x rdfs:label "} LIMIT 1" } # LIMIT 2\nLIMIT 101\nVALUES ?x { ex:a }');
+  });
+
+  test('should accept Wikipedia language codes only', () => {
+    for (const code of ['en', 'als', 'zh-yue', 'be-tarask', 'zh-min-nan']) expect(LANGUAGE_CODE_PATTERN.test(code)).toBe(true);
+    for (const code of ['e', 'en-', 'a--b', '-en', 'EN', 'en.example']) expect(LANGUAGE_CODE_PATTERN.test(code)).toBe(false);
+  });
+});
+
+describe('WikidataService', () => {
+  let server: TestServer;
+  let baseUrl: string;
+  let sparqlStatus: number[] = [];
+  const requests: { method: string; path: string; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = await startTestServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        const url = new URL(request.url!, 'http://localhost');
+        requests.push({ method: request.method!, path: decodeURIComponent(`${url.pathname}${url.search}`), body });
+        const json = (status: number, data: unknown) => {
+          response.writeHead(status, { 'Content-Type': 'application/json' });
+          response.end(JSON.stringify(data));
+        };
+
+        if (url.pathname === '/w/api.php' && url.searchParams.get('props')?.includes('claims')) {
+          const id = url.searchParams.get('ids')!;
+          json(200, id === 'Q7251' ? TURING : { entities: { [id]: { id, missing: '' } } });
+        } else if (url.pathname === '/w/api.php') {
+          const ids = url.searchParams.get('ids')!.split('|');
+          json(200, { entities: Object.fromEntries(ids.map(id => [id, { id, labels: LABELS[id] ? { en: { language: 'en', value: LABELS[id] } } : {} }])) });
+        } else if (url.pathname === '/sparql') {
+          const query = url.searchParams.get('query') ?? new URLSearchParams(body).get('query')!;
+          const status = sparqlStatus.shift() ?? 200;
+          if (status === 400) {
+            response.writeHead(400, { 'Content-Type': 'text/plain' });
+            response.end('SPARQL-QUERY: queryStr=SELECT\njava.util.concurrent.ExecutionException: org.openrdf.query.MalformedQueryException: Encountered " "}" "} "" at line 1, column 30.\n\tat java.util.concurrent.FutureTask.report');
+          } else if (status !== 200) {
+            response.writeHead(status);
+            response.end('Service Unavailable');
+          } else if (/^\s*ASK/i.test(query)) {
+            json(200, { head: {}, boolean: true });
+          } else {
+            json(200, {
+              head: { vars: ['item', 'itemLabel', 'born', 'count'] },
+              results: {
+                bindings: [
+                  { item: { type: 'uri', value: 'http://www.wikidata.org/entity/Q7251' }, itemLabel: { type: 'literal', value: 'Alan Turing', 'xml:lang': 'en' }, born: { type: 'literal', datatype: 'http://www.w3.org/2001/XMLSchema#dateTime', value: '1912-06-23T00:00:00Z' }, count: { type: 'literal', datatype: 'http://www.w3.org/2001/XMLSchema#integer', value: '3' } },
+                  { item: { type: 'uri', value: 'http://www.wikidata.org/entity/Q7259' }, itemLabel: { type: 'literal', value: 'Ada Lovelace' } },
+                  { item: { type: 'uri', value: 'http://www.wikidata.org/entity/Q937' }, itemLabel: { type: 'literal', value: 'Albert Einstein' } },
+                ],
+              },
+            });
+          }
+        } else {
+          json(404, { error: 'Not found' });
+        }
+      });
+    });
+    baseUrl = server.baseUrl;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    sparqlStatus = [];
+  });
+
+  const service = () => new WikidataService({
+    apiEndpoint: baseUrl,
+    sparqlEndpoint: `${baseUrl}/sparql`,
+    resolveTitle: async (title) => title === 'Alan Turing' ? { title, id: 'Q7251' } : null,
+  });
+
+  test('should resolve a Wikipedia title and return labelled, typed claims', async () => {
+    const entity = await service().getEntity({ title: 'Alan Turing' }, { qualifiers: true });
+    expect(entity).toMatchObject({
+      id: 'Q7251',
+      url: 'https://www.wikidata.org/wiki/Q7251',
+      label: 'Alan Turing',
+      description: 'English computer scientist (1912–1954)',
+      aliases: ['Alan Mathison Turing'],
+      wikipedia: { title: 'Alan Turing', url: 'https://en.wikipedia.org/wiki/Alan_Turing' },
+      identifiers: [{ property: 'P496', label: 'ORCID iD', value: '0000-0002-1825-0097', url: 'https://orcid.org/0000-0002-1825-0097' }],
+    });
+
+    const claims = Object.fromEntries(entity.claims.map(group => [group.property, group]));
+    expect(claims.P31.claims[0].value).toEqual({ type: 'item', text: 'human', id: 'Q5', url: 'https://www.wikidata.org/wiki/Q5' });
+    // The deprecated birth date is dropped
+    expect(claims.P569).toMatchObject({ label: 'date of birth', datatype: 'time', claims: [{ value: { type: 'time', text: '1912-06-23', precision: 11, calendar: 'gregorian' } }] });
+    expect(claims.P2048.claims[0].value).toEqual({ type: 'quantity', text: '1.75 metre', amount: 1.75, unit: 'metre' });
+    expect(claims.P625.claims[0].value).toMatchObject({ type: 'coordinates', latitude: 51.5, longitude: -0.12 });
+    expect(claims.P570.claims[0].value).toEqual({ type: 'somevalue', text: 'unknown value' });
+    expect(claims.P108.claims.map(claim => [claim.value.text, claim.rank])).toEqual([['University of Cambridge', 'preferred'], ['Government Communications Headquarters', 'normal']]);
+    expect(claims.P108.claims[0].qualifiers).toEqual([{ property: 'P580', label: 'start time', values: [expect.objectContaining({ text: '1948' })] }]);
+
+    // Every referenced item, property and unit is labelled in one batch
+    const labelRequests = requests.filter(request => request.path.includes('props=labels&'));
+    expect(labelRequests).toHaveLength(1);
+    expect(labelRequests[0].path).toContain('Q11573');
+  });
+
+  test('should filter properties and report unknown entities and titles', async () => {
+    const entity = await service().getEntity({ id: 'https://www.wikidata.org/wiki/Q7251' }, { properties: ['p569'] });
+    expect(entity.claims.map(group => group.property)).toEqual(['P569']);
+    expect(entity.identifiers).toEqual([]);
+
+    await expect(service().getEntity({ id: 'Q999999999' })).rejects.toThrow('Wikidata has no entity Q999999999');
+    await expect(service().getEntity({ title: 'Not a page' })).rejects.toThrow('No Wikidata item is linked to the en Wikipedia page "Not a page"');
+    await expect(service().getEntity({ id: 'Turing' })).rejects.toThrow('"Turing" is not a Wikidata entity ID');
+    await expect(service().getEntity({ title: 'Alan Turing' }, { lang: 'evil.example/' })).rejects.toThrow('"evil.example/" is not a Wikipedia language code');
+  });
+
+  test('should run SELECT queries with a limit and shortened entity IRIs', async () => {
+    const result = await service().query('SELECT ?item ?itemLabel ?born ?count WHERE { ?item wdt:P106 $occupation }', { params: { occupation: 'Q82594' }, limit: 2 });
+    expect(result.query).toBe('SELECT ?item ?itemLabel ?born ?count WHERE { ?item wdt:P106 wd:Q82594 }\nLIMIT 3');
+    expect(result.rows).toEqual([
+      { item: 'Q7251', itemLabel: 'Alan Turing', born: '1912-06-23T00:00:00Z', count: 3 },
+      { item: 'Q7259', itemLabel: 'Ada Lovelace', born: null, count: null },
+    ]);
+    expect(result.truncated).toBe(true);
+    expect(requests[0]).toMatchObject({ method: 'GET' });
+
+    const ask = await service().query(`ASK { wd:Q7251 wdt:P31 wd:Q5 } # ${'padding '.repeat(300)}`);
+    expect(ask).toMatchObject({ boolean: true, rows: [], truncated: false });
+    // Long queries are posted
+    expect(requests[1]).toMatchObject({ method: 'POST', path: '/sparql' });
+
+    await expect(service().query('PREFIX ex: <http://example.org/> DELETE WHERE { ?s ?p ?o }')).rejects.toThrow('Only SELECT and ASK queries are supported');
+  });
+
+  test('should retry an overloaded query service and explain malformed queries', async () => {
+    sparqlStatus = [503];
+    const result = await service().query('SELECT ?item WHERE { ?item wdt:P31 wd:Q5 } LIMIT 1');
+    expect(result.query).toBe('SELECT ?item WHERE { ?item wdt:P31 wd:Q5 } LIMIT 1');
+    expect(result.rows[0]).toMatchObject({ item: 'Q7251' });
+    expect(requests.filter(request => request.path.startsWith('/sparql'))).toHaveLength(2);
+
+    sparqlStatus = [400];
+    await expect(service().query('SELECT ?item WHERE { ?item }')).rejects.toThrow('Malformed SPARQL query: Encountered " "}" "} "" at line 1, column 30.');
+    // A rejected query is not retried
+    expect(requests.filter(request => request.path.startsWith('/sparql'))).toHaveLength(3);
+  });
+});
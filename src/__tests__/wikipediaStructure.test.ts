@@ -0,0 +1,107 @@
+import { isWikiTable, parseWikipediaStructure, wikiTableToCsv, wikiTableToMarkdown } from '../wikipediaStructure';
+
+// Trimmed action=parse output mixing the current (mw-heading) and older (mw-headline) heading markup
+const PAGE_HTML = `
+<div class="mw-content-ltr mw-parser-output" lang="en" dir="ltr">
+<table class="infobox ib-settlement vcard">
+  <tbody>
+    <tr><th colspan="2" class="infobox-above"><div class="fn org">Springfield</div></th></tr>
+    <tr><td colspan="2" class="infobox-image"><span typeof="mw:File"><img src="//upload.wikimedia.org/springfield.jpg"></span><div class="infobox-caption">Downtown Springfield</div></td></tr>
+    <tr><th scope="row" class="infobox-label">Country</th><td class="infobox-data">United States</td></tr>
+    <tr class="mergedtoprow"><th colspan="2" class="infobox-header">Population<sup id="cite_ref-1" class="reference"><a href="#cite_note-1">[1]</a></sup></th></tr>
+    <tr class="mergedrow"><th scope="row" class="infobox-label">&#160;•&#160;Total</th><td class="infobox-data">167,882<sup class="reference"><a href="#cite_note-2">[2]</a></sup></td></tr>
+    <tr><th scope="row" class="infobox-label">Time zones</th><td class="infobox-data">CST<br>CDT (summer)</td></tr>
+  </tbody>
+</table>
+<p>Springfield is a city.</p>
+<div class="mw-heading mw-heading2"><h2 id="Demographics">Demographics</h2><span class="mw-editsection">[<a href="#">edit</a>]</span></div>
+<table class="wikitable sortable">
+  <caption>Population by year</caption>
+  <tbody>
+    <tr><th rowspan="2">Year</th><th colspan="2">Population</th></tr>
+    <tr><th>Total</th><th>Change</th></tr>
+    <tr><td>2000</td><td><span class="sortkey" style="display:none">0111454</span>111,454</td><td rowspan="2">+1.2%</td></tr>
+    <tr><td>2010</td><td>116,250</td></tr>
+    <tr><td colspan="2">Estimate | 2020</td><td>n/a</td></tr>
+  </tbody>
+</table>
+<div class="mw-heading mw-heading3"><h3 id="Ethnicity">Ethnicity</h3></div>
+<table role="presentation"><tr><td>
+  <table class="wikitable"><tr><td>White</td><td>75%</td></tr><tr><td>Black</td><td>19%</td></tr></table>
+</td></tr></table>
+<h2><span class="mw-headline" id="Economy">Economy</span><span class="mw-editsection">[edit]</span></h2>
+<h4><span class="mw-headline" id="Retail">Retail</span></h4>
+<div class="navbox"><h3>Navigation</h3></div>
+</div>`;
+
+describe('parseWikipediaStructure', () => {
+  test('should read infobox fields with their group headers', () => {
+    const { infobox } = parseWikipediaStructure(PAGE_HTML);
+    expect(infobox).toEqual({
+      title: 'Springfield',
+      image: 'https://upload.wikimedia.org/springfield.jpg',
+      imageCaption: 'Downtown Springfield',
+      fields: [
+        { label: 'Country', value: 'United States' },
+        { label: '• Total', value: '167,882', group: 'Population' },
+        { label: 'Time zones', value: 'CST; CDT (summer)', group: 'Population' },
+      ],
+    });
+  });
+
+  test('should resolve rowspan and colspan and place tables in their sections', () => {
+    const { tables } = parseWikipediaStructure(PAGE_HTML);
+    expect(tables).toEqual([
+      {
+        index: 0,
+        caption: 'Population by year',
+        section: 'Demographics',
+        columns: ['Year', 'Population / Total', 'Population / Change'],
+        rows: [
+          ['2000', '111,454', '+1.2%'],
+          ['2010', '116,250', '+1.2%'],
+          ['Estimate | 2020', 'Estimate | 2020', 'n/a'],
+        ],
+        rowCount: 3,
+        truncated: false,
+      },
+      {
+        index: 1,
+        section: 'Ethnicity',
+        columns: ['Column 1', 'Column 2'],
+        rows: [['White', '75%'], ['Black', '19%']],
+        rowCount: 2,
+        truncated: false,
+      },
+    ]);
+    expect(parseWikipediaStructure(PAGE_HTML, { maxRows: 1 }).tables[0]).toMatchObject({ rows: [['2000', '111,454', '+1.2%']], rowCount: 3, truncated: true });
+  });
+
+  test('should nest sections by heading level', () => {
+    const { sections } = parseWikipediaStructure(PAGE_HTML);
+    expect(sections).toEqual([
+      { title: 'Demographics', level: 2, anchor: 'Demographics', children: [{ title: 'Ethnicity', level: 3, anchor: 'Ethnicity', children: [] }] },
+      { title: 'Economy', level: 2, anchor: 'Economy', children: [{ title: 'Retail', level: 4, anchor: 'Retail', children: [] }] },
+    ]);
+    expect(parseWikipediaStructure('<p>No structure</p>')).toEqual({ tables: [], sections: [] });
+  });
+});
+
+describe('table export', () => {
+  test('should write tables as CSV and markdown', () => {
+    const [table] = parseWikipediaStructure(PAGE_HTML).tables;
+    expect(isWikiTable(table)).toBe(true);
+    expect(isWikiTable([{ columns: 'a' }])).toBe(false);
+    expect(wikiTableToCsv(table)).toBe([
+      '"Year","Population / Total","Population / Change"',
+      '"2000","111,454","+1.2%"',
+      '"2010","116,250","+1.2%"',
+      '"Estimate | 2020","Estimate | 2020","n/a"',
+    ].join('\n'));
+    expect(wikiTableToMarkdown({ columns: ['Name', 'Quote'], rows: [['A', 'say "a|b"']] })).toBe([
+      '| Name | Quote |',
+      '| --- | --- |',
+      '| A | say "a\\|b" |',
+    ].join('\n'));
+  });
+});
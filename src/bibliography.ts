@@ -0,0 +1,919 @@
+// BibTeX, RIS and CSL-JSON import and export for citation items. Each format's
+// standard fields map onto CitationItem and back, so records keep their
+// authors, dates, identifiers and type through a round trip.
+
+import { buildCitationItem, CitationFields, CitationItem, CitationItemType, CITATION_ITEM_TYPES, CslDate, CslName, normalizeDoi, parseDate, parseName } from './citations.js';
+import { SessionItem } from './sessionStore.js';
+
+export type BibliographyFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const BIBLIOGRAPHY_FORMATS: BibliographyFormat[] = ['bibtex', 'ris', 'csl-json'];
+
+export const BIBLIOGRAPHY_FILE_EXTENSIONS: Record<BibliographyFormat, string> = {
+  bibtex: 'bib',
+  ris: 'ris',
+  'csl-json': 'json',
+};
+
+const FORMAT_ALIASES: Record<string, BibliographyFormat> = {
+  bibtex: 'bibtex', bib: 'bibtex', biblatex: 'bibtex',
+  ris: 'ris',
+  'csl-json': 'csl-json', csljson: 'csl-json', csl: 'csl-json',
+};
+
+export function resolveBibliographyFormat(name: string): BibliographyFormat {
+  const format = FORMAT_ALIASES[name.trim().toLowerCase()];
+  if (!format) {
+    throw new Error(`Unknown bibliography format "${name}". Available formats: ${BIBLIOGRAPHY_FORMATS.join(', ')}`);
+  }
+  return format;
+}
+
+/**
+ * Guess the format of a bibliography file from its first records.
+ */
+export function detectBibliographyFormat(text: string): BibliographyFormat {
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) return 'csl-json';
+  if (/^TY\s{1,2}-/m.test(trimmed)) return 'ris';
+  if (/@\w+\s*[{(]/.test(trimmed)) return 'bibtex';
+  throw new Error('Could not tell whether the input is BibTeX, RIS or CSL-JSON; pass its format explicitly');
+}
+
+export function parseBibliography(text: string, format?: BibliographyFormat | string): CitationItem[] {
+  switch (format ? resolveBibliographyFormat(format) : detectBibliographyFormat(text)) {
+    case 'bibtex':
+      return parseBibtex(text);
+    case 'ris':
+      return parseRis(text);
+    case 'csl-json':
+      return parseCslJson(text);
+  }
+}
+
+export function serializeBibliography(items: CitationItem[], format: BibliographyFormat | string): string {
+  switch (resolveBibliographyFormat(format)) {
+    case 'bibtex':
+      return serializeBibtex(items);
+    case 'ris':
+      return serializeRis(items);
+    case 'csl-json':
+      return serializeCslJson(items);
+  }
+}
+
+// Shared helpers
+function numericDateParts(date: CslDate | undefined): number[] | undefined {
+  const parts = date?.['date-parts']?.[0]?.map(Number);
+  return parts && parts.length > 0 && parts.every(Number.isFinite) ? parts : undefined;
+}
+
+function isoDate(date: CslDate | undefined): string | undefined {
+  const parts = numericDateParts(date);
+  if (!parts) return date?.literal;
+  return [String(parts[0]).padStart(4, '0'), ...parts.slice(1).map(part => String(part).padStart(2, '0'))].join('-');
+}
+
+function text(value: string | number | undefined): string | undefined {
+  return value === undefined || value === '' ? undefined : String(value);
+}
+
+// "van Gogh" is a particle and a family name; lower-case leading words are particles
+function familyWithParticle(family: string): Pick<CslName, 'family' | 'non-dropping-particle'> {
+  const words = family.trim().split(/\s+/);
+  let split = 0;
+  while (split < words.length - 1 && /^\p{Ll}/u.test(words[split])) split++;
+  return {
+    family: words.slice(split).join(' '),
+    ...(split > 0 ? { 'non-dropping-particle': words.slice(0, split).join(' ') } : {}),
+  };
+}
+
+function fullFamily(name: CslName): string {
+  return [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+}
+
+function withoutEmpty<T extends object>(item: T): T {
+  return Object.fromEntries(Object.entries(item).filter(([, value]) =>
+    value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+  )) as T;
+}
+
+// BibTeX
+const BIBTEX_TYPES: Record<string, CitationItemType> = {
+  article: 'article-journal',
+  book: 'book', booklet: 'book', manual: 'book', proceedings: 'book',
+  inbook: 'chapter', incollection: 'chapter',
+  inproceedings: 'paper-conference', conference: 'paper-conference',
+  techreport: 'report', report: 'report',
+  phdthesis: 'thesis', mastersthesis: 'thesis', thesis: 'thesis',
+  online: 'webpage', electronic: 'webpage', www: 'webpage',
+  inreference: 'entry-encyclopedia',
+  misc: 'document', unpublished: 'document',
+};
+
+const BIBTEX_ENTRY_TYPES: Record<CitationItemType, string> = {
+  'article-journal': 'article',
+  book: 'book',
+  chapter: 'incollection',
+  'paper-conference': 'inproceedings',
+  report: 'techreport',
+  thesis: 'phdthesis',
+  webpage: 'online',
+  'entry-encyclopedia': 'inreference',
+  document: 'misc',
+};
+
+// Thesis kinds implied by the entry type, written as "type" only when they differ
+const THESIS_GENRES: Record<string, string> = {
+  phdthesis: 'PhD thesis',
+  mastersthesis: "Master's thesis",
+};
+
+const MONTH_MACROS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Fields that hold identifiers or URLs, where LaTeX markup is not interpreted
+const VERBATIM_FIELDS = new Set(['url', 'doi', 'eprint', 'file']);
+
+interface BibtexEntry {
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+}
+
+class BibtexReader {
+  private position = 0;
+  private readonly macros: Record<string, string> = Object.fromEntries(
+    MONTH_MACROS.map((macro, index) => [macro, MONTH_NAMES[index]])
+  );
+
+  constructor(private readonly source: string) {}
+
+  readEntries(): BibtexEntry[] {
+    const entries: BibtexEntry[] = [];
+    for (let at = this.source.indexOf('@'); at >= 0; at = this.source.indexOf('@', this.position)) {
+      this.position = at + 1;
+      const type = this.readIdentifier().toLowerCase();
+      this.skipWhitespace();
+      const open = this.source[this.position];
+      if (open !== '{' && open !== '(') continue;
+      const close = open === '{' ? '}' : ')';
+
+      if (type === 'comment' || type === 'preamble') {
+        this.readDelimited(open, close);
+        continue;
+      }
+      this.position++;
+      if (type === 'string') {
+        const name = this.readIdentifier().toLowerCase();
+        this.expect('=');
+        this.macros[name] = this.readValue();
+        this.skipWhitespace();
+        this.expect(close);
+        continue;
+      }
+
+      const keyEnd = this.source.slice(this.position).search(/[,})]/);
+      if (keyEnd < 0) throw this.error(`Unterminated @${type} entry`);
+      const key = this.source.slice(this.position, this.position + keyEnd).trim();
+      this.position += keyEnd;
+      const fields: Record<string, string> = {};
+      this.skipWhitespace();
+      while (this.source[this.position] !== close) {
+        if (this.source[this.position] === ',') {
+          this.position++;
+        } else {
+          if (this.position >= this.source.length) throw this.error(`Unterminated entry "${key}"`);
+          const name = this.readIdentifier().toLowerCase();
+          if (!name) throw this.error(`Expected a field name in entry "${key}"`);
+          this.expect('=');
+          fields[name] = this.readValue();
+        }
+        this.skipWhitespace();
+      }
+      this.position++;
+      entries.push({ type, key, fields });
+    }
+    return entries;
+  }
+
+  private readValue(): string {
+    const pieces = [this.readValuePiece()];
+    // Values are concatenated with #
+    while (this.source[this.position] === '#') {
+      this.position++;
+      pieces.push(this.readValuePiece());
+    }
+    return pieces.join('');
+  }
+
+  // A braced or quoted string, number or macro, with the whitespace after it
+  private readValuePiece(): string {
+    this.skipWhitespace();
+    const start = this.source[this.position];
+    let piece: string;
+    if (start === '{') {
+      piece = this.readDelimited('{', '}').slice(1, -1);
+    } else if (start === '"') {
+      piece = this.readQuoted();
+    } else {
+      const word = this.readIdentifier();
+      if (!word) throw this.error('Expected a field value');
+      piece = /^\d+$/.test(word) ? word : this.macros[word.toLowerCase()] ?? word;
+    }
+    this.skipWhitespace();
+    return piece;
+  }
+
+  // A braced group including its braces
+  private readDelimited(open: string, close: string): string {
+    const start = this.position;
+    let depth = 0;
+    for (; this.position < this.source.length; this.position++) {
+      const char = this.source[this.position];
+      if (char === '\\') {
+        this.position++;
+      } else if (char === open) {
+        depth++;
+      } else if (char === close && --depth === 0) {
+        this.position++;
+        return this.source.slice(start, this.position);
+      }
+    }
+    throw this.error('Unbalanced braces', start);
+  }
+
+  // "..." values may contain braced groups, which can hold quotes
+  private readQuoted(): string {
+    const start = ++this.position;
+    let depth = 0;
+    for (; this.position < this.source.length; this.position++) {
+      const char = this.source[this.position];
+      if (char === '\\') {
+        this.position++;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+      } else if (char === '"' && depth === 0) {
+        return this.source.slice(start, this.position++);
+      }
+    }
+    throw this.error('Unterminated quoted value', start);
+  }
+
+  private readIdentifier(): string {
+    this.skipWhitespace();
+    const match = this.source.slice(this.position).match(/^[^\s"#%'(),={}]+/);
+    this.position += match ? match[0].length : 0;
+    return match ? match[0] : '';
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.source[this.position] ?? '')) this.position++;
+  }
+
+  private expect(char: string) {
+    this.skipWhitespace();
+    if (this.source[this.position] !== char) throw this.error(`Expected "${char}"`);
+    this.position++;
+  }
+
+  private error(message: string, position = this.position): Error {
+    const line = this.source.slice(0, position).split('\n').length;
+    return new Error(`BibTeX: ${message} at line ${line}`);
+  }
+}
+
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+  u: '\u0306', v: '\u030C', H: '\u030B', c: '\u0327', k: '\u0328', r: '\u030A',
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ',
+};
+
+/**
+ * Plain Unicode text from a BibTeX value: accents and escapes are decoded and
+ * protective braces dropped.
+ */
+function fromLatex(value: string): string {
+  return value
+    .replace(/\\(?:textit|textbf|textsc|textrm|emph|mkbibquote|url)\s*(?=\{)/g, '')
+    // Literal backslashes and tildes are kept out of the accent and spacing rules below
+    .replace(/\\textbackslash(?![a-zA-Z])\s*(?:\{\})?/g, '\uE002')
+    .replace(/\\textasciitilde(?![a-zA-Z])\s*(?:\{\})?/g, '\uE003')
+    .replace(/\\([a-zA-Z]+)(?![a-zA-Z])\s*(?:\{\})?/g, (match, name: string) => LATEX_SYMBOLS[name] ?? match)
+    .replace(/\\([`'^"~=.uvHckr])\s*(?:\{\s*([^{}\\]|\\?[ıȷ])\s*\}|([a-zA-Zıȷ]))/g, (match, accent: string, braced?: string, bare?: string) => {
+      const letter = (braced ?? bare ?? '').replace(/^\\/, '').replace('ı', 'i').replace('ȷ', 'j');
+      return ACCENTS[accent] ? `${letter}${ACCENTS[accent]}`.normalize('NFC') : match;
+    })
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/(^|[^\\])~/g, '$1 ')
+    // Escaped braces survive the removal of grouping braces
+    .replace(/\\\{/g, '\uE000')
+    .replace(/\\\}/g, '\uE001')
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/[{}]/g, '')
+    .replace(/\uE000/g, '{')
+    .replace(/\uE001/g, '}')
+    .replace(/\uE002/g, '\\')
+    .replace(/\uE003/g, '~')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const LATEX_ESCAPES: Record<string, string> = { '\\': '\\textbackslash{}', '~': '\\textasciitilde{}' };
+
+function toLatex(value: string): string {
+  return value.replace(/[\\~&%$#_{}]/g, char => LATEX_ESCAPES[char] ?? `\\${char}`);
+}
+
+// Braces keep acronyms and camel-case words from being lower-cased by sentence-case styles
+function protectCapitals(title: string): string {
+  return title.split(' ').map(word => /\p{Lu}/u.test(word.slice(1)) ? `{${word}}` : word).join(' ');
+}
+
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const sticky = new RegExp(separator.source, `${separator.flags.replace(/[gy]/g, '')}y`);
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    } else if (depth === 0) {
+      sticky.lastIndex = index;
+      const match = sticky.exec(value);
+      if (match && match[0].length > 0) {
+        parts.push(value.slice(start, index));
+        start = index + match[0].length;
+        index = start - 1;
+      }
+    }
+  }
+  parts.push(value.slice(start));
+  return parts.map(part => part.trim());
+}
+
+// "{World Health Organization}", but not "{van} Gogh"
+function isSingleGroup(value: string): boolean {
+  if (!value.startsWith('{')) return false;
+  let depth = 0;
+  for (let index = 0; index < value.length; index++) {
+    if (value[index] === '\\') index++;
+    else if (value[index] === '{') depth++;
+    else if (value[index] === '}' && --depth === 0) return index === value.length - 1;
+  }
+  return false;
+}
+
+function isLowerCaseWord(word: string): boolean {
+  // Braced words count as upper case, as in BibTeX
+  return !word.startsWith('{') && /^\p{Ll}/u.test(fromLatex(word));
+}
+
+/**
+ * A BibTeX name: "First von Last", "von Last, First" or "von Last, Jr, First".
+ * A name wrapped in braces is kept whole (organizations).
+ */
+function parseBibtexName(raw: string): CslName {
+  const name = raw.trim();
+  if (isSingleGroup(name)) {
+    return { literal: fromLatex(name.slice(1, -1)) };
+  }
+  const parts = splitTopLevel(name, /,/);
+  const word = (words: string[]) => fromLatex(words.join(' '));
+  let first: string[];
+  let vonLast: string[];
+  let suffix: string | undefined;
+
+  if (parts.length === 1) {
+    const words = splitTopLevel(name, /\s+/).filter(Boolean);
+    if (words.length === 1) return { family: word(words) };
+    let vonStart = words.findIndex((candidate, index) => index < words.length - 1 && isLowerCaseWord(candidate));
+    if (vonStart < 0) vonStart = words.length - 1;
+    first = words.slice(0, vonStart);
+    vonLast = words.slice(vonStart);
+  } else {
+    vonLast = splitTopLevel(parts[0], /\s+/).filter(Boolean);
+    suffix = parts.length > 2 ? fromLatex(parts[1]) || undefined : undefined;
+    first = splitTopLevel(parts[parts.length - 1], /\s+/).filter(Boolean);
+  }
+
+  let lastStart = 0;
+  while (lastStart < vonLast.length - 1 && isLowerCaseWord(vonLast[lastStart])) lastStart++;
+  const given = word(first);
+  return {
+    family: word(vonLast.slice(lastStart)),
+    ...(given ? { given } : {}),
+    ...(suffix ? { suffix } : {}),
+    ...(lastStart > 0 ? { 'non-dropping-particle': word(vonLast.slice(0, lastStart)) } : {}),
+  };
+}
+
+function parseBibtexNames(value: string | undefined): CslName[] | undefined {
+  return value ? splitTopLevel(value, /\s+and\s+/i).filter(Boolean).map(parseBibtexName) : undefined;
+}
+
+function bibtexName(name: CslName): string {
+  if (name.literal) return `{${toLatex(name.literal)}}`;
+  const family = toLatex(fullFamily(name));
+  if (!name.given && !name.suffix) return /\s/.test(family) ? `${family},` : family;
+  return [family, name.suffix && toLatex(name.suffix), toLatex(name.given ?? '')].filter(part => part !== undefined).join(', ');
+}
+
+function bibtexMonth(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const month = value.trim().toLowerCase();
+  if (/^\d{1,2}$/.test(month)) return Number(month);
+  const index = MONTH_NAMES.findIndex(name => name === month || name.slice(0, 3) === month.slice(0, 3));
+  return index >= 0 ? index + 1 : undefined;
+}
+
+function bibtexDate(fields: Record<string, string>): CslDate | undefined {
+  if (fields.date) return parseDate(fields.date);
+  const yearText = fields.year?.trim();
+  if (!yearText) return undefined;
+  if (!/^\d{4}$/.test(yearText)) return { literal: fromLatex(yearText) };
+  const month = bibtexMonth(fields.month);
+  const day = month && /^\d{1,2}$/.test(fields.day ?? '') ? Number(fields.day) : undefined;
+  return { 'date-parts': [[Number(yearText), ...(month ? [month] : []), ...(day ? [day] : [])]] };
+}
+
+function bibtexToItem(entry: BibtexEntry): CitationItem {
+  const type = BIBTEX_TYPES[entry.type] ?? 'document';
+  const raw = entry.fields;
+  const field = (name: string) => {
+    const value = raw[name];
+    if (value === undefined) return undefined;
+    return (VERBATIM_FIELDS.has(name) ? value.replace(/[{}]/g, '').trim() : fromLatex(value)) || undefined;
+  };
+
+  const title = [field('title'), field('subtitle')].filter(Boolean).join(': ');
+  if (!title) throw new Error(`BibTeX entry "${entry.key}" has no title`);
+  // howpublished = {\url{https://...}} is the classic BibTeX way to give a URL
+  const howpublishedUrl = raw.howpublished?.match(/^\s*(?:\\url\s*)?\{?\s*(https?:[^\s{}]+)/)?.[1];
+  const organization = type === 'webpage' ? undefined : field('organization');
+
+  return withoutEmpty<CitationItem>({
+    id: entry.key || undefined,
+    type,
+    title,
+    author: parseBibtexNames(raw.author),
+    editor: parseBibtexNames(raw.editor),
+    'container-title': field('journal') ?? field('journaltitle') ?? field('booktitle')
+      ?? (type === 'webpage' ? field('organization') : undefined) ?? (howpublishedUrl ? undefined : field('howpublished')),
+    publisher: field('publisher') ?? field('institution') ?? field('school') ?? organization,
+    'publisher-place': field('address') ?? field('location'),
+    issued: bibtexDate(raw),
+    accessed: parseDate(field('urldate')),
+    volume: field('volume'),
+    issue: field('issue') ?? (type === 'article-journal' ? field('number') : undefined),
+    number: type === 'article-journal' ? undefined : field('number'),
+    page: field('pages')?.replace(/\s*[–—]\s*/g, '-'),
+    edition: field('edition'),
+    DOI: normalizeDoi(field('doi')) ?? field('doi'),
+    URL: field('url') ?? howpublishedUrl,
+    ISBN: field('isbn'),
+    ISSN: field('issn'),
+    genre: field('type') ?? THESIS_GENRES[entry.type],
+    'collection-title': field('series'),
+    language: field('language') ?? field('langid'),
+    abstract: field('abstract'),
+    keyword: field('keywords'),
+    note: field('note'),
+  });
+}
+
+export function parseBibtex(source: string): CitationItem[] {
+  return new BibtexReader(source).readEntries().map(bibtexToItem);
+}
+
+function asciiWord(value: string | undefined): string {
+  return (value ?? '').normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+}
+
+const KEY_STOPWORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'and', 'for', 'to']);
+
+// Keys look like jumper2021highly, as most reference managers generate them
+function citationKey(item: CitationItem, taken: Set<string>): string {
+  if (item.id && /^[^\s"#%'(),={}\\]+$/.test(item.id) && !taken.has(item.id)) return item.id;
+  const firstAuthor = item.author?.[0];
+  const who = asciiWord(firstAuthor?.family ?? firstAuthor?.literal?.split(' ')[0]);
+  const titleWord = item.title.split(/\s+/).map(asciiWord).find(word => word && !KEY_STOPWORDS.has(word)) ?? '';
+  const base = `${who}${numericDateParts(item.issued)?.[0] ?? ''}${titleWord}` || 'item';
+  let key = base;
+  for (let index = 0; taken.has(key); index++) {
+    key = `${base}${String.fromCharCode(97 + (index % 26))}${index >= 26 ? Math.floor(index / 26) : ''}`;
+  }
+  return key;
+}
+
+function bibtexContainerField(type: CitationItemType): string {
+  switch (type) {
+    case 'article-journal':
+      return 'journal';
+    case 'chapter':
+    case 'paper-conference':
+    case 'entry-encyclopedia':
+      return 'booktitle';
+    case 'webpage':
+      return 'organization';
+    default:
+      return 'howpublished';
+  }
+}
+
+function bibtexPublisherField(type: CitationItemType): string {
+  return type === 'report' ? 'institution' : type === 'thesis' ? 'school' : 'publisher';
+}
+
+function itemToBibtex(item: CitationItem, key: string): string {
+  const type = BIBTEX_ENTRY_TYPES[item.type] ?? 'misc';
+  const entryType = item.type === 'thesis' && /master/i.test(item.genre ?? '') ? 'mastersthesis' : type;
+  const dateParts = numericDateParts(item.issued);
+  const latex = (value: string | number | undefined) => value === undefined ? undefined : toLatex(String(value));
+  const fields: [string, string | undefined][] = [
+    ['author', item.author?.map(bibtexName).join(' and ')],
+    ['editor', item.editor?.map(bibtexName).join(' and ')],
+    ['title', protectCapitals(toLatex(item.title))],
+    [bibtexContainerField(item.type), latex(item['container-title'])],
+    [bibtexPublisherField(item.type), latex(item.publisher)],
+    ['address', latex(item['publisher-place'])],
+    ['year', dateParts ? String(dateParts[0]) : latex(item.issued?.literal)],
+    ['month', dateParts?.[1] ? MONTH_MACROS[dateParts[1] - 1] : undefined],
+    ['date', dateParts?.[2] ? isoDate(item.issued) : undefined],
+    ['urldate', isoDate(item.accessed)],
+    ['volume', latex(item.volume)],
+    [item.type === 'article-journal' ? 'number' : 'issue', latex(item.issue)],
+    ['number', item.type === 'article-journal' ? undefined : latex(item.number)],
+    ['pages', text(item.page)?.replace(/\s*[-–—]+\s*/g, '--')],
+    ['edition', latex(item.edition)],
+    ['series', latex(item['collection-title'])],
+    ['type', item.genre && item.genre !== THESIS_GENRES[entryType] ? toLatex(item.genre) : undefined],
+    ['doi', text(item.DOI)],
+    ['url', text(item.URL)],
+    ['isbn', latex(item.ISBN)],
+    ['issn', latex(item.ISSN)],
+    ['language', latex(item.language)],
+    ['keywords', latex(item.keyword)],
+    ['abstract', latex(item.abstract)],
+    ['note', latex(item.note)],
+  ];
+  const body = fields
+    .filter((field): field is [string, string] => field[1] !== undefined && field[1] !== '')
+    // Month macros are written bare so styles can abbreviate them
+    .map(([name, value]) => `  ${name} = ${name === 'month' ? value : `{${value}}`}`);
+  return `@${entryType}{${key},\n${body.join(',\n')}\n}`;
+}
+
+export function serializeBibtex(items: CitationItem[]): string {
+  const taken = new Set<string>();
+  return items.map(item => {
+    const key = citationKey(item, taken);
+    taken.add(key);
+    return itemToBibtex(item, key);
+  }).join('\n\n') + (items.length > 0 ? '\n' : '');
+}
+
+// RIS
+const RIS_TYPES: Record<string, CitationItemType> = {
+  JOUR: 'article-journal', JFULL: 'article-journal', EJOUR: 'article-journal', MGZN: 'article-journal', NEWS: 'article-journal',
+  BOOK: 'book', EBOOK: 'book', EDBOOK: 'book',
+  CHAP: 'chapter', ECHAP: 'chapter',
+  CONF: 'paper-conference', CPAPER: 'paper-conference',
+  RPRT: 'report',
+  THES: 'thesis',
+  ELEC: 'webpage', WEB: 'webpage', BLOG: 'webpage',
+  ENCYC: 'entry-encyclopedia', DICT: 'entry-encyclopedia',
+  GEN: 'document',
+};
+
+const RIS_ENTRY_TYPES: Record<CitationItemType, string> = {
+  'article-journal': 'JOUR',
+  book: 'BOOK',
+  chapter: 'CHAP',
+  'paper-conference': 'CONF',
+  report: 'RPRT',
+  thesis: 'THES',
+  webpage: 'ELEC',
+  'entry-encyclopedia': 'ENCYC',
+  document: 'GEN',
+};
+
+const RIS_LINE = /^([A-Z][A-Z0-9])\s{1,2}-(?: (.*))?$/;
+
+// "Family, Given, Suffix"; a name without a comma is an organization unless it is a single word
+function parseRisName(value: string): CslName {
+  const parts = value.split(',').map(part => part.trim());
+  if (parts.length === 1) return /\s/.test(parts[0]) ? { literal: parts[0] } : { family: parts[0] };
+  return {
+    ...familyWithParticle(parts[0]),
+    ...(parts[1] ? { given: parts[1] } : {}),
+    ...(parts[2] ? { suffix: parts.slice(2).join(', ') } : {}),
+  };
+}
+
+function risName(name: CslName): string {
+  if (name.literal) return name.literal;
+  const family = fullFamily(name);
+  // The trailing comma keeps "van Gogh" from reading as an organization
+  if (!name.given && !name.suffix) return /\s/.test(family) ? `${family},` : family;
+  return [family, name.given ?? '', name.suffix].filter(part => part !== undefined).join(', ');
+}
+
+// RIS dates are YYYY/MM/DD/other, with empty parts allowed ("2021//")
+function parseRisDate(value: string | undefined): CslDate | undefined {
+  if (!value) return undefined;
+  const match = value.trim().match(/^(\d{4})(?:[/-](\d{1,2})?(?:[/-](\d{1,2})?)?)?(?:[/\sT].*)?$/);
+  if (!match) return { literal: value.trim() };
+  return { 'date-parts': [match.slice(1).filter(Boolean).map(Number)] };
+}
+
+function risDate(date: CslDate | undefined): string | undefined {
+  const parts = numericDateParts(date);
+  if (!parts) return date?.literal;
+  return parts.map((part, index) => index === 0 ? String(part) : String(part).padStart(2, '0')).join('/');
+}
+
+function risToItem(tags: Record<string, string[]>, line: number): CitationItem {
+  const first = (...names: string[]) => names.map(name => tags[name]?.[0]).find(value => value !== undefined && value !== '');
+  const all = (...names: string[]) => names.flatMap(name => tags[name] ?? []).filter(Boolean);
+  const type = RIS_TYPES[first('TY') ?? ''] ?? 'document';
+  const title = first('TI', 'T1', 'CT', ...(type === 'book' ? ['BT'] : []));
+  if (!title) throw new Error(`RIS record at line ${line} has no title`);
+  const start = first('SP');
+  const end = first('EP');
+  const serials = all('SN').flatMap(value => value.split(/\s*;\s*/));
+  const isIssn = (value: string) => /^\d{4}-?\d{3}[\dXx]$/.test(value);
+  const authors = all('AU', 'A1');
+  const editors = all('ED', ...(tags.ED ? [] : ['A2']));
+  const keywords = all('KW');
+
+  return withoutEmpty<CitationItem>({
+    id: first('ID'),
+    type,
+    title,
+    author: authors.length > 0 ? authors.map(parseRisName) : undefined,
+    editor: editors.length > 0 ? editors.map(parseRisName) : undefined,
+    'container-title': first('T2', 'JO', 'JF', 'JA', 'J2', ...(type === 'book' ? [] : ['BT'])),
+    publisher: first('PB'),
+    'publisher-place': first('CY', 'PP'),
+    issued: parseRisDate(first('DA', 'PY', 'Y1')),
+    accessed: parseRisDate(first('Y2')),
+    volume: first('VL'),
+    issue: first('IS'),
+    number: first('M1'),
+    page: start && end ? `${start}-${end}` : start ?? end,
+    edition: first('ET'),
+    DOI: normalizeDoi(first('DO')) ?? first('DO'),
+    URL: first('UR'),
+    ISBN: serials.filter(value => !isIssn(value)).join('; ') || undefined,
+    ISSN: serials.filter(isIssn).join('; ') || undefined,
+    genre: first('M3'),
+    'collection-title': first('T3'),
+    language: first('LA'),
+    abstract: first('AB', 'N2'),
+    keyword: keywords.length > 0 ? keywords.join(', ') : undefined,
+    note: first('N1'),
+  });
+}
+
+export function parseRis(source: string): CitationItem[] {
+  const items: CitationItem[] = [];
+  let tags: Record<string, string[]> | undefined;
+  let startLine = 0;
+  let last: { tag: string; index: number } | undefined;
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    const match = line.replace(/^\uFEFF/, '').match(RIS_LINE);
+    if (!match) {
+      // Lines without a tag continue the previous value (long abstracts and notes)
+      if (tags && last && line.trim()) tags[last.tag][last.index] += `\n${line.trim()}`;
+      return;
+    }
+    const [, tag, value = ''] = match;
+    if (tag === 'TY') {
+      tags = {};
+      startLine = index + 1;
+    }
+    if (!tags) throw new Error(`RIS: "${tag}" outside a record at line ${index + 1} (records start with TY)`);
+    if (tag === 'ER') {
+      items.push(risToItem(tags, startLine));
+      tags = undefined;
+      last = undefined;
+      return;
+    }
+    (tags[tag] ??= []).push(value.trim());
+    last = { tag, index: tags[tag].length - 1 };
+  });
+  if (tags) throw new Error(`RIS: record starting at line ${startLine} has no ER line`);
+  return items;
+}
+
+function itemToRis(item: CitationItem): string {
+  const lines: [string, string | number | undefined][] = [
+    ['TY', RIS_ENTRY_TYPES[item.type] ?? 'GEN'],
+    ['ID', item.id],
+    ...(item.author ?? []).map(name => ['AU', risName(name)] as [string, string]),
+    ...(item.editor ?? []).map(name => ['ED', risName(name)] as [string, string]),
+    ['TI', item.title],
+    ['T2', item['container-title']],
+    ['T3', item['collection-title']],
+    ['PY', numericDateParts(item.issued)?.[0]],
+    ['DA', numericDateParts(item.issued)?.length === 1 ? undefined : risDate(item.issued)],
+    ['Y2', risDate(item.accessed)],
+    ['VL', item.volume],
+    ['IS', item.issue],
+    ['M1', item.number],
+  ];
+  const range = text(item.page)?.match(/^(\S+?)\s*[-–—]+\s*(\S+)$/);
+  lines.push(...(range ? [['SP', range[1]], ['EP', range[2]]] as [string, string][] : [['SP', item.page] as [string, string | undefined]]));
+  lines.push(
+    ['ET', item.edition],
+    ['PB', item.publisher],
+    ['CY', item['publisher-place']],
+    ['M3', item.genre],
+    ['DO', item.DOI],
+    ['UR', item.URL],
+    ['SN', item.ISBN],
+    ['SN', item.ISSN],
+    ['LA', item.language],
+    ...(item.keyword ?? '').split(/\s*,\s*/).filter(Boolean).map(keyword => ['KW', keyword] as [string, string]),
+    ['AB', item.abstract],
+    ['N1', item.note],
+  );
+  return [
+    ...lines.filter(([, value]) => value !== undefined && value !== '').map(([tag, value]) => `${tag}  - ${value}`),
+    'ER  - ',
+  ].join('\n');
+}
+
+export function serializeRis(items: CitationItem[]): string {
+  return items.map(itemToRis).join('\n\n') + (items.length > 0 ? '\n' : '');
+}
+
+// CSL types without a layout here map to the closest one
+const CSL_TYPE_FALLBACKS: Record<string, CitationItemType> = {
+  'article-magazine': 'article-journal',
+  'article-newspaper': 'article-journal',
+  article: 'document',
+  manuscript: 'document',
+  'post-weblog': 'webpage',
+  post: 'webpage',
+  'entry-dictionary': 'entry-encyclopedia',
+  entry: 'entry-encyclopedia',
+  dataset: 'document',
+  software: 'document',
+};
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+// An array of items, an object with an "items" array, or a single item
+function itemList(data: unknown): unknown[] {
+  if (Array.isArray(data)) return data;
+  return isRecord(data) && Array.isArray(data.items) ? data.items : [data];
+}
+
+function toCslItem(value: unknown, index: number): CitationItem {
+  if (!isRecord(value)) {
+    throw new Error(`CSL-JSON: item ${index + 1} is not an object`);
+  }
+  const item = value;
+  if (typeof item.title !== 'string' || !item.title.trim()) {
+    throw new Error(`CSL-JSON: item ${item.id ?? index + 1} has no title`);
+  }
+  const type: CitationItemType = CITATION_ITEM_TYPES.includes(item.type) ? item.type : CSL_TYPE_FALLBACKS[item.type] ?? 'document';
+  return { ...item, type, title: item.title } as CitationItem;
+}
+
+/**
+ * CSL-JSON as Zotero and citeproc write it: an array of items. A single item
+ * or an object with an "items" array is accepted too.
+ */
+export function parseCslJson(source: string | unknown): CitationItem[] {
+  let data: unknown;
+  try {
+    data = typeof source === 'string' ? JSON.parse(source) : source;
+  } catch (error) {
+    throw new Error(`CSL-JSON: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+  }
+  return itemList(data).map(toCslItem);
+}
+
+export function serializeCslJson(items: CitationItem[]): string {
+  return JSON.stringify(items, null, 2);
+}
+
+// Sources from other tools
+const CITATION_FIELD_KEYS = ['authors', 'editors', 'date', 'year', 'source', 'place', 'pages', 'doi', 'isbn', 'url', 'accessed'];
+
+/**
+ * Citation items from tool input: CSL-JSON items, citation_formatter fields,
+ * arrays of either, an object with an "items" array, or BibTeX/RIS/CSL-JSON text.
+ */
+export function toCitationItems(data: unknown): CitationItem[] {
+  if (typeof data === 'string') return parseBibliography(data);
+  return itemList(data).map((value, index) => {
+    const isFields = isRecord(value) && CITATION_FIELD_KEYS.some(key => key in value);
+    return isFields ? buildCitationItem(value as CitationFields) : toCslItem(value, index);
+  });
+}
+
+const SOURCE_RANK: Partial<Record<SessionItem['type'], number>> = {
+  search_result: 1,
+  page: 2,
+  wikipedia_article: 2,
+  citation: 3,
+};
+
+function sessionItemToCitation(item: SessionItem): CitationItem | undefined {
+  const accessed = parseDate(item.addedAt.slice(0, 10));
+  switch (item.type) {
+    case 'citation':
+      if (item.data.item?.title) return toCslItem(item.data.item, 0);
+      if (!(item.data.title ?? item.title)) return undefined;
+      return buildCitationItem({ ...item.data, title: item.data.title ?? item.title, url: item.data.url ?? item.url } as CitationFields, new Date(item.addedAt));
+    case 'page': {
+      if (!item.title) return undefined;
+      const byline = typeof item.data.byline === 'string' ? item.data.byline.replace(/^\s*by\s+/i, '').trim() : '';
+      const authors = byline && byline.length <= 100 ? byline.split(/\s*(?:,|&|\band\b)\s*/).filter(Boolean).map(parseName) : [];
+      return withoutEmpty<CitationItem>({
+        type: 'webpage',
+        title: item.title,
+        author: authors,
+        issued: parseDate(item.data.publishedAt ?? undefined),
+        accessed,
+        URL: item.url,
+      });
+    }
+    case 'wikipedia_article':
+      if (!item.title) return undefined;
+      return withoutEmpty<CitationItem>({ type: 'entry-encyclopedia', title: item.title, 'container-title': 'Wikipedia', accessed, URL: item.url });
+    case 'search_result':
+      if (!item.title) return undefined;
+      // academic_search results from the scholarly APIs carry paper metadata
+      if (item.data.doi || item.data.authors?.length) {
+        return withoutEmpty<CitationItem>({
+          type: item.data.venue ? 'article-journal' : 'document',
+          title: item.title,
+          author: (item.data.authors ?? []).map(parseName),
+          'container-title': item.data.venue,
+          issued: item.data.year ? { 'date-parts': [[Number(item.data.year)]] } : undefined,
+          DOI: normalizeDoi(item.data.doi),
+          URL: item.url,
+        });
+      }
+      return withoutEmpty<CitationItem>({ type: 'webpage', title: item.title, accessed, URL: item.url });
+    default:
+      return undefined;
+  }
+}
+
+function sourceKeys(item: CitationItem): string[] {
+  const keys = [
+    item.DOI && `doi:${item.DOI.toLowerCase()}`,
+    item.URL && `url:${item.URL.replace(/#.*$/, '').replace(/\/$/, '').toLowerCase()}`,
+  ].filter((key): key is string => Boolean(key));
+  return keys.length > 0 ? keys : [`title:${item.title.trim().toLowerCase()}`];
+}
+
+/**
+ * The sources a research session collected, one citation item per work. When
+ * several items share a DOI or URL the most complete one wins: a citation over
+ * a page, a page over a search result.
+ */
+export function sessionItemsToCitations(items: SessionItem[]): CitationItem[] {
+  const sources: { rank: number; item: CitationItem }[] = [];
+  const byKey = new Map<string, { rank: number; item: CitationItem }>();
+  for (const sessionItem of items) {
+    const item = sessionItemToCitation(sessionItem);
+    if (!item) continue;
+    const keys = sourceKeys(item);
+    const rank = SOURCE_RANK[sessionItem.type] ?? 0;
+    const existing = keys.map(key => byKey.get(key)).find(Boolean);
+    if (!existing) {
+      const source = { rank, item };
+      sources.push(source);
+      keys.forEach(key => byKey.set(key, source));
+    } else {
+      if (rank > existing.rank) {
+        existing.rank = rank;
+        existing.item = item;
+      }
+      keys.forEach(key => byKey.set(key, existing));
+    }
+  }
+  return sources.map(source => source.item);
+}
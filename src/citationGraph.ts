@@ -0,0 +1,480 @@
+import { normalizeDoi } from './citations.js';
+import { baseUrl, getScholarlyData, OPENALEX_BASE_URL, SEMANTIC_SCHOLAR_BASE_URL } from './scholarlyApi.js';
+import { openAlexWorkToRecord, semanticScholarPaperToRecord, ScholarlyRecord, ScholarlySearchOptions } from './scholarlySearch.js';
+
+export type CitationGraphProvider = 'openalex' | 'semanticscholar';
+
+export const CITATION_GRAPH_PROVIDERS: CitationGraphProvider[] = ['openalex', 'semanticscholar'];
+
+export type CitationDirection = 'references' | 'citations' | 'both';
+
+export type CitationGraphFormat = 'json' | 'graphml' | 'dot';
+
+export const CITATION_GRAPH_FORMATS: CitationGraphFormat[] = ['json', 'graphml', 'dot'];
+
+/**
+ * A paper as a graph source returns it. `id` is the provider's own ID
+ * (OpenAlex W-number or Semantic Scholar paper ID).
+ */
+export interface GraphPaper extends Omit<ScholarlyRecord, 'sources' | 'abstract' | 'pdfUrl' | 'arxivId'> {
+  id: string;
+  // Provider IDs of everything the paper cites, when the provider lists them with the paper
+  referenceIds?: string[];
+}
+
+export interface CitationGraphSource {
+  readonly name: CitationGraphProvider;
+  // A DOI (bare or as a URL) or a provider ID
+  paper(id: string): Promise<GraphPaper>;
+  // The most-cited works the paper cites
+  references(paper: GraphPaper, limit: number): Promise<GraphPaper[]>;
+  // The most-cited works citing the paper
+  citations(paper: GraphPaper, limit: number): Promise<GraphPaper[]>;
+}
+
+export interface CitationGraphNode {
+  id: string;
+  title: string;
+  authors: string[];
+  venue?: string;
+  year?: number;
+  doi?: string;
+  citationCount?: number;
+  url: string;
+  // Hops from the nearest anchor; anchors are 0
+  hop: number;
+  anchor: boolean;
+  // Citations within the graph
+  inDegree: number;
+  outDegree: number;
+  pageRank: number;
+  // How often works in the graph cite this paper together with an anchor
+  coCitation: number;
+}
+
+// `source` cites `target`
+export interface CitationGraphEdge {
+  source: string;
+  target: string;
+}
+
+export interface CoCitationPair {
+  a: string;
+  b: string;
+  // Works in the graph citing both
+  count: number;
+}
+
+export interface CitationGraph {
+  provider: CitationGraphProvider;
+  anchors: string[];
+  nodes: CitationGraphNode[];
+  edges: CitationGraphEdge[];
+  coCitations: CoCitationPair[];
+  // maxNodes was reached, so some neighbours were left out
+  truncated: boolean;
+}
+
+export interface CitationGraphOptions {
+  depth?: number;
+  direction?: CitationDirection;
+  // Neighbours fetched per paper and direction
+  maxPerNode?: number;
+  maxNodes?: number;
+}
+
+const MAX_DEPTH = 3;
+const MAX_CO_CITATION_PAIRS = 25;
+// Papers expanded at once; each expansion is one request per direction
+const EXPANSION_CONCURRENCY = 4;
+
+// Both APIs take "doi:10.x/y" style keys as one path segment, slash included
+function pathKey(key: string): string {
+  return encodeURIComponent(key).replace(/%2F/gi, '/').replace(/%3A/gi, ':');
+}
+
+function byCitationCount(a: GraphPaper, b: GraphPaper): number {
+  return (b.citationCount ?? 0) - (a.citationCount ?? 0);
+}
+
+function toGraphPaper(record: ScholarlyRecord, id: string, referenceIds?: string[]): GraphPaper {
+  return {
+    id,
+    title: record.title,
+    authors: record.authors,
+    venue: record.venue,
+    year: record.year,
+    doi: record.doi,
+    citationCount: record.citationCount,
+    url: record.url,
+    ...(referenceIds ? { referenceIds } : {}),
+  };
+}
+
+// OpenAlex
+const OPENALEX_GRAPH_FIELDS = 'id,doi,display_name,publication_year,authorships,primary_location,cited_by_count,referenced_works';
+
+function openAlexId(url: string): string {
+  return url.replace(/^https?:\/\/openalex\.org\//, '');
+}
+
+function openAlexPaper(work: any): GraphPaper {
+  return toGraphPaper(openAlexWorkToRecord(work), openAlexId(work.id), (work.referenced_works || []).map(openAlexId));
+}
+
+export class OpenAlexGraphSource implements CitationGraphSource {
+  readonly name = 'openalex';
+
+  constructor(private options: ScholarlySearchOptions) {}
+
+  private get base(): string {
+    return baseUrl(this.options.openAlexBaseUrl, OPENALEX_BASE_URL);
+  }
+
+  async paper(id: string): Promise<GraphPaper> {
+    const doi = normalizeDoi(id);
+    const key = doi ? `doi:${doi}` : openAlexId(id.trim());
+    const work = await getScholarlyData('OpenAlex', `${this.base}/works/${pathKey(key)}`, {
+      select: OPENALEX_GRAPH_FIELDS,
+      mailto: this.options.contactEmail,
+    }, this.options, { notFound: `No OpenAlex record for ${doi ?? id}` });
+    return openAlexPaper(work);
+  }
+
+  // cited_by: lists the works a paper cites, so both directions are sorted server-side
+  async references(paper: GraphPaper, limit: number): Promise<GraphPaper[]> {
+    if (!paper.referenceIds?.length) return [];
+    return this.mostCited(`cited_by:${paper.id}`, limit);
+  }
+
+  async citations(paper: GraphPaper, limit: number): Promise<GraphPaper[]> {
+    return this.mostCited(`cites:${paper.id}`, limit);
+  }
+
+  private async mostCited(filter: string, limit: number): Promise<GraphPaper[]> {
+    const data = await getScholarlyData('OpenAlex', `${this.base}/works`, {
+      filter,
+      sort: 'cited_by_count:desc',
+      'per-page': Math.min(limit, 200),
+      select: OPENALEX_GRAPH_FIELDS,
+      mailto: this.options.contactEmail,
+    }, this.options);
+    return (data?.results || []).map(openAlexPaper);
+  }
+}
+
+// Semantic Scholar
+const SEMANTIC_SCHOLAR_GRAPH_FIELDS = 'paperId,title,authors,venue,journal,year,externalIds,citationCount,url';
+// Largest page the references and citations endpoints return
+const SEMANTIC_SCHOLAR_PAGE_SIZE = 100;
+
+function semanticScholarPaper(paper: any): GraphPaper {
+  return toGraphPaper(semanticScholarPaperToRecord(paper), paper.paperId);
+}
+
+export class SemanticScholarGraphSource implements CitationGraphSource {
+  readonly name = 'semanticscholar';
+
+  constructor(private options: ScholarlySearchOptions) {}
+
+  private get base(): string {
+    return `${baseUrl(this.options.semanticScholarBaseUrl, SEMANTIC_SCHOLAR_BASE_URL)}/graph/v1/paper`;
+  }
+
+  private get headers(): Record<string, string> {
+    return this.options.semanticScholarApiKey ? { 'x-api-key': this.options.semanticScholarApiKey } : {};
+  }
+
+  async paper(id: string): Promise<GraphPaper> {
+    const doi = normalizeDoi(id);
+    const key = doi ? `DOI:${doi}` : id.trim();
+    const paper = await getScholarlyData('Semantic Scholar', `${this.base}/${pathKey(key)}`, {
+      fields: SEMANTIC_SCHOLAR_GRAPH_FIELDS,
+    }, this.options, { headers: this.headers, notFound: `No Semantic Scholar record for ${doi ?? id}` });
+    return semanticScholarPaper(paper);
+  }
+
+  // Neither endpoint sorts by citations, so a full page is ranked locally
+  private async neighbours(paper: GraphPaper, edge: 'references' | 'citations', limit: number): Promise<GraphPaper[]> {
+    const data = await getScholarlyData('Semantic Scholar', `${this.base}/${encodeURIComponent(paper.id)}/${edge}`, {
+      fields: SEMANTIC_SCHOLAR_GRAPH_FIELDS,
+      limit: SEMANTIC_SCHOLAR_PAGE_SIZE,
+    }, this.options, { headers: this.headers });
+    const key = edge === 'references' ? 'citedPaper' : 'citingPaper';
+    return (data?.data || [])
+      .map((entry: any) => entry[key])
+      .filter((neighbour: any) => neighbour?.paperId && neighbour.title)
+      .map(semanticScholarPaper)
+      .sort(byCitationCount)
+      .slice(0, limit);
+  }
+
+  references(paper: GraphPaper, limit: number): Promise<GraphPaper[]> {
+    return this.neighbours(paper, 'references', limit);
+  }
+
+  citations(paper: GraphPaper, limit: number): Promise<GraphPaper[]> {
+    return this.neighbours(paper, 'citations', limit);
+  }
+}
+
+export function createCitationGraphSource(provider: CitationGraphProvider, options: ScholarlySearchOptions): CitationGraphSource {
+  switch (provider) {
+    case 'openalex':
+      return new OpenAlexGraphSource(options);
+    case 'semanticscholar':
+      return new SemanticScholarGraphSource(options);
+    default:
+      throw new Error(`Unknown citation graph provider "${provider}". Use ${CITATION_GRAPH_PROVIDERS.join(' or ')}.`);
+  }
+}
+
+// Power iteration; papers citing nothing in the graph spread their rank evenly
+function pageRank(ids: string[], edges: CitationGraphEdge[], damping = 0.85, iterations = 40): Map<string, number> {
+  const outgoing = new Map(ids.map(id => [id, [] as string[]]));
+  for (const edge of edges) outgoing.get(edge.source)!.push(edge.target);
+  let rank = new Map(ids.map(id => [id, 1 / ids.length]));
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const dangling = ids.filter(id => outgoing.get(id)!.length === 0).reduce((sum, id) => sum + rank.get(id)!, 0);
+    const next = new Map(ids.map(id => [id, (1 - damping) / ids.length + damping * dangling / ids.length]));
+    for (const [id, targets] of outgoing) {
+      for (const target of targets) next.set(target, next.get(target)! + damping * rank.get(id)! / targets.length);
+    }
+    rank = next;
+  }
+  return rank;
+}
+
+function coCitationCounts(edges: CitationGraphEdge[]): Map<string, CoCitationPair> {
+  const cited = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!cited.has(edge.source)) cited.set(edge.source, []);
+    cited.get(edge.source)!.push(edge.target);
+  }
+  const pairs = new Map<string, CoCitationPair>();
+  for (const targets of cited.values()) {
+    const sorted = [...targets].sort();
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const key = `${sorted[i]}\n${sorted[j]}`;
+        const pair = pairs.get(key) ?? { a: sorted[i], b: sorted[j], count: 0 };
+        pair.count++;
+        pairs.set(key, pair);
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Walk references and/or citing works `depth` hops out from the anchor papers,
+ * then score every paper by in/out degree, PageRank and co-citation with the
+ * anchors. Papers already in the graph are linked with every known edge, not
+ * just the ones used to reach them.
+ */
+export async function buildCitationGraph(
+  source: CitationGraphSource,
+  anchorIds: string[],
+  options: CitationGraphOptions = {}
+): Promise<CitationGraph> {
+  const depth = Math.min(Math.max(options.depth ?? 1, 1), MAX_DEPTH);
+  const direction = options.direction ?? 'both';
+  const maxPerNode = options.maxPerNode ?? 10;
+  const maxNodes = options.maxNodes ?? 100;
+  if (anchorIds.length === 0) throw new Error('At least one anchor paper is required.');
+
+  const papers = new Map<string, GraphPaper>();
+  const hops = new Map<string, number>();
+  const edges = new Map<string, CitationGraphEdge>();
+  let truncated = false;
+  let next: GraphPaper[] = [];
+
+  const anchors = await Promise.all(anchorIds.map(id => source.paper(id)));
+  for (const anchor of anchors) {
+    papers.set(anchor.id, anchor);
+    hops.set(anchor.id, 0);
+  }
+
+  const link = (from: string, to: string) => {
+    if (from !== to) edges.set(`${from}\n${to}`, { source: from, target: to });
+  };
+  // Returns whether the paper is in the graph, adding it when there is room
+  const admit = (paper: GraphPaper, hop: number): boolean => {
+    if (papers.has(paper.id)) return true;
+    if (papers.size >= maxNodes) {
+      truncated = true;
+      return false;
+    }
+    papers.set(paper.id, paper);
+    hops.set(paper.id, hop);
+    next.push(paper);
+    return true;
+  };
+
+  let frontier = [...new Map(anchors.map(anchor => [anchor.id, anchor])).values()];
+  // Once maxNodes is reached no neighbour could be added, so expansion stops
+  for (let hop = 1; hop <= depth && frontier.length > 0 && !truncated; hop++) {
+    next = [];
+    for (let start = 0; start < frontier.length && !truncated; start += EXPANSION_CONCURRENCY) {
+      await Promise.all(frontier.slice(start, start + EXPANSION_CONCURRENCY).map(async (paper) => {
+        const [references, citations] = await Promise.all([
+          direction !== 'citations' ? source.references(paper, maxPerNode) : [],
+          direction !== 'references' ? source.citations(paper, maxPerNode) : [],
+        ]);
+        for (const reference of references) {
+          if (admit(reference, hop)) link(paper.id, reference.id);
+        }
+        for (const citing of citations) {
+          if (admit(citing, hop)) link(citing.id, paper.id);
+        }
+      }));
+    }
+    frontier = next;
+  }
+
+  for (const paper of papers.values()) {
+    for (const referenceId of paper.referenceIds ?? []) {
+      if (papers.has(referenceId)) link(paper.id, referenceId);
+    }
+  }
+
+  const edgeList = [...edges.values()];
+  const ids = [...papers.keys()];
+  const ranks = pageRank(ids, edgeList);
+  const pairs = coCitationCounts(edgeList);
+  const anchorSet = new Set(anchors.map(anchor => anchor.id));
+  const inDegree = new Map<string, number>();
+  const outDegree = new Map<string, number>();
+  for (const edge of edgeList) {
+    inDegree.set(edge.target, (inDegree.get(edge.target) ?? 0) + 1);
+    outDegree.set(edge.source, (outDegree.get(edge.source) ?? 0) + 1);
+  }
+  const coCitation = new Map<string, number>();
+  for (const pair of pairs.values()) {
+    if (anchorSet.has(pair.b)) coCitation.set(pair.a, (coCitation.get(pair.a) ?? 0) + pair.count);
+    if (anchorSet.has(pair.a)) coCitation.set(pair.b, (coCitation.get(pair.b) ?? 0) + pair.count);
+  }
+
+  const nodes = ids.map((id): CitationGraphNode => {
+    const paper = papers.get(id)!;
+    return {
+      id,
+      title: paper.title,
+      authors: paper.authors,
+      venue: paper.venue,
+      year: paper.year,
+      doi: paper.doi,
+      citationCount: paper.citationCount,
+      url: paper.url,
+      hop: hops.get(id)!,
+      anchor: anchorSet.has(id),
+      inDegree: inDegree.get(id) ?? 0,
+      outDegree: outDegree.get(id) ?? 0,
+      pageRank: Math.round(ranks.get(id)! * 10000) / 10000,
+      coCitation: coCitation.get(id) ?? 0,
+    };
+  });
+
+  return {
+    provider: source.name,
+    anchors: [...anchorSet],
+    nodes,
+    edges: edgeList,
+    coCitations: [...pairs.values()].sort((a, b) => b.count - a.count).slice(0, MAX_CO_CITATION_PAIRS),
+    truncated,
+  };
+}
+
+// Serialization
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function escapeDot(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+const GRAPHML_KEYS: { key: keyof CitationGraphNode; type: 'string' | 'int' | 'double' | 'boolean' }[] = [
+  { key: 'title', type: 'string' },
+  { key: 'authors', type: 'string' },
+  { key: 'venue', type: 'string' },
+  { key: 'year', type: 'int' },
+  { key: 'doi', type: 'string' },
+  { key: 'url', type: 'string' },
+  { key: 'citationCount', type: 'int' },
+  { key: 'hop', type: 'int' },
+  { key: 'anchor', type: 'boolean' },
+  { key: 'inDegree', type: 'int' },
+  { key: 'outDegree', type: 'int' },
+  { key: 'pageRank', type: 'double' },
+  { key: 'coCitation', type: 'int' },
+];
+
+export function citationGraphToGraphml(graph: CitationGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...GRAPHML_KEYS.map(({ key, type }) => `  <key id="${key}" for="node" attr.name="${key}" attr.type="${type}"/>`),
+    `  <graph id="citations" edgedefault="directed">`,
+  ];
+  for (const node of graph.nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    for (const { key } of GRAPHML_KEYS) {
+      const value = key === 'authors' ? node.authors.join('; ') : node[key];
+      if (value !== undefined && value !== '') lines.push(`      <data key="${key}">${escapeXml(String(value))}</data>`);
+    }
+    lines.push('    </node>');
+  }
+  for (const edge of graph.edges) {
+    lines.push(`    <edge source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"/>`);
+  }
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+// "Jumper 2021" over a shortened title
+function dotLabel(node: CitationGraphNode): string {
+  const author = node.authors[0]?.split(/\s+/).pop();
+  const title = node.title.length > 40 ? `${node.title.slice(0, 40).trimEnd()}...` : node.title;
+  const heading = [author && (node.authors.length > 1 ? `${author} et al.` : author), node.year].filter(Boolean).join(' ');
+  return heading ? `${heading}\n${title}` : title;
+}
+
+export function citationGraphToDot(graph: CitationGraph): string {
+  const lines = [
+    'digraph citations {',
+    '  rankdir=LR;',
+    '  node [shape=box, fontsize=10];',
+  ];
+  for (const node of graph.nodes) {
+    const attributes = [`label="${escapeDot(dotLabel(node))}"`];
+    if (node.anchor) attributes.push('peripheries=2', 'style=bold');
+    if (node.url) attributes.push(`URL="${escapeDot(node.url)}"`);
+    lines.push(`  "${escapeDot(node.id)}" [${attributes.join(', ')}];`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  "${escapeDot(edge.source)}" -> "${escapeDot(edge.target)}";`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+export function serializeCitationGraph(graph: CitationGraph, format: CitationGraphFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({
+        provider: graph.provider,
+        anchors: graph.anchors,
+        nodes: graph.nodes,
+        edges: graph.edges,
+        coCitations: graph.coCitations,
+        truncated: graph.truncated,
+      }, null, 2);
+    case 'graphml':
+      return citationGraphToGraphml(graph);
+    case 'dot':
+      return citationGraphToDot(graph);
+    default:
+      throw new Error(`Unknown graph format "${format}". Use ${CITATION_GRAPH_FORMATS.join(', ')}.`);
+  }
+}
@@ -0,0 +1,1043 @@
+// Citation formatting for the styles research writing asks for most. Items use
+// the CSL-JSON data model, so records from Crossref, Zotero or BibTeX converters
+// can be passed through unchanged.
+
+export type CitationStyleId = 'apa' | 'mla' | 'chicago-notes' | 'chicago-author-date' | 'ieee' | 'harvard' | 'vancouver';
+
+export const CITATION_STYLES: CitationStyleId[] = ['apa', 'mla', 'chicago-notes', 'chicago-author-date', 'ieee', 'harvard', 'vancouver'];
+
+// Wikipedia articles are 'entry-encyclopedia' items whose container is Wikipedia
+export type CitationItemType =
+  | 'article-journal' | 'book' | 'chapter' | 'paper-conference' | 'report' | 'thesis' | 'webpage' | 'entry-encyclopedia' | 'document';
+
+export const CITATION_ITEM_TYPES: CitationItemType[] = [
+  'article-journal', 'book', 'chapter', 'paper-conference', 'report', 'thesis', 'webpage', 'entry-encyclopedia', 'document',
+];
+
+// Item types with a layout of their own; the others borrow the closest one
+type LayoutType = 'article-journal' | 'book' | 'chapter' | 'webpage' | 'entry-encyclopedia';
+
+const LAYOUT_TYPES: LayoutType[] = ['article-journal', 'book', 'chapter', 'webpage', 'entry-encyclopedia'];
+
+export interface CslName {
+  family?: string;
+  given?: string;
+  suffix?: string;
+  // "van" in "Vincent van Gogh": kept with the family name
+  'non-dropping-particle'?: string;
+  // Organizations and other names that must not be split
+  literal?: string;
+}
+
+export interface CslDate {
+  'date-parts'?: (number | string)[][];
+  literal?: string;
+}
+
+export interface CitationItem {
+  id?: string;
+  type: CitationItemType;
+  title: string;
+  author?: CslName[];
+  editor?: CslName[];
+  'container-title'?: string;
+  publisher?: string;
+  'publisher-place'?: string;
+  issued?: CslDate;
+  accessed?: CslDate;
+  volume?: string | number;
+  issue?: string | number;
+  page?: string;
+  edition?: string | number;
+  DOI?: string;
+  URL?: string;
+  ISBN?: string;
+  ISSN?: string;
+  // Report number, or any number that is not a journal issue
+  number?: string | number;
+  // Kind of thesis or report, e.g. "PhD thesis"
+  genre?: string;
+  // Book or report series
+  'collection-title'?: string;
+  language?: string;
+  abstract?: string;
+  // Comma-separated
+  keyword?: string;
+  note?: string;
+}
+
+export interface FormattedCitation {
+  style: CitationStyleId;
+  // Reference list / bibliography entry
+  citation: string;
+  // The same entry with titles in *italics*
+  markdown: string;
+  // Parenthetical or numeric in-text citation; the short note for Chicago notes
+  inText: string;
+  // Chicago notes only: the full first note
+  note?: string;
+  shortNote?: string;
+  warnings: string[];
+}
+
+export interface CitationOptions {
+  // Position in the reference list, for IEEE and Vancouver
+  number?: number;
+}
+
+const STYLE_ALIASES: Record<string, CitationStyleId> = {
+  apa: 'apa', apa7: 'apa',
+  mla: 'mla', mla9: 'mla',
+  chicago: 'chicago-notes', 'chicago-notes': 'chicago-notes', 'chicago-author-date': 'chicago-author-date',
+  ieee: 'ieee',
+  harvard: 'harvard',
+  vancouver: 'vancouver',
+};
+
+export function resolveCitationStyle(name: string): CitationStyleId {
+  const style = STYLE_ALIASES[name.trim().toLowerCase()];
+  if (!style) {
+    throw new Error(`Unknown citation style "${name}". Available styles: ${CITATION_STYLES.join(', ')}`);
+  }
+  return style;
+}
+
+// Names
+const NAME_SUFFIX = /^(?:jr|sr|ii|iii|iv|v)\.?$/i;
+const NAME_PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'di', 'du', 'dos', 'das', 'la', 'le', 'ter', 'ten', 'bin', 'ibn', 'al']);
+const ORGANIZATION = /\b(?:association|organi[sz]ation|university|institute|foundation|society|committee|council|agency|department|ministry|office|bureau|inc|ltd|llc|corporation|company|group|centre|center|commission|board|consortium|network|contributors|collaboration|project)\b/i;
+
+function withParticle(family: string, given: string, suffix?: string): CslName {
+  const words = family.split(' ');
+  let split = 0;
+  while (split < words.length - 1 && NAME_PARTICLES.has(words[split])) split++;
+  return {
+    family: words.slice(split).join(' '),
+    ...(given ? { given } : {}),
+    ...(suffix ? { suffix } : {}),
+    ...(split > 0 ? { 'non-dropping-particle': words.slice(0, split).join(' ') } : {}),
+  };
+}
+
+/**
+ * Parse a personal name written as "Given Family" or "Family, Given".
+ * Names in braces ("{World Health Organization}") and names that look like
+ * organizations are kept whole.
+ */
+export function parseName(raw: string): CslName {
+  const name = raw.replace(/\s+/g, ' ').trim();
+  if (/^\{.*\}$/.test(name)) return { literal: name.slice(1, -1).trim() };
+  if (ORGANIZATION.test(name)) return { literal: name };
+
+  const parts = name.split(',').map(part => part.trim()).filter(Boolean);
+  const suffixes = parts.slice(1).filter(part => NAME_SUFFIX.test(part));
+  // "Family, Given" and "Family, Given, Jr."; "Given Family, Jr." only has a suffix after the comma
+  if (parts.length > 1 && suffixes.length < parts.length - 1) {
+    const given = parts.slice(1).filter(part => !NAME_SUFFIX.test(part)).join(' ');
+    return withParticle(parts[0], given, suffixes[0]);
+  }
+
+  const words = parts[0].split(' ');
+  let suffix: string | undefined = suffixes[0];
+  if (!suffix && words.length > 2 && NAME_SUFFIX.test(words[words.length - 1])) suffix = words.pop();
+  if (words.length === 1) return { family: words[0], ...(suffix ? { suffix } : {}) };
+
+  let familyStart = words.length - 1;
+  while (familyStart > 1 && NAME_PARTICLES.has(words[familyStart - 1])) familyStart--;
+  return withParticle(words.slice(familyStart).join(' '), words.slice(0, familyStart).join(' '), suffix);
+}
+
+function familyName(name: CslName): string {
+  return name.literal ?? [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+}
+
+function initials(given: string | undefined, { periods = true, spaced = true, hyphens = true } = {}): string {
+  if (!given) return '';
+  return given.split(/\s+/).filter(Boolean).map(word =>
+    word.split('-').filter(Boolean).map(part => `${part[0].toUpperCase()}${periods ? '.' : ''}`).join(hyphens ? '-' : '')
+  ).join(spaced ? ' ' : '');
+}
+
+// "Family, Given" with the suffix after a comma
+function invertedFull(name: CslName): string {
+  if (name.literal) return name.literal;
+  return [familyName(name), name.given, name.suffix].filter(Boolean).join(', ');
+}
+
+function naturalFull(name: CslName): string {
+  if (name.literal) return name.literal;
+  return `${[name.given, familyName(name)].filter(Boolean).join(' ')}${name.suffix ? `, ${name.suffix}` : ''}`;
+}
+
+function naturalInitials(name: CslName): string {
+  if (name.literal) return name.literal;
+  return [initials(name.given), familyName(name), name.suffix].filter(Boolean).join(' ');
+}
+
+// "A", "A and B", "A, B, and C" (serialComma) or "A, B and C"
+function joinNames(names: string[], conjunction: string, serialComma = true): string {
+  if (names.length <= 1) return names.join('');
+  if (names.length === 2) return `${names[0]} ${conjunction} ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}${serialComma ? ',' : ''} ${conjunction} ${names[names.length - 1]}`;
+}
+
+// Dates, pages, identifiers
+interface DateParts {
+  year?: number;
+  month?: number;
+  day?: number;
+  literal?: string;
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const MLA_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+const IEEE_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'Jun.', 'Jul.', 'Aug.', 'Sep.', 'Oct.', 'Nov.', 'Dec.'];
+const NLM_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * A CSL date from a year, "2020-03", "2020-03-04", an ISO date-time or any date Date.parse understands.
+ */
+export function parseDate(value: string | number | undefined): CslDate | undefined {
+  if (value === undefined || value === '') return undefined;
+  const text = String(value).trim();
+  const iso = text.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?(?:T.*)?$/);
+  if (iso) return { 'date-parts': [iso.slice(1).filter(Boolean).map(Number)] };
+  const parsed = Date.parse(text);
+  if (!Number.isNaN(parsed)) {
+    const date = new Date(parsed);
+    return { 'date-parts': [[date.getFullYear(), date.getMonth() + 1, date.getDate()]] };
+  }
+  return { literal: text };
+}
+
+function dateParts(date: CslDate | undefined): DateParts | undefined {
+  const parts = date?.['date-parts']?.[0]?.map(Number);
+  if (parts && Number.isFinite(parts[0])) {
+    return { year: parts[0], month: parts[1] || undefined, day: parts[2] || undefined };
+  }
+  return date?.literal ? { literal: date.literal } : undefined;
+}
+
+/**
+ * Bare DOI ("10.1000/xyz") from a DOI, "doi:" string or doi.org URL.
+ */
+export function normalizeDoi(value: string | undefined): string | undefined {
+  const match = value?.trim().match(/(10\.\d{4,9}\/\S+)$/);
+  return match ? match[1].replace(/[.,;]$/, '') : undefined;
+}
+
+function pageRange(page: string, dash = '–'): string {
+  return page.replace(/(\w)\s*[-–—]+\s*(\w)/g, `$1${dash}$2`);
+}
+
+// NLM elides repeated leading digits: 123-129 becomes 123-9
+function elidedPageRange(page: string): string {
+  return page.replace(/(\d+)\s*[-–—]+\s*(\d+)/g, (_match, start: string, end: string) => {
+    if (start.length !== end.length) return `${start}-${end}`;
+    let common = 0;
+    while (common < end.length - 1 && start[common] === end[common]) common++;
+    return `${start}-${end.slice(common)}`;
+  });
+}
+
+function isPageRange(page: string): boolean {
+  return /[-–—,]/.test(page);
+}
+
+function ordinal(value: number): string {
+  const suffix = value % 100 >= 11 && value % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][value % 10] ?? 'th';
+  return `${value}${suffix}`;
+}
+
+// "2nd ed." for numbered editions, first editions are omitted
+function editionLabel(edition: string | number | undefined, abbreviation = 'ed.'): string | undefined {
+  if (edition === undefined || edition === '') return undefined;
+  const number = Number(String(edition).replace(/(?:st|nd|rd|th)$/i, ''));
+  if (Number.isInteger(number)) return number > 1 ? `${ordinal(number)} ${abbreviation}` : undefined;
+  return /\bed(?:ition|n)?\.?$/i.test(String(edition)) ? String(edition) : `${edition} ${abbreviation}`;
+}
+
+// Loose input, as tools receive it
+export interface CitationFields {
+  type?: CitationItemType;
+  title: string;
+  // "Given Family", "Family, Given", "{Organization}" or CSL name objects
+  authors?: (string | CslName)[];
+  editors?: (string | CslName)[];
+  date?: string;
+  year?: number;
+  // Journal, book (for chapters), website or encyclopedia
+  source?: string;
+  publisher?: string;
+  place?: string;
+  volume?: string | number;
+  issue?: string | number;
+  pages?: string;
+  edition?: string | number;
+  doi?: string;
+  isbn?: string;
+  url?: string;
+  accessed?: string;
+}
+
+function toNames(names: (string | CslName)[] | undefined): CslName[] | undefined {
+  return names?.length ? names.map(name => typeof name === 'string' ? parseName(name) : name) : undefined;
+}
+
+/**
+ * Build a CSL-JSON item from loose fields. The item type is inferred when it
+ * is missing: journal details mean an article, a URL a web page, otherwise a book.
+ * Online sources get today's date as their access date.
+ */
+export function buildCitationItem(fields: CitationFields, today = new Date()): CitationItem {
+  const isJournal = Boolean(fields.volume || fields.issue || (fields.doi && fields.source));
+  const type = fields.type ?? (isJournal ? 'article-journal' : fields.url ? 'webpage' : fields.source && fields.pages ? 'chapter' : 'book');
+  const online = type === 'webpage' || type === 'entry-encyclopedia';
+  const accessed = fields.accessed ?? (online ? today.toISOString().slice(0, 10) : undefined);
+  const item: CitationItem = {
+    type,
+    title: fields.title,
+    author: toNames(fields.authors),
+    editor: toNames(fields.editors),
+    'container-title': fields.source,
+    publisher: fields.publisher,
+    'publisher-place': fields.place,
+    issued: parseDate(fields.date ?? fields.year),
+    accessed: parseDate(accessed),
+    volume: fields.volume,
+    issue: fields.issue,
+    page: fields.pages,
+    edition: fields.edition,
+    DOI: normalizeDoi(fields.doi),
+    ISBN: fields.isbn,
+    URL: fields.url,
+  };
+  return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined && value !== '')) as unknown as CitationItem;
+}
+
+// Italic spans are marked while building and rendered as *markdown* or plain text at the end
+const ITALIC_START = '\u0001';
+const ITALIC_END = '\u0002';
+
+function italic(text: string | undefined): string | undefined {
+  return text ? `${ITALIC_START}${text}${ITALIC_END}` : undefined;
+}
+
+function endsWithPunctuation(text: string): boolean {
+  return /[.?!]$/.test(text.replace(new RegExp(`[${ITALIC_START}${ITALIC_END}"'”’]+$`), ''));
+}
+
+// Append punctuation unless the text already ends a sentence ("Why?." becomes "Why?")
+function close(text: string | undefined, mark = '.'): string | undefined {
+  if (!text) return undefined;
+  return mark === '.' && endsWithPunctuation(text) ? text : `${text}${mark}`;
+}
+
+// Quoted title with the punctuation inside the quotes, as American styles want
+function quoted(title: string, mark = ''): string {
+  const ending = mark && !endsWithPunctuation(title) ? mark : '';
+  return `“${title}${ending}”`;
+}
+
+function sentence(...parts: (string | undefined | false)[]): string {
+  return parts.filter(Boolean).join(' ');
+}
+
+function render(text: string, markdown: boolean): string {
+  const tidy = text
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;:])/g, '$1')
+    .replace(/([,;:])(?=[,.])/g, '')
+    .trim();
+  return markdown
+    ? tidy.replace(new RegExp(ITALIC_START, 'g'), '*').replace(new RegExp(ITALIC_END, 'g'), '*')
+    : tidy.replace(new RegExp(`[${ITALIC_START}${ITALIC_END}]`, 'g'), '');
+}
+
+interface Prepared {
+  type: LayoutType;
+  title: string;
+  authors: CslName[];
+  editors: CslName[];
+  container?: string;
+  publisher?: string;
+  place?: string;
+  volume?: string;
+  issue?: string;
+  page?: string;
+  edition?: string | number;
+  doi?: string;
+  url?: string;
+  issued?: DateParts;
+  accessed?: DateParts;
+  number: number;
+  isWikipedia: boolean;
+}
+
+function prepare(item: CitationItem, options: CitationOptions): Prepared {
+  if (!item.title?.trim()) throw new Error('A citation needs a title');
+  const isWikipedia = /(^|\.)wikipedia\.org$/i.test(hostOf(item.URL) || '') || /^wikipedia$/i.test(item['container-title'] || '');
+  const type = isWikipedia ? 'entry-encyclopedia' : layoutOf(item);
+  return {
+    type,
+    title: item.title.trim(),
+    authors: item.author ?? [],
+    editors: item.editor ?? [],
+    container: item['container-title'] || (isWikipedia ? 'Wikipedia' : undefined),
+    publisher: item.publisher,
+    place: item['publisher-place'],
+    volume: item.volume !== undefined ? String(item.volume) : undefined,
+    issue: item.issue !== undefined ? String(item.issue) : undefined,
+    page: item.page,
+    edition: item.edition,
+    doi: normalizeDoi(item.DOI) ?? normalizeDoi(item.URL?.match(/doi\.org\/(.+)$/)?.[1]),
+    url: item.URL,
+    issued: dateParts(item.issued),
+    accessed: dateParts(item.accessed),
+    number: options.number ?? 1,
+    isWikipedia,
+  };
+}
+
+function layoutOf(item: CitationItem): LayoutType {
+  switch (item.type) {
+    case 'paper-conference':
+      return 'chapter';
+    case 'report':
+    case 'thesis':
+      return 'book';
+    case 'document':
+      return item.URL ? 'webpage' : 'book';
+    default:
+      return item.type;
+  }
+}
+
+function hostOf(url: string | undefined): string | undefined {
+  try {
+    return url ? new URL(url).hostname : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function doiUrl(doi: string): string {
+  return `https://doi.org/${doi}`;
+}
+
+// Up to four words of the main title, without a leading article, for short notes and in-text citations
+function shortTitle(title: string, words = 4): string {
+  const split = (title.replace(/[:.?!].+$/, '').trim() || title).split(/\s+/);
+  const start = split.length > 1 && /^(?:a|an|the)$/i.test(split[0]) ? 1 : 0;
+  return split.slice(start, start + words).join(' ');
+}
+
+function year(prepared: Prepared, missing: string): string {
+  return prepared.issued?.year !== undefined ? String(prepared.issued.year) : prepared.issued?.literal ?? missing;
+}
+
+// Surnames for in-text citations: "Smith", "Smith & Jones", "Smith et al."
+function citedNames(authors: CslName[], conjunction: string, maxListed: number, serialComma = true): string {
+  const families = authors.map(familyName);
+  if (families.length > maxListed) return `${families[0]} et al.`;
+  return joinNames(families, conjunction, serialComma);
+}
+
+interface StyleOutput {
+  reference: string;
+  inText: string;
+  note?: string;
+  shortNote?: string;
+}
+
+// APA 7
+function apaName(name: CslName): string {
+  if (name.literal) return name.literal;
+  const given = initials(name.given);
+  return [familyName(name), given, name.suffix].filter(Boolean).join(', ');
+}
+
+function apaAuthors(authors: CslName[]): string {
+  const names = authors.map(apaName);
+  // 21 or more authors: the first 19, an ellipsis, then the last
+  if (names.length > 20) return `${names.slice(0, 19).join(', ')}, … ${names[names.length - 1]}`;
+  if (names.length === 2) return `${names[0]}, & ${names[1]}`;
+  return joinNames(names, '&');
+}
+
+function apaDate(prepared: Prepared, withDay: boolean): string {
+  const date = prepared.issued;
+  if (!date?.year) return date?.literal ?? 'n.d.';
+  if (!withDay || !date.month) return String(date.year);
+  return `${date.year}, ${MONTHS[date.month - 1]}${date.day ? ` ${date.day}` : ''}`;
+}
+
+function longDate(date: DateParts | undefined): string | undefined {
+  if (!date) return undefined;
+  if (!date.year) return date.literal;
+  if (!date.month) return String(date.year);
+  return `${MONTHS[date.month - 1]}${date.day ? ` ${date.day},` : ''} ${date.year}`;
+}
+
+function formatApa(p: Prepared): StyleOutput {
+  const link = p.doi ? doiUrl(p.doi) : p.url;
+  const web = p.type === 'webpage' || p.type === 'entry-encyclopedia';
+  const date = `(${apaDate(p, web)}).`;
+  // Pages designed to change get a retrieval date
+  const retrieved = p.url && p.accessed && (p.type === 'entry-encyclopedia' || (p.type === 'webpage' && !p.issued))
+    ? `Retrieved ${longDate(p.accessed)}, from ${p.url}`
+    : link;
+  const pages = p.page ? pageRange(p.page) : undefined;
+  const italicTitle = p.type === 'book' || p.type === 'webpage';
+  const title = close(italicTitle ? `${italic(p.title)}${p.type === 'book' && editionLabel(p.edition) ? ` (${editionLabel(p.edition)})` : ''}` : p.title);
+
+  let source: string | undefined;
+  switch (p.type) {
+    case 'article-journal':
+      source = close(`${italic(p.container) ?? ''}${p.volume ? `, ${italic(p.volume)}` : ''}${p.issue ? `(${p.issue})` : ''}${pages ? `, ${pages}` : ''}`);
+      break;
+    case 'book':
+      source = close(p.publisher);
+      break;
+    case 'chapter': {
+      const editors = p.editors.length > 0 ? `${joinNames(p.editors.map(naturalInitials), '&')} (${p.editors.length > 1 ? 'Eds.' : 'Ed.'}), ` : '';
+      source = sentence(close(`In ${editors}${italic(p.container) ?? ''}${pages ? ` (${isPageRange(p.page!) ? 'pp.' : 'p.'} ${pages})` : ''}`), close(p.publisher));
+      break;
+    }
+    case 'webpage':
+      // The site name is left out when the site is also the author
+      source = p.container && !p.authors.some(author => author.literal === p.container) ? close(p.container) : undefined;
+      break;
+    case 'entry-encyclopedia':
+      source = close(`In ${italic(p.container) ?? ''}`);
+      break;
+  }
+
+  // Without authors the title moves into the author position
+  const reference = p.authors.length > 0
+    ? sentence(close(apaAuthors(p.authors)), date, title, source, retrieved)
+    : sentence(title, date, source, retrieved);
+
+  const citedTitle = italicTitle ? `${italic(shortTitle(p.title))},` : quoted(shortTitle(p.title), ',');
+  const who = p.authors.length > 0 ? `${citedNames(p.authors, '&', 2)},` : citedTitle;
+  return { reference, inText: `(${who} ${apaDate(p, false)})` };
+}
+
+// MLA 9
+function mlaAuthors(authors: CslName[]): string {
+  if (authors.length === 0) return '';
+  if (authors.length === 1) return invertedFull(authors[0]);
+  if (authors.length === 2) return `${invertedFull(authors[0])}, and ${naturalFull(authors[1])}`;
+  return `${invertedFull(authors[0])}, et al.`;
+}
+
+function mlaDate(date: DateParts | undefined): string | undefined {
+  if (!date) return undefined;
+  if (!date.year) return date.literal;
+  return [date.day, date.month ? MLA_MONTHS[date.month - 1] : undefined, date.year].filter(Boolean).join(' ');
+}
+
+function formatMla(p: Prepared): StyleOutput {
+  const link = p.doi ? doiUrl(p.doi) : p.url?.replace(/^https?:\/\//, '');
+  const pages = p.page ? `${isPageRange(p.page) ? 'pp.' : 'p.'} ${pageRange(p.page)}` : undefined;
+  const isBook = p.type === 'book';
+  const title = isBook ? close(italic(p.title)) : quoted(p.title, '.');
+  const editors = p.editors.length > 0
+    ? `edited by ${p.editors.length > 2 ? `${naturalFull(p.editors[0])} et al.` : joinNames(p.editors.map(naturalFull), 'and')}`
+    : undefined;
+  const publisher = p.publisher && p.publisher !== p.container ? p.publisher : undefined;
+  const web = p.type === 'webpage' || p.type === 'entry-encyclopedia';
+
+  // MLA's container: its elements separated by commas, ending in a period
+  const container = [
+    isBook ? undefined : italic(p.container),
+    isBook ? editionLabel(p.edition) : undefined,
+    p.type === 'chapter' ? editors : undefined,
+    p.volume ? `vol. ${p.volume}` : undefined,
+    p.issue ? `no. ${p.issue}` : undefined,
+    publisher,
+    mlaDate(p.issued),
+    pages,
+    link,
+  ].filter(Boolean).join(', ');
+  const accessed = web && p.accessed ? `Accessed ${mlaDate(p.accessed)}.` : undefined;
+
+  const reference = sentence(close(mlaAuthors(p.authors)), title, close(container), accessed);
+  const citedTitle = isBook ? italic(shortTitle(p.title)) : quoted(shortTitle(p.title));
+  const who = p.authors.length > 0 ? citedNames(p.authors, 'and', 2) : citedTitle!;
+  return { reference, inText: `(${who})` };
+}
+
+// Chicago (17th edition): notes and bibliography, author-date
+function chicagoBibliographyAuthors(authors: CslName[]): string {
+  if (authors.length === 0) return '';
+  // 11 or more authors: the first seven followed by et al.
+  const listed = authors.length > 10 ? authors.slice(0, 7) : authors;
+  const names = listed.map((author, index) => index === 0 ? invertedFull(author) : naturalFull(author));
+  if (authors.length > 10) return `${names.join(', ')}, et al.`;
+  return names.length === 2 ? `${names[0]}, and ${names[1]}` : joinNames(names, 'and');
+}
+
+function chicagoNoteAuthors(authors: CslName[]): string {
+  if (authors.length > 3) return `${naturalFull(authors[0])} et al.`;
+  return joinNames(authors.map(naturalFull), 'and');
+}
+
+function chicagoEditors(editors: CslName[]): string {
+  return joinNames(editors.map(naturalFull), 'and');
+}
+
+function chicagoPublication(p: Prepared, withYear: boolean): string | undefined {
+  const publisher = [p.place, p.publisher].filter(Boolean).join(': ');
+  const year = withYear && p.issued?.year ? String(p.issued.year) : undefined;
+  return [publisher, year].filter(Boolean).join(', ') || undefined;
+}
+
+function formatChicagoNotes(p: Prepared): StyleOutput {
+  const link = p.doi ? doiUrl(p.doi) : p.url;
+  const pages = p.page ? pageRange(p.page) : undefined;
+  const edition = editionLabel(p.edition);
+  const isBook = p.type === 'book';
+  const journalDate = p.issued?.year ? `(${p.issued.month ? `${MONTHS[p.issued.month - 1]} ` : ''}${p.issued.year})` : undefined;
+  const webDate = p.issued ? longDate(p.issued) : p.accessed ? `accessed ${longDate(p.accessed)}` : undefined;
+  const capitalized = (text?: string) => text && `${text[0].toUpperCase()}${text.slice(1)}`;
+  let reference: string;
+  let note: string;
+
+  switch (p.type) {
+    case 'article-journal': {
+      const issue = `${italic(p.container) ?? ''}${p.volume ? ` ${p.volume}` : ''}${p.issue ? `, no. ${p.issue}` : ''}`;
+      reference = sentence(close(chicagoBibliographyAuthors(p.authors)), quoted(p.title, '.'), close(`${issue}${journalDate ? ` ${journalDate}` : ''}${pages ? `: ${pages}` : ''}`), close(link));
+      note = `${[chicagoNoteAuthors(p.authors), quoted(p.title, ',')].filter(Boolean).join(', ')} ${issue}${journalDate ? ` ${journalDate}` : ''}${pages ? `: ${pages}` : ''}${link ? `, ${link}` : ''}.`;
+      break;
+    }
+    case 'book': {
+      const publication = chicagoPublication(p, true);
+      reference = sentence(close(chicagoBibliographyAuthors(p.authors)), close(italic(p.title)), close(edition), close(publication), close(link));
+      note = `${[chicagoNoteAuthors(p.authors), italic(p.title), edition].filter(Boolean).join(', ')}${publication ? ` (${publication})` : ''}${link ? `, ${link}` : ''}.`;
+      break;
+    }
+    case 'chapter': {
+      const publication = chicagoPublication(p, true);
+      const editors = p.editors.length > 0 ? chicagoEditors(p.editors) : undefined;
+      reference = sentence(
+        close(chicagoBibliographyAuthors(p.authors)),
+        quoted(p.title, '.'),
+        close(`In ${[italic(p.container), editors && `edited by ${editors}`, pages].filter(Boolean).join(', ')}`),
+        close(publication),
+        close(link),
+      );
+      note = `${[chicagoNoteAuthors(p.authors), quoted(p.title, ',')].filter(Boolean).join(', ')} in ${[italic(p.container), editors && `ed. ${editors}`].filter(Boolean).join(', ')}${publication ? ` (${publication})` : ''}${pages ? `, ${pages}` : ''}${link ? `, ${link}` : ''}.`;
+      break;
+    }
+    case 'entry-encyclopedia': {
+      const modified = p.issued ? `last modified ${longDate(p.issued)}` : webDate;
+      reference = sentence(close(italic(p.container)), quoted(p.title, '.'), close(capitalized(modified)), close(link));
+      note = `${italic(p.container)}, s.v. ${quoted(p.title, ',')} ${[modified, link].filter(Boolean).join(', ')}.`;
+      break;
+    }
+    default: {
+      reference = sentence(close(chicagoBibliographyAuthors(p.authors)), quoted(p.title, '.'), close(p.container), close(capitalized(webDate)), close(link));
+      note = `${[chicagoNoteAuthors(p.authors), quoted(p.title, ',')].filter(Boolean).join(', ')} ${[p.container, webDate, link].filter(Boolean).join(', ')}.`;
+    }
+  }
+
+  const families = p.authors.length > 3 ? `${familyName(p.authors[0])} et al.` : joinNames(p.authors.map(familyName), 'and');
+  const titleShort = isBook ? close(italic(shortTitle(p.title))) : quoted(shortTitle(p.title), '.');
+  const shortNote = [p.type === 'entry-encyclopedia' ? undefined : families, titleShort].filter(Boolean).join(', ');
+  return { reference, inText: render(shortNote, false), note, shortNote };
+}
+
+function formatChicagoAuthorDate(p: Prepared): StyleOutput {
+  const link = p.doi ? doiUrl(p.doi) : p.url;
+  const pages = p.page ? pageRange(p.page) : undefined;
+  const date = year(p, 'n.d.');
+  const monthDay = p.issued?.month ? `${MONTHS[p.issued.month - 1]}${p.issued.day ? ` ${p.issued.day}` : ''}` : undefined;
+  const webDate = monthDay ?? (p.accessed ? `Accessed ${longDate(p.accessed)}` : undefined);
+  const isBook = p.type === 'book';
+  const title = isBook ? close(italic(p.title)) : quoted(p.title, '.');
+
+  let rest: (string | undefined)[];
+  switch (p.type) {
+    case 'article-journal':
+      rest = [close(`${italic(p.container) ?? ''}${p.volume ? ` ${p.volume}` : ''}${p.issue ? ` (${p.issue})` : ''}${pages ? `: ${pages}` : ''}`)];
+      break;
+    case 'book':
+      rest = [close(editionLabel(p.edition)), close(chicagoPublication(p, false))];
+      break;
+    case 'chapter':
+      rest = [
+        close(`In ${[italic(p.container), p.editors.length > 0 && `edited by ${chicagoEditors(p.editors)}`, pages].filter(Boolean).join(', ')}`),
+        close(chicagoPublication(p, false)),
+      ];
+      break;
+    case 'entry-encyclopedia':
+      rest = [close(monthDay ? `Last modified ${monthDay}` : webDate)];
+      break;
+    default:
+      rest = [close(p.container), close(webDate)];
+  }
+
+  // Without authors, the title (or the encyclopedia) leads the entry
+  const lead = p.authors.length > 0 ? close(chicagoBibliographyAuthors(p.authors))
+    : p.type === 'entry-encyclopedia' ? close(italic(p.container)) : title;
+  const reference = sentence(lead, close(date), lead === title ? undefined : title, ...rest, close(link));
+  const who = p.authors.length > 0 ? citedNames(p.authors, 'and', 3)
+    : p.type === 'entry-encyclopedia' ? italic(p.container)! : isBook ? italic(shortTitle(p.title))! : quoted(shortTitle(p.title));
+  return { reference, inText: `(${who} ${date})` };
+}
+
+// IEEE
+function ieeeAuthors(authors: CslName[]): string {
+  if (authors.length > 6) return `${naturalInitials(authors[0])} et al.`;
+  return joinNames(authors.map(naturalInitials), 'and');
+}
+
+function ieeeDate(date: DateParts | undefined, withDay = false): string | undefined {
+  if (!date) return undefined;
+  if (!date.year) return date.literal;
+  if (!date.month) return String(date.year);
+  return withDay && date.day ? `${IEEE_MONTHS[date.month - 1]} ${date.day}, ${date.year}` : `${IEEE_MONTHS[date.month - 1]} ${date.year}`;
+}
+
+function formatIeee(p: Prepared): StyleOutput {
+  const authors = ieeeAuthors(p.authors);
+  const pages = p.page ? `${isPageRange(p.page) ? 'pp.' : 'p.'} ${pageRange(p.page)}` : undefined;
+  const online = p.doi ? `doi: ${p.doi}.` : p.url ? `[Online]. Available: ${p.url}` : undefined;
+  const publication = [p.place, p.publisher].filter(Boolean).join(': ');
+  let body: string;
+
+  switch (p.type) {
+    case 'article-journal': {
+      const details = [italic(p.container), p.volume && `vol. ${p.volume}`, p.issue && `no. ${p.issue}`, pages, ieeeDate(p.issued)].filter(Boolean).join(', ');
+      body = sentence(`${[authors, quoted(p.title, ',')].filter(Boolean).join(', ')}`, close(details), online);
+      break;
+    }
+    case 'book': {
+      const head = [authors, italic(p.title), editionLabel(p.edition)].filter(Boolean).join(', ');
+      body = sentence(close(head), close([publication, p.issued?.year].filter(Boolean).join(', ')), p.doi ? online : undefined);
+      break;
+    }
+    case 'chapter': {
+      const editors = p.editors.length > 0 ? `${ieeeAuthors(p.editors)}, ${p.editors.length > 1 ? 'Eds' : 'Ed'}` : undefined;
+      const head = `${[authors, quoted(p.title, ',')].filter(Boolean).join(', ')} in ${[italic(p.container), editors].filter(Boolean).join(', ')}`;
+      body = sentence(close(head), close([publication, p.issued?.year, pages].filter(Boolean).join(', ')), p.doi ? online : undefined);
+      break;
+    }
+    default: {
+      // Online sources: author, title and site close with periods, then the URL and access date
+      const accessed = p.accessed ? ` (accessed ${ieeeDate(p.accessed, true)})` : '';
+      body = sentence(close(authors), quoted(p.title, '.'), close(p.type === 'entry-encyclopedia' ? italic(p.container) : p.container), p.url ? `${p.url}${accessed}.` : undefined);
+    }
+  }
+  return { reference: `[${p.number}] ${body}`, inText: `[${p.number}]` };
+}
+
+// Harvard (Cite Them Right)
+function harvardName(name: CslName): string {
+  if (name.literal) return name.literal;
+  const given = initials(name.given, { spaced: false });
+  return `${familyName(name)}${given ? `, ${given}` : ''}${name.suffix ? ` ${name.suffix}` : ''}`;
+}
+
+function harvardAuthors(authors: CslName[]): string {
+  if (authors.length > 3) return `${harvardName(authors[0])} et al.`;
+  return joinNames(authors.map(harvardName), 'and', false);
+}
+
+function harvardDate(date: DateParts | undefined): string | undefined {
+  if (!date) return undefined;
+  if (!date.year) return date.literal;
+  return [date.day, date.month ? MONTHS[date.month - 1] : undefined, date.year].filter(Boolean).join(' ');
+}
+
+function formatHarvard(p: Prepared): StyleOutput {
+  const date = `(${year(p, 'no date')})`;
+  const pages = p.page ? `${isPageRange(p.page) ? 'pp.' : 'p.'} ${pageRange(p.page)}` : undefined;
+  const accessed = p.accessed ? ` (Accessed: ${harvardDate(p.accessed)})` : '';
+  const available = p.doi ? `Available at: ${doiUrl(p.doi)}.` : p.url ? `Available at: ${p.url}${accessed}.` : undefined;
+  const publication = [p.place, p.publisher].filter(Boolean).join(': ');
+  const single = `‘${p.title}’`;
+  let head: string;
+  let rest: (string | undefined)[];
+
+  switch (p.type) {
+    case 'article-journal':
+      head = `${single},`;
+      rest = [close([italic(p.container), `${p.volume ?? ''}${p.issue ? `(${p.issue})` : ''}`, pages].filter(Boolean).join(', ')), available];
+      break;
+    case 'book':
+      head = close(italic(p.title))!;
+      rest = [close(editionLabel(p.edition, 'edn.')), close(publication), p.doi || !p.publisher ? available : undefined];
+      break;
+    case 'chapter': {
+      const editors = p.editors.length > 0 ? `${harvardAuthors(p.editors)} (${p.editors.length > 1 ? 'eds' : 'ed.'})` : undefined;
+      head = `${single},`;
+      rest = [close(`in ${[editors, italic(p.container)].filter(Boolean).join(' ')}`), close([publication, pages].filter(Boolean).join(', ')), p.doi ? available : undefined];
+      break;
+    }
+    case 'entry-encyclopedia':
+      head = single;
+      rest = [close(italic(p.container)), available];
+      break;
+    default:
+      head = close(italic(p.title))!;
+      rest = [available];
+  }
+
+  // Encyclopedia entries and items without authors lead with the title
+  const reference = p.authors.length > 0
+    ? sentence(harvardAuthors(p.authors), date, head, ...rest)
+    : sentence(head.replace(/[.,]$/, ''), `${date}.`, ...rest);
+  const who = p.authors.length > 0 ? citedNames(p.authors, 'and', 3, false) : p.type === 'book' || p.type === 'webpage' ? italic(shortTitle(p.title))! : `‘${shortTitle(p.title)}’`;
+  return { reference, inText: `(${who}, ${year(p, 'no date')})` };
+}
+
+// Vancouver (NLM)
+function vancouverName(name: CslName): string {
+  if (name.literal) return name.literal;
+  const given = initials(name.given, { periods: false, spaced: false, hyphens: false });
+  return [familyName(name), given, name.suffix?.replace(/\.$/, '')].filter(Boolean).join(' ');
+}
+
+function vancouverAuthors(authors: CslName[]): string {
+  // More than six authors: the first six followed by et al.
+  const names = authors.slice(0, 6).map(vancouverName);
+  return `${names.join(', ')}${authors.length > 6 ? ', et al' : ''}`;
+}
+
+function vancouverDate(date: DateParts | undefined): string | undefined {
+  if (!date) return undefined;
+  if (!date.year) return date.literal;
+  return [date.year, date.month ? NLM_MONTHS[date.month - 1] : undefined, date.month ? date.day : undefined].filter(Boolean).join(' ');
+}
+
+function formatVancouver(p: Prepared): StyleOutput {
+  const authors = p.authors.length > 0 ? close(vancouverAuthors(p.authors)) : undefined;
+  const pages = p.page ? elidedPageRange(p.page) : undefined;
+  const link = p.doi ? `doi:${p.doi}` : p.url ? `Available from: ${p.url}` : undefined;
+  const publication = [p.place, p.publisher].filter(Boolean).join(': ');
+  const cited = p.accessed ? ` [cited ${vancouverDate(p.accessed)}]` : '';
+  let body: string;
+
+  switch (p.type) {
+    case 'article-journal': {
+      const issue = `${p.issued?.year ?? ''}${p.volume ? `;${p.volume}` : ''}${p.issue ? `(${p.issue})` : ''}${pages ? `:${pages}` : ''}`;
+      body = sentence(authors, close(p.title), close(p.container), close(issue), link);
+      break;
+    }
+    case 'book':
+      body = sentence(authors, close(p.title), close(editionLabel(p.edition)), close([publication, p.issued?.year].filter(Boolean).join('; ')), p.doi ? link : undefined);
+      break;
+    case 'chapter': {
+      const editors = p.editors.length > 0 ? `${vancouverAuthors(p.editors)}, ${p.editors.length > 1 ? 'editors' : 'editor'}.` : undefined;
+      body = sentence(authors, close(p.title), `In:`, editors, close(p.container), close([publication, p.issued?.year].filter(Boolean).join('; ')), pages ? `p. ${pages}.` : undefined, p.doi ? link : undefined);
+      break;
+    }
+    case 'entry-encyclopedia':
+      body = sentence(close(p.title), `In: ${p.container ?? ''} [Internet].`, close(`${[p.publisher, vancouverDate(p.issued)].filter(Boolean).join('; ')}${cited}`), link);
+      break;
+    default:
+      body = sentence(authors, `${p.title} [Internet].`, close(`${[p.container, vancouverDate(p.issued)].filter(Boolean).join('; ')}${cited}`), link);
+  }
+  return { reference: `${p.number}. ${body}`, inText: `(${p.number})` };
+}
+
+const FORMATTERS: Record<CitationStyleId, (prepared: Prepared) => StyleOutput> = {
+  apa: formatApa,
+  mla: formatMla,
+  'chicago-notes': formatChicagoNotes,
+  'chicago-author-date': formatChicagoAuthorDate,
+  ieee: formatIeee,
+  harvard: formatHarvard,
+  vancouver: formatVancouver,
+};
+
+function warningsFor(p: Prepared): string[] {
+  const warnings: string[] = [];
+  if (!p.issued) warnings.push('No publication date; styles that need one show "n.d." or "no date".');
+  if (p.authors.length === 0 && p.type !== 'entry-encyclopedia') warnings.push('No authors; the title leads the entry.');
+  if ((p.type === 'article-journal' || p.type === 'chapter') && !p.container) {
+    warnings.push(`No ${p.type === 'chapter' ? 'book' : 'journal'} title (container-title).`);
+  }
+  if ((p.type === 'book' || p.type === 'chapter') && !p.publisher) warnings.push('No publisher.');
+  if ((p.type === 'webpage' || p.type === 'entry-encyclopedia') && !p.url) warnings.push('Online source without a URL.');
+  return warnings;
+}
+
+export function formatCitation(item: CitationItem, style: CitationStyleId | string, options: CitationOptions = {}): FormattedCitation {
+  const styleId = resolveCitationStyle(style);
+  const prepared = prepare(item, options);
+  const output = FORMATTERS[styleId](prepared);
+  return {
+    style: styleId,
+    citation: render(output.reference, false),
+    markdown: render(output.reference, true),
+    inText: render(output.inText, false),
+    ...(output.note ? { note: render(output.note, false), shortNote: render(output.shortNote ?? '', false) } : {}),
+    warnings: warningsFor(prepared),
+  };
+}
+
+// Style documentation, served as research://citations/styles/{style}
+export interface CitationStyleDescription {
+  id: CitationStyleId;
+  name: string;
+  edition: string;
+  itemTypes: CitationItemType[];
+  authors: { referenceList: string; inText: string };
+  dates: string;
+  doi: string;
+  accessDates: string;
+  inText: string;
+  notes?: string;
+  examples: Record<string, { reference: string; inText: string; note?: string }>;
+}
+
+const STYLE_RULES: Record<CitationStyleId, Omit<CitationStyleDescription, 'id' | 'itemTypes' | 'examples'>> = {
+  apa: {
+    name: 'APA',
+    edition: '7th edition (2020)',
+    authors: {
+      referenceList: 'Family name and initials; all authors up to 20, joined with "&"; 21 or more: the first 19, an ellipsis (…), then the last author',
+      inText: 'One author: (Smith, 2020); two: (Smith & Jones, 2020); three or more: (Smith et al., 2020); no author: the short title',
+    },
+    dates: 'Year in parentheses after the authors; year, month and day for web pages and encyclopedia entries; "n.d." when missing',
+    doi: 'Rendered as https://doi.org/... and replaces the URL',
+    accessDates: '"Retrieved Month Day, Year, from URL" for encyclopedia entries and undated web pages when an access date is given',
+    inText: 'Parenthetical author-date citation',
+  },
+  mla: {
+    name: 'MLA',
+    edition: '9th edition (2021)',
+    authors: {
+      referenceList: 'One author: Family, Given; two: Family, Given, and Given Family; three or more: Family, Given, et al.',
+      inText: '(Smith), (Smith and Jones), (Smith et al.); no author: the short title',
+    },
+    dates: 'Day Month Year with abbreviated months (4 Mar. 2020), as precise as the item date',
+    doi: 'Rendered as https://doi.org/...; URLs are shown without http(s)://',
+    accessDates: '"Accessed Day Month Year." after web pages and encyclopedia entries when an access date is given',
+    inText: 'Parenthetical author citation; add page numbers yourself',
+  },
+  'chicago-notes': {
+    name: 'Chicago notes and bibliography',
+    edition: '17th edition (2017)',
+    authors: {
+      referenceList: 'First author inverted, the rest in natural order, "and" before the last; 11 or more: the first seven followed by et al.',
+      inText: 'Notes list up to three authors; four or more: the first author followed by et al.',
+    },
+    dates: 'Month Day, Year; journal issues show (Month Year) or (Year)',
+    doi: 'Rendered as https://doi.org/... and replaces the URL',
+    accessDates: 'Only for web pages without a publication date ("Accessed Month Day, Year")',
+    inText: 'The short note (author surnames and a title of at most four words)',
+    notes: 'Returns the bibliography entry, the full first note and the short note. Wikipedia entries use "s.v." in notes.',
+  },
+  'chicago-author-date': {
+    name: 'Chicago author-date',
+    edition: '17th edition (2017)',
+    authors: {
+      referenceList: 'First author inverted, the rest in natural order, "and" before the last; 11 or more: the first seven followed by et al.',
+      inText: 'Up to three authors: (Smith, Jones, and Lee 2020); four or more: (Smith et al. 2020)',
+    },
+    dates: 'Year after the authors; web pages add Month Day; "n.d." when missing',
+    doi: 'Rendered as https://doi.org/... and replaces the URL',
+    accessDates: 'Only for web pages without a publication date',
+    inText: 'Parenthetical author-date citation without a comma',
+  },
+  ieee: {
+    name: 'IEEE',
+    edition: 'IEEE Reference Guide (2023)',
+    authors: {
+      referenceList: 'Initials before the family name; up to six authors listed, "and" before the last; seven or more: the first author followed by et al.',
+      inText: 'Bracketed reference number: [1]',
+    },
+    dates: 'Abbreviated month and year (Mar. 2020); access dates as Mon. Day, Year',
+    doi: '"doi: 10..." at the end of the entry; otherwise "[Online]. Available: URL"',
+    accessDates: '"(accessed Mon. Day, Year)" after the URL of online sources',
+    inText: 'Numeric; pass the reference number as "number"',
+  },
+  harvard: {
+    name: 'Harvard',
+    edition: 'Cite Them Right (12th edition)',
+    authors: {
+      referenceList: 'Family name and initials without spaces (Smith, J.A.); up to three authors, "and" before the last; four or more: the first author followed by et al.',
+      inText: '(Smith, 2020), (Smith and Jones, 2020), (Smith, Jones and Lee, 2020), (Smith et al., 2020)',
+    },
+    dates: 'Year in parentheses; "no date" when missing',
+    doi: '"Available at: https://doi.org/..." without an access date',
+    accessDates: '"Available at: URL (Accessed: Day Month Year)" for online sources',
+    inText: 'Parenthetical author-date citation',
+  },
+  vancouver: {
+    name: 'Vancouver',
+    edition: 'Citing Medicine (NLM), 2nd edition',
+    authors: {
+      referenceList: 'Family name and initials without punctuation (Smith JA); up to six authors; seven or more: the first six followed by et al.',
+      inText: 'Reference number in parentheses: (1)',
+    },
+    dates: 'Year for journals and books; Year Mon Day for web pages; page ranges are elided (123-9)',
+    doi: '"doi:10..." at the end of the entry',
+    accessDates: '"[cited Year Mon Day]" for online sources',
+    inText: 'Numeric; pass the reference number as "number"',
+  },
+};
+
+const EXAMPLE_ITEMS: Record<LayoutType, CitationItem> = {
+  'article-journal': {
+    type: 'article-journal',
+    title: 'Highly accurate protein structure prediction with AlphaFold',
+    author: ['John Jumper', 'Richard Evans', 'Alexander Pritzel'].map(parseName),
+    'container-title': 'Nature',
+    volume: 596,
+    issue: 7873,
+    page: '583-589',
+    issued: parseDate('2021-07-15'),
+    DOI: '10.1038/s41586-021-03819-2',
+  },
+  book: {
+    type: 'book',
+    title: 'The Structure of Scientific Revolutions',
+    author: [parseName('Thomas S. Kuhn')],
+    edition: 4,
+    publisher: 'University of Chicago Press',
+    'publisher-place': 'Chicago',
+    issued: parseDate(2012),
+  },
+  chapter: {
+    type: 'chapter',
+    title: 'Thick description: Toward an interpretive theory of culture',
+    author: [parseName('Clifford Geertz')],
+    editor: [parseName('Michael Martin'), parseName('Lee C. McIntyre')],
+    'container-title': 'Readings in the Philosophy of Social Science',
+    publisher: 'MIT Press',
+    'publisher-place': 'Cambridge, MA',
+    page: '213-231',
+    issued: parseDate(1994),
+  },
+  webpage: {
+    type: 'webpage',
+    title: 'Climate change',
+    author: [{ literal: 'World Health Organization' }],
+    'container-title': 'World Health Organization',
+    issued: parseDate('2023-10-12'),
+    accessed: parseDate('2024-03-04'),
+    URL: 'https://www.who.int/news-room/fact-sheets/detail/climate-change-and-health',
+  },
+  'entry-encyclopedia': {
+    type: 'entry-encyclopedia',
+    title: 'Citation',
+    'container-title': 'Wikipedia',
+    issued: parseDate('2024-02-20'),
+    accessed: parseDate('2024-03-04'),
+    URL: 'https://en.wikipedia.org/wiki/Citation',
+  },
+};
+
+export function describeCitationStyle(style: CitationStyleId | string): CitationStyleDescription {
+  const id = resolveCitationStyle(style);
+  const examples = Object.fromEntries(LAYOUT_TYPES.map(type => {
+    const formatted = formatCitation(EXAMPLE_ITEMS[type], id);
+    return [type, { reference: formatted.citation, inText: formatted.inText, ...(formatted.note ? { note: formatted.note } : {}) }];
+  }));
+  return { id, ...STYLE_RULES[id], itemTypes: CITATION_ITEM_TYPES, examples };
+}
@@ -3,6 +3,13 @@ import { z } from 'zod';
 
 dotenv.config();
 
+export const TRANSPORT_MODES = ['stdio', 'http', 'jsonrpc'] as const;
+export type TransportMode = typeof TRANSPORT_MODES[number];
+
+function commaList(value: string): string[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
 // Combined configuration schema for both Google Search and Wikipedia services
 const envSchema = z.object({
   // Google Search Configuration
@@ -16,12 +23,33 @@ const envSchema = z.object({
   ENABLE_DEDUPLICATION: z.coerce.boolean().default(true),
   USER_AGENT: z.string().optional(),
 
+  // Page Fetcher Configuration
+  FETCH_MAX_BYTES: z.coerce.number().default(10 * 1024 * 1024),
+  FETCH_HOST_CONCURRENCY: z.coerce.number().default(2),
+  FETCH_HOST_DELAY_MS: z.coerce.number().default(1000),
+  FETCH_RESPECT_ROBOTS: z.string().default('true').transform(value => value !== 'false'),
+
+  // URL Policy Configuration (comma-separated lists)
+  URL_ALLOWED_SCHEMES: z.string().default('http,https').transform(commaList),
+  URL_ALLOW_DOMAINS: z.string().default('').transform(commaList),
+  URL_DENY_DOMAINS: z.string().default('').transform(commaList),
+  URL_ALLOWED_NETWORKS: z.string().default('').transform(commaList),
+  URL_ALLOW_PRIVATE_NETWORKS: z.string().default('false').transform(value => value === 'true'),
+
+  // Scholarly APIs (Crossref and similar)
+  CONTACT_EMAIL: z.string().email().optional(),
+  ACADEMIC_SEARCH_PROVIDERS: z.string().default('openalex,semanticscholar,arxiv,crossref').transform(commaList),
+  SEMANTIC_SCHOLAR_API_KEY: z.string().optional(),
+
   // Server Configuration
   SERVER_NAME: z.string().default('combined-mcp-server'),
   SERVER_VERSION: z.string().default('1.0.0'),
 
   // General Configuration
   PORT: z.coerce.number().default(3000),
+  MCP_TRANSPORT: z.enum(TRANSPORT_MODES, {
+    errorMap: () => ({ message: `MCP_TRANSPORT must be one of ${TRANSPORT_MODES.map(mode => `"${mode}"`).join(', ')}` }),
+  }).default('stdio'),
   LOG_LEVEL: z.string().default('info'),
   LRU_CACHE_SIZE: z.coerce.number().default(500),
 });
@@ -50,11 +78,41 @@ const config = {
     userAgent: result.data.USER_AGENT,
   },
 
+  // Page fetcher config (extract_content, summaries, URL metadata)
+  fetcher: {
+    // Sent with every page request; robots.txt rules are matched against its first token
+    userAgent: result.data.USER_AGENT,
+    maxBytes: result.data.FETCH_MAX_BYTES,
+    hostConcurrency: result.data.FETCH_HOST_CONCURRENCY,
+    hostDelayMs: result.data.FETCH_HOST_DELAY_MS,
+    respectRobots: result.data.FETCH_RESPECT_ROBOTS,
+  },
+
+  // Which URLs the fetcher may request
+  urlPolicy: {
+    allowedSchemes: result.data.URL_ALLOWED_SCHEMES,
+    allowDomains: result.data.URL_ALLOW_DOMAINS,
+    denyDomains: result.data.URL_DENY_DOMAINS,
+    // CIDRs inside private ranges that may still be fetched, e.g. an intranet wiki
+    allowedNetworks: result.data.URL_ALLOWED_NETWORKS,
+    allowPrivateNetworks: result.data.URL_ALLOW_PRIVATE_NETWORKS,
+  },
+
+  // Scholarly APIs: contact address and academic_search sources
+  scholarly: {
+    // Identifies us to Crossref and similar APIs, which serve identified clients from a faster pool
+    contactEmail: result.data.CONTACT_EMAIL,
+    // Default sources for academic_search: scholarly APIs and/or "web" (site-restricted web search)
+    academicProviders: result.data.ACADEMIC_SEARCH_PROVIDERS,
+    semanticScholarApiKey: result.data.SEMANTIC_SCHOLAR_API_KEY,
+  },
+
   // Server config
   server: {
     name: result.data.SERVER_NAME,
     version: result.data.SERVER_VERSION,
     port: result.data.PORT,
+    transport: result.data.MCP_TRANSPORT,
   },
 
   // General config
@@ -0,0 +1,621 @@
+import * as cheerio from 'cheerio';
+
+export interface ExtractedContent {
+  format: 'html' | 'pdf';
+  title: string;
+  byline?: string;
+  publishedAt?: string;
+  siteName?: string;
+  excerpt?: string;
+  lang?: string;
+  // Main content as markdown: headings, lists, tables, code blocks and links kept
+  markdown: string;
+  // Same content as plain text, one block per paragraph
+  text: string;
+  wordCount: number;
+  // Recovered from PDFs (see pdfExtractor.ts)
+  authors?: string[];
+  abstract?: string;
+  references?: string[];
+  pages?: { number: number; text: string }[];
+}
+
+// The parts of a parsed DOM node the extractor reads
+interface DomNode {
+  type: string;
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: DomNode[];
+  parent?: DomNode | null;
+}
+
+interface RenderContext {
+  base: string;
+  plain: boolean;
+}
+
+// Never content, whatever their score
+const REMOVED_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'svg', 'canvas', 'button', 'input',
+  'select', 'textarea', 'link', 'meta', 'nav', 'aside', 'footer', 'dialog',
+  '[hidden]', '[aria-hidden="true"]', '[role="navigation"]', '[role="complementary"]', '[role="dialog"]',
+  '[role="alert"]', '[role="alertdialog"]', '[role="menu"]', '[role="menubar"]',
+].join(', ');
+
+// Class and id patterns, after Mozilla Readability
+const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const NEGATIVE_CLASS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const BYLINE = /byline|author|dateline|writtenby|p-author/i;
+const HIDDEN_STYLE = /display\s*:\s*none|visibility\s*:\s*hidden/i;
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'center', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+  'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+const HEADINGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+// Elements whose text is scored as a paragraph
+const SCORED_TAGS = new Set(['p', 'pre', 'td', 'section', 'div']);
+// Kept between article paragraphs even though they score low
+const STRUCTURAL_TAGS = new Set(['pre', 'table', 'ul', 'ol', 'dl', 'blockquote', 'figure']);
+const DENSITY_TAGS = new Set([...BLOCK_TAGS, 'a', 'span', 'img']);
+// Containers that are removed when they look like boilerplate
+const CLEANED_TAGS = ['div', 'section', 'header', 'form', 'ul', 'ol', 'table', 'figure'];
+const BREAK = '\u0000';
+
+function isElement(node: DomNode): boolean {
+  return node.type === 'tag' && !!node.name;
+}
+
+function elementChildren(node: DomNode): DomNode[] {
+  return (node.children || []).filter(isElement);
+}
+
+function descendants(node: DomNode, names: Set<string> | string[]): DomNode[] {
+  const wanted = names instanceof Set ? names : new Set(names);
+  const found: DomNode[] = [];
+  const walk = (current: DomNode) => {
+    for (const child of elementChildren(current)) {
+      if (wanted.has(child.name!)) found.push(child);
+      walk(child);
+    }
+  };
+  walk(node);
+  return found;
+}
+
+function hasAncestor(node: DomNode, names: string[]): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.name && names.includes(current.name)) return true;
+  }
+  return false;
+}
+
+function removeNode(node: DomNode): void {
+  const siblings = node.parent?.children;
+  if (siblings) siblings.splice(siblings.indexOf(node), 1);
+  node.parent = null;
+}
+
+function rawText(node: DomNode): string {
+  if (node.type === 'text') return node.data || '';
+  return (node.children || []).map(rawText).join('');
+}
+
+function innerText(node: DomNode): string {
+  return rawText(node).replace(/\s+/g, ' ').trim();
+}
+
+function classAndId(node: DomNode): string {
+  return `${node.attribs?.class || ''} ${node.attribs?.id || ''}`;
+}
+
+function classWeight(node: DomNode): number {
+  let weight = 0;
+  for (const value of [node.attribs?.class, node.attribs?.id]) {
+    if (!value) continue;
+    if (NEGATIVE_CLASS.test(value)) weight -= 25;
+    if (POSITIVE_CLASS.test(value)) weight += 25;
+  }
+  return weight;
+}
+
+// Share of an element's text that sits inside links; navigation blocks score close to 1
+function linkDensity(node: DomNode): number {
+  const length = innerText(node).length;
+  if (length === 0) return 0;
+  const linkLength = descendants(node, ['a']).reduce((sum, link) => {
+    // In-page anchors (footnotes, tables of contents) count for less
+    const weight = (link.attribs?.href || '').startsWith('#') ? 0.3 : 1;
+    return sum + innerText(link).length * weight;
+  }, 0);
+  return linkLength / length;
+}
+
+// Characters of text per element: prose is dense, widgets and menus are not
+function textDensity(node: DomNode): number {
+  const elements = descendants(node, DENSITY_TAGS).length;
+  return innerText(node).length / Math.max(1, elements);
+}
+
+function hasBlockChildren(node: DomNode): boolean {
+  return elementChildren(node).some(child => BLOCK_TAGS.has(child.name!));
+}
+
+function isDataTable(table: DomNode): boolean {
+  const role = table.attribs?.role;
+  if (role === 'presentation' || role === 'none') return false;
+  if (table.attribs?.summary || descendants(table, ['th', 'thead', 'caption']).length > 0) return true;
+  if (descendants(table, ['table']).length > 0) return false;
+  const rows = descendants(table, ['tr']);
+  const columns = Math.max(0, ...rows.map(row => elementChildren(row).length));
+  return rows.length >= 10 || columns > 4 || (rows.length >= 2 && columns >= 2 && rows.length * columns > 10);
+}
+
+function resolveUrl(href: string | undefined, base: string): string | undefined {
+  if (!href || /^(javascript|data|mailto|about):/i.test(href.trim())) return undefined;
+  try {
+    return new URL(href.trim(), base).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function normalizeDate(value: string | undefined): string | undefined {
+  if (!value?.trim()) return undefined;
+  const parsed = Date.parse(value.trim());
+  return Number.isNaN(parsed) ? value.trim() : new Date(parsed).toISOString();
+}
+
+function nameOf(value: any): string | undefined {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (Array.isArray(value)) {
+    const names = value.map(nameOf).filter(Boolean);
+    return names.length > 0 ? names.join(', ') : undefined;
+  }
+  return typeof value.name === 'string' ? value.name.trim() : undefined;
+}
+
+// Article-like JSON-LD nodes, including those inside @graph containers
+function collectArticles(node: any, found: any[]): void {
+  if (!node || typeof node !== 'object') return;
+  if (Array.isArray(node)) {
+    node.forEach(child => collectArticles(child, found));
+    return;
+  }
+  const types = ([] as string[]).concat(node['@type'] || []);
+  if (types.some(type => /Article|BlogPosting|Report|WebPage/.test(type))) found.push(node);
+  if (node['@graph']) collectArticles(node['@graph'], found);
+}
+
+function readJsonLd($: cheerio.CheerioAPI): any {
+  const nodes: any[] = [];
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      collectArticles(JSON.parse($(element).contents().text()), nodes);
+    } catch {
+      // Malformed JSON-LD is common; skip the block
+    }
+  });
+  // Prefer articles over generic web pages
+  return nodes.find(node => !([] as string[]).concat(node['@type']).every(type => type === 'WebPage')) || nodes[0] || {};
+}
+
+function readMetadata($: cheerio.CheerioAPI) {
+  const meta = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = $(`meta[property="${key}"], meta[name="${key}"], meta[itemprop="${key}"]`).first().attr('content');
+      if (value?.trim()) return value.trim();
+    }
+    return undefined;
+  };
+  const jsonLd = readJsonLd($);
+
+  // Page titles often carry the site name: "Headline | Site". Prefer a matching h1.
+  const documentTitle = $('title').first().text().replace(/\s+/g, ' ').trim();
+  const h1 = $('h1').first().text().replace(/\s+/g, ' ').trim();
+  const shortTitle = h1 && documentTitle.includes(h1) && /\s[|\-–—:»]\s/.test(documentTitle) ? h1 : undefined;
+  const title = meta('og:title', 'twitter:title') ||
+    (typeof jsonLd.headline === 'string' ? jsonLd.headline.trim() : undefined) ||
+    shortTitle || documentTitle || h1 || 'No title found';
+
+  const dateElement = $('[itemprop="datePublished"]').first();
+  return {
+    title,
+    byline: meta('author', 'article:author', 'parsely-author', 'dc.creator', 'twitter:creator') || nameOf(jsonLd.author),
+    publishedAt: normalizeDate(
+      meta('article:published_time', 'datePublished', 'pubdate', 'publishdate', 'date', 'dc.date', 'dc.date.issued', 'parsely-pub-date') ||
+      jsonLd.datePublished ||
+      dateElement.attr('content') || dateElement.attr('datetime') ||
+      $('article time[datetime], time[pubdate], time[datetime]').first().attr('datetime')
+    ),
+    siteName: meta('og:site_name', 'application-name') || nameOf(jsonLd.publisher),
+    excerpt: meta('og:description', 'description', 'twitter:description'),
+    lang: $('html').attr('lang') || undefined,
+  };
+}
+
+/**
+ * Strip the byline out of the content, returning its text when metadata had none.
+ */
+function takeByline(root: DomNode): string | undefined {
+  const candidate = descendants(root, new Set([...BLOCK_TAGS, 'span', 'a', 'address'])).find(node => {
+    const marked = node.attribs?.rel === 'author' || node.attribs?.itemprop?.includes('author') || BYLINE.test(classAndId(node));
+    const length = innerText(node).length;
+    return marked && length > 0 && length < 100;
+  });
+  if (!candidate) return undefined;
+  const text = innerText(candidate);
+  removeNode(candidate);
+  return text.replace(/^by\s+/i, '');
+}
+
+// Drop hidden elements, chrome outside the article and unlikely candidates
+function prune(node: DomNode): void {
+  for (const child of elementChildren(node)) {
+    const name = child.name!;
+    const hidden = HIDDEN_STYLE.test(child.attribs?.style || '');
+    const pageHeader = name === 'header' && !hasAncestor(child, ['article', 'main']);
+    const matchString = classAndId(child);
+    const unlikely = UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString) &&
+      !['a', 'body', 'article', 'main', 'table', 'tbody', 'tr', 'td', 'th'].includes(name) &&
+      !hasAncestor(child, ['table', 'pre', 'code']);
+    if (hidden || pageHeader || unlikely) {
+      removeNode(child);
+    } else {
+      prune(child);
+    }
+  }
+}
+
+/**
+ * Score paragraphs and hand their score up to their ancestors, then pick the
+ * best-scoring container adjusted by link density.
+ */
+function findTopCandidate(root: DomNode): { top: DomNode; scores: Map<DomNode, number> } | undefined {
+  const scores = new Map<DomNode, number>();
+  const initialize = (node: DomNode) => {
+    if (scores.has(node)) return;
+    let score = classWeight(node);
+    switch (node.name) {
+      case 'div': score += 5; break;
+      case 'pre': case 'td': case 'blockquote': score += 3; break;
+      case 'address': case 'ol': case 'ul': case 'dl': case 'dd': case 'dt': case 'li': case 'form': score -= 3; break;
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': case 'th': score -= 5; break;
+    }
+    scores.set(node, score);
+  };
+
+  const paragraphs = descendants(root, SCORED_TAGS)
+    .filter(node => !['div', 'section'].includes(node.name!) || !hasBlockChildren(node));
+  for (const paragraph of paragraphs) {
+    const text = innerText(paragraph);
+    if (text.length < 25) continue;
+    const commas = (text.match(/[,，、]/g) || []).length;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+    let level = 0;
+    for (let ancestor = paragraph.parent; ancestor && isElement(ancestor) && level < 5; ancestor = ancestor.parent, level++) {
+      initialize(ancestor);
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+    }
+  }
+
+  let top: DomNode | undefined;
+  let topScore = -Infinity;
+  for (const [node, score] of scores) {
+    const adjusted = score * (1 - linkDensity(node));
+    scores.set(node, adjusted);
+    if (adjusted > topScore) {
+      top = node;
+      topScore = adjusted;
+    }
+  }
+  if (!top) return undefined;
+
+  // A lone child carries the same content as its parent; climb so siblings can be considered
+  while (top.parent && isElement(top.parent) && top.parent.name !== 'body' && elementChildren(top.parent).length === 1) {
+    top = top.parent;
+    scores.set(top, Math.max(scores.get(top) || 0, topScore));
+  }
+  return { top, scores };
+}
+
+// Siblings of the top candidate that belong to the same article
+function gatherContent(top: DomNode, scores: Map<DomNode, number>): DomNode[] {
+  const parent = top.parent;
+  if (!parent || !isElement(parent)) return [top];
+  const topScore = scores.get(top) || 0;
+  const threshold = Math.max(10, topScore * 0.2);
+  const siblings = elementChildren(parent);
+
+  const included = siblings.map(sibling => {
+    if (sibling === top) return true;
+    let score = scores.get(sibling) ?? -Infinity;
+    if (sibling.attribs?.class && sibling.attribs.class === top.attribs?.class) score += topScore * 0.2;
+    if (score >= threshold) return true;
+    if (sibling.name === 'p' || (sibling.name === 'div' && !hasBlockChildren(sibling))) {
+      const text = innerText(sibling);
+      const density = linkDensity(sibling);
+      if (text.length > 80 && density < 0.25) return true;
+      if (text.length > 0 && text.length <= 80 && density === 0 && /\.( |$)/.test(text)) return true;
+    }
+    return false;
+  });
+
+  // Headings introducing included content, and code, lists and tables between
+  // included siblings, are part of the article even though they score low
+  const withStructure = included.map((value, index) => value || (STRUCTURAL_TAGS.has(siblings[index].name!) &&
+    included.slice(0, index).some(Boolean) && included.slice(index + 1).some(Boolean)));
+  return siblings.filter((sibling, index) => {
+    if (withStructure[index]) return true;
+    if (!HEADINGS.has(sibling.name!)) return false;
+    const next = siblings.findIndex((node, position) => position > index && !HEADINGS.has(node.name!));
+    return next >= 0 && withStructure[next];
+  });
+}
+
+// Remove link lists, share widgets and other boilerplate left inside the article
+function cleanConditionally(root: DomNode, scores: Map<DomNode, number>): void {
+  for (const node of descendants(root, CLEANED_TAGS).reverse()) {
+    if (!node.parent || hasAncestor(node, ['pre', 'code'])) continue;
+    if (node.name === 'table' && isDataTable(node)) continue;
+    if (descendants(node, ['pre', 'code']).length > 0 && node.name !== 'ul' && node.name !== 'ol') continue;
+
+    const weight = classWeight(node);
+    if (weight + (scores.get(node) || 0) < 0) {
+      removeNode(node);
+      continue;
+    }
+    const text = innerText(node);
+    if (text.split(',').length - 1 >= 10) continue;
+
+    const isList = node.name === 'ul' || node.name === 'ol';
+    const paragraphs = descendants(node, ['p']).length;
+    const images = descendants(node, ['img']).length;
+    const items = descendants(node, ['li']).length - 100;
+    const headings = descendants(node, HEADINGS).reduce((sum, heading) => sum + innerText(heading).length, 0);
+    const density = linkDensity(node);
+    const figure = node.name === 'figure' || hasAncestor(node, ['figure']);
+
+    const boilerplate =
+      (images > 1 && paragraphs / images < 0.5 && !figure) ||
+      (!isList && items > paragraphs) ||
+      (!isList && headings / Math.max(1, text.length) < 0.9 && text.length < 25 && (images === 0 || images > 2) && density > 0) ||
+      (weight < 25 && density > 0.2) ||
+      (weight >= 25 && density > 0.5) ||
+      (!isList && density > 0 && text.length < 200 && textDensity(node) < 10);
+    if (boilerplate) removeNode(node);
+  }
+
+  for (const heading of descendants(root, HEADINGS)) {
+    if (classWeight(heading) < 0 || linkDensity(heading) > 0.9) removeNode(heading);
+  }
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+function escapeLineStart(text: string): string {
+  return text.replace(/^(\d+)\. /, '$1\\. ').replace(/^([#>+-])/, '\\$1');
+}
+
+// Keep surrounding spaces outside emphasis and link markers
+function wrap(inner: string, open: string, close = open): string {
+  const match = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${open}${match[2]}${close}${match[3]}` : inner;
+}
+
+function finishInline(inline: string, context: RenderContext): string {
+  const lines = inline.split(BREAK).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  if (context.plain) return lines.join('\n');
+  return lines.map(escapeLineStart).join('  \n');
+}
+
+function renderInline(node: DomNode, context: RenderContext): string {
+  if (node.type === 'text') {
+    const text = (node.data || '').replace(/\s+/g, ' ');
+    return context.plain ? text : escapeMarkdown(text);
+  }
+  if (!isElement(node)) return '';
+  const children = () => (node.children || []).map(child => renderInline(child, context)).join('');
+
+  switch (node.name) {
+    case 'br':
+      return BREAK;
+    case 'img': {
+      const src = resolveUrl(node.attribs?.['data-src'] || node.attribs?.src, context.base);
+      const alt = (node.attribs?.alt || '').replace(/\s+/g, ' ').trim();
+      if (context.plain || !src) return '';
+      return `![${escapeMarkdown(alt)}](${src})`;
+    }
+    case 'a': {
+      const inner = children();
+      const href = resolveUrl(node.attribs?.href, context.base);
+      if (context.plain || !href || node.attribs?.href?.startsWith('#')) return inner;
+      return wrap(inner, '[', `](${href})`);
+    }
+    case 'code': case 'kbd': case 'samp': case 'tt': {
+      const code = rawText(node).replace(/\s+/g, ' ');
+      if (context.plain || !code.trim()) return code;
+      const fence = code.includes('`') ? '``' : '`';
+      return fence.length > 1 ? `${fence} ${code} ${fence}` : `${fence}${code}${fence}`;
+    }
+    case 'strong': case 'b':
+      return context.plain ? children() : wrap(children(), '**');
+    case 'em': case 'i': case 'cite':
+      return context.plain ? children() : wrap(children(), '*');
+    case 'del': case 's': case 'strike':
+      return context.plain ? children() : wrap(children(), '~~');
+    default:
+      // Block elements inside inline content (a link wrapping a div) are flattened
+      return BLOCK_TAGS.has(node.name!) ? ` ${children()} ` : children();
+  }
+}
+
+function codeLanguage(node: DomNode): string {
+  for (const element of [node, ...descendants(node, ['code'])]) {
+    const match = (element.attribs?.class || '').match(/(?:^|\s)(?:language|lang|highlight-source)-([\w+#-]+)/);
+    if (match) return match[1];
+    if (element.attribs?.['data-lang']) return element.attribs['data-lang'];
+  }
+  return '';
+}
+
+function renderList(node: DomNode, context: RenderContext): string {
+  let number = parseInt(node.attribs?.start || '1', 10) || 1;
+  return elementChildren(node)
+    .filter(child => child.name === 'li')
+    .map(item => {
+      const marker = node.name === 'ol' ? `${number++}.` : '-';
+      const body = renderBlocks(item.children || [], context).join('\n');
+      return `${marker} ${body.split('\n').join(`\n${' '.repeat(marker.length + 1)}`)}`;
+    })
+    .join('\n');
+}
+
+function renderTable(node: DomNode, context: RenderContext): string[] {
+  const rows: DomNode[] = [];
+  const collectRows = (parent: DomNode) => {
+    for (const child of elementChildren(parent)) {
+      if (child.name === 'tr') rows.push(child);
+      else if (['thead', 'tbody', 'tfoot'].includes(child.name!)) collectRows(child);
+    }
+  };
+  collectRows(node);
+
+  // Layout tables hold ordinary content; render their cells as blocks
+  if (!isDataTable(node)) {
+    return rows.flatMap(row => elementChildren(row).flatMap(cell => renderBlocks(cell.children || [], context)));
+  }
+
+  const cells = rows.map(row => elementChildren(row)
+    .filter(cell => cell.name === 'td' || cell.name === 'th')
+    .flatMap(cell => {
+      const text = finishInline(renderInline(cell, context).split(BREAK).join(' '), context);
+      const value = context.plain ? text : text.replace(/\|/g, '\\|');
+      // Markdown tables have no spans; pad so later columns stay aligned
+      const span = context.plain ? 1 : Math.min(parseInt(cell.attribs?.colspan || '1', 10) || 1, 50);
+      return [value, ...new Array(span - 1).fill('')];
+    }))
+    .filter(row => row.length > 0);
+  if (cells.length === 0) return [];
+
+  const caption = descendants(node, ['caption'])[0];
+  const blocks = caption ? [finishInline(renderInline(caption, context), context)].filter(Boolean) : [];
+  if (context.plain) {
+    return [...blocks, cells.map(row => row.join(' | ')).join('\n')];
+  }
+  const columns = Math.max(...cells.map(row => row.length));
+  const line = (row: string[]) => `| ${[...row, ...new Array(columns - row.length).fill('')].join(' | ')} |`;
+  return [...blocks, [line(cells[0]), line(new Array(columns).fill('---')), ...cells.slice(1).map(line)].join('\n')];
+}
+
+function renderBlock(node: DomNode, context: RenderContext): string[] {
+  const name = node.name!;
+  if (HEADINGS.has(name)) {
+    const text = finishInline(renderInline(node, context).split(BREAK).join(' '), context);
+    if (!text) return [];
+    return [context.plain ? text : `${'#'.repeat(Number(name[1]))} ${text}`];
+  }
+  switch (name) {
+    case 'pre': {
+      const code = rawText(node).replace(/^\n/, '').replace(/\s+$/, '');
+      if (!code) return [];
+      if (context.plain) return [code];
+      const fence = code.includes('```') ? '````' : '```';
+      return [`${fence}${codeLanguage(node)}\n${code}\n${fence}`];
+    }
+    case 'blockquote': {
+      const inner = renderBlocks(node.children || [], context).join('\n\n');
+      if (!inner || context.plain) return inner ? [inner] : [];
+      return [inner.split('\n').map(line => line ? `> ${line}` : '>').join('\n')];
+    }
+    case 'ul': case 'ol': {
+      const list = renderList(node, context);
+      return list ? [list] : [];
+    }
+    case 'table':
+      return renderTable(node, context);
+    case 'hr':
+      return context.plain ? [] : ['---'];
+    case 'dt': {
+      const term = finishInline(renderInline(node, context), context);
+      return term ? [context.plain ? term : `**${term}**`] : [];
+    }
+    default:
+      return renderBlocks(node.children || [], context);
+  }
+}
+
+function renderBlocks(nodes: DomNode[], context: RenderContext): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+  const flush = () => {
+    const text = finishInline(inline, context);
+    if (text) blocks.push(text);
+    inline = '';
+  };
+  for (const node of nodes) {
+    if (isElement(node) && BLOCK_TAGS.has(node.name!)) {
+      flush();
+      blocks.push(...renderBlock(node, context));
+    } else {
+      inline += renderInline(node, context);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Extract the main content of an HTML page in the spirit of Mozilla
+ * Readability: boilerplate is removed, paragraphs are scored by length and
+ * commas, scores flow up to their containers and are discounted by link
+ * density, and the winning container is joined with sibling content. The
+ * result is rendered as markdown and as plain text, with the page metadata.
+ */
+export function extractReadableContent(html: string, url: string): ExtractedContent {
+  const $ = cheerio.load(html);
+  const metadata = readMetadata($);
+  const base = resolveUrl($('base[href]').attr('href'), url) || url;
+
+  $(REMOVED_SELECTOR).remove();
+  const body = ($('body').get(0) || $.root().get(0)) as unknown as DomNode;
+  prune(body);
+  const byline = takeByline(body);
+
+  const candidate = findTopCandidate(body);
+  let content: DomNode[] = [body];
+  if (candidate && innerText(candidate.top).length >= 200) {
+    content = gatherContent(candidate.top, candidate.scores);
+  }
+  for (const node of content) cleanConditionally(node, candidate?.scores || new Map());
+
+  // The headline is reported as the title; don't repeat it at the top of the content
+  const titleKey = metadata.title.toLowerCase();
+  const firstHeading = content.flatMap(node => HEADINGS.has(node.name!) ? [node] : descendants(node, ['h1', 'h2']))[0];
+  if (firstHeading && innerText(firstHeading).toLowerCase() === titleKey) {
+    removeNode(firstHeading);
+    content = content.filter(node => node !== firstHeading);
+  }
+
+  const markdown = renderBlocks(content, { base, plain: false }).join('\n\n');
+  const text = renderBlocks(content, { base, plain: true }).join('\n\n');
+  const excerpt = metadata.excerpt || text.split('\n\n').find(block => block.length >= 80)?.slice(0, 300);
+
+  return {
+    format: 'html',
+    ...metadata,
+    byline: metadata.byline || byline,
+    excerpt,
+    markdown,
+    text,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+  };
+}
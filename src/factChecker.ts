@@ -0,0 +1,319 @@
+import * as cheerio from 'cheerio';
+import { fetchErrorCode } from './fetcher.js';
+import { SearchQuery, SearchResponse, SearchResultItem } from './searchProviders.js';
+import { contentWords } from './stopWords.js';
+
+export type Verdict = 'true' | 'mostly_true' | 'mixed' | 'mostly_false' | 'false' | 'unverified';
+
+// Position of each verdict on a 0 (false) to 1 (true) scale
+const VERDICT_SCORES: Record<Exclude<Verdict, 'unverified'>, number> = {
+  true: 1,
+  mostly_true: 0.75,
+  mixed: 0.5,
+  mostly_false: 0.25,
+  false: 0,
+};
+
+// Textual ratings used by fact-check publishers; longer phrases are matched first, and
+// negated or in-/un- forms before the words they negate ("not accurate", "inaccurate")
+const RATING_PHRASES: [RegExp, Verdict][] = [
+  [/\bnot (?:entirely|completely|wholly|quite|fully) (?:true|correct|accurate)\b|mostly (?:inaccurate|incorrect|untrue)/, 'mostly_false'],
+  [/\bnot (?:entirely|completely|wholly) (?:false|wrong|inaccurate)\b/, 'mostly_true'],
+  [/\bnot (?:proven|verified|confirmed)\b|\bunconfirmed\b/, 'unverified'],
+  [/pants on fire|four pinocchios|\bhoax\b|\bfake\b|fabricated|debunked|\bnot (?:true|correct|accurate|right)\b|\buntrue\b|\binaccurate\b|\bincorrect\b|\bwrong\b|\bbaseless\b/, 'false'],
+  [/mostly false|three pinocchios|misleading|exaggerat|distort/, 'mostly_false'],
+  [/half[- ]true|mixture|\bmixed\b|partly|partially|missing context|needs context|cherry[- ]?pick|two pinocchios/, 'mixed'],
+  [/mostly true|mostly correct|mostly accurate|one pinocchio/, 'mostly_true'],
+  [/unproven|unverified|unsubstantiated|no evidence|insufficient evidence|research in progress|\bsatire\b|unclear/, 'unverified'],
+  [/\bfalse\b/, 'false'],
+  [/\btrue\b|\bcorrect\b|\baccurate\b|\bconfirmed\b|geppetto checkmark/, 'true'],
+];
+
+export interface ClaimReview {
+  url: string;
+  publisher: string;
+  claimReviewed: string;
+  textualRating?: string;
+  ratingValue?: number;
+  bestRating?: number;
+  worstRating?: number;
+  datePublished?: string;
+  claimAuthor?: string;
+}
+
+export interface ClaimReviewEvidence extends ClaimReview {
+  verdict: Verdict;
+  score: number | null;
+  similarity: number;
+}
+
+export interface WikipediaEvidence {
+  title: string;
+  url: string;
+  extract: string;
+  coverage: number;
+}
+
+export interface FactCheckResult {
+  claim: string;
+  verdict: Verdict;
+  score: number | null;
+  confidence: number;
+  summary: string;
+  evidence: ClaimReviewEvidence[];
+  wikipedia: WikipediaEvidence[];
+  sourcesChecked: { title: string; url: string; claimReviews: number; error?: string; errorCode?: string }[];
+}
+
+// The subset of EnhancedWikipediaService the checker relies on
+export interface WikipediaLookup {
+  search(query: string, options?: { limit?: number; lang?: string }): Promise<any>;
+  getPageSummary(title: string, lang?: string): Promise<any>;
+}
+
+export interface FactCheckerOptions {
+  search?: (query: SearchQuery) => Promise<SearchResponse>;
+  fetchHtml: (url: string) => Promise<string>;
+  wikipedia: WikipediaLookup;
+  lang?: string;
+}
+
+function contentTerms(text: string): Set<string> {
+  return new Set(contentWords(text));
+}
+
+/**
+ * Share of the claim's content terms that also appear in `text` (0-1).
+ */
+export function termCoverage(claim: string, text: string): number {
+  const claimTerms = contentTerms(claim);
+  if (claimTerms.size === 0) return 0;
+  const textTerms = contentTerms(text);
+  return [...claimTerms].filter(term => textTerms.has(term)).length / claimTerms.size;
+}
+
+function claimSimilarity(a: string, b: string): number {
+  const termsA = contentTerms(a);
+  const termsB = contentTerms(b);
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+  const shared = [...termsA].filter(term => termsB.has(term)).length;
+  return shared / Math.min(termsA.size, termsB.size);
+}
+
+function nameOf(value: any): string | undefined {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return nameOf(value[0]);
+  return value.name || value.url || undefined;
+}
+
+function numberOf(value: any): number | undefined {
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function isClaimReview(node: any): boolean {
+  const type = node?.['@type'];
+  return Array.isArray(type) ? type.includes('ClaimReview') : type === 'ClaimReview';
+}
+
+// Walk JSON-LD documents, including @graph containers and nested arrays
+function collectClaimReviews(node: any, found: any[]): void {
+  if (!node || typeof node !== 'object') return;
+  if (Array.isArray(node)) {
+    node.forEach(child => collectClaimReviews(child, found));
+    return;
+  }
+  if (isClaimReview(node)) {
+    found.push(node);
+    return;
+  }
+  for (const value of Object.values(node)) {
+    if (value && typeof value === 'object') collectClaimReviews(value, found);
+  }
+}
+
+/**
+ * Parse schema.org ClaimReview objects from the JSON-LD blocks of a page.
+ */
+export function extractClaimReviews(html: string, pageUrl: string): ClaimReview[] {
+  const $ = cheerio.load(html);
+  const nodes: any[] = [];
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      collectClaimReviews(JSON.parse($(element).contents().text()), nodes);
+    } catch {
+      // Malformed JSON-LD is common; skip the block
+    }
+  });
+
+  return nodes.map(node => {
+    const rating = Array.isArray(node.reviewRating) ? node.reviewRating[0] : node.reviewRating || {};
+    return {
+      url: node.url || pageUrl,
+      publisher: nameOf(node.author) || nameOf(node.publisher) || new URL(pageUrl).hostname,
+      claimReviewed: node.claimReviewed || '',
+      textualRating: rating.alternateName || rating.name || undefined,
+      ratingValue: numberOf(rating.ratingValue),
+      bestRating: numberOf(rating.bestRating),
+      worstRating: numberOf(rating.worstRating),
+      datePublished: node.datePublished,
+      claimAuthor: nameOf(node.itemReviewed?.author),
+    };
+  });
+}
+
+/**
+ * Map a publisher's rating onto the shared verdict scale. Textual ratings win;
+ * numeric ratings are used when the text is missing or unrecognised.
+ */
+export function normalizeRating(review: Pick<ClaimReview, 'textualRating' | 'ratingValue' | 'bestRating' | 'worstRating'>): { verdict: Verdict; score: number | null } {
+  const text = review.textualRating?.toLowerCase().trim();
+  if (text) {
+    for (const [pattern, verdict] of RATING_PHRASES) {
+      if (pattern.test(text)) {
+        return { verdict, score: verdict === 'unverified' ? null : VERDICT_SCORES[verdict] };
+      }
+    }
+  }
+
+  const { ratingValue, bestRating = 5, worstRating = 1 } = review;
+  if (ratingValue !== undefined && bestRating > worstRating && ratingValue >= worstRating && ratingValue <= bestRating) {
+    return verdictForScore((ratingValue - worstRating) / (bestRating - worstRating));
+  }
+  return { verdict: 'unverified', score: null };
+}
+
+function verdictForScore(score: number): { verdict: Verdict; score: number } {
+  if (score >= 0.875) return { verdict: 'true', score };
+  if (score >= 0.625) return { verdict: 'mostly_true', score };
+  if (score > 0.375) return { verdict: 'mixed', score };
+  if (score > 0.125) return { verdict: 'mostly_false', score };
+  return { verdict: 'false', score };
+}
+
+/**
+ * Combine publisher ratings into one verdict. Each rating is weighted by how
+ * closely its reviewed claim matches ours. Confidence grows with the number of
+ * ratings and shrinks when they disagree.
+ */
+export function aggregateVerdict(evidence: ClaimReviewEvidence[]): { verdict: Verdict; score: number | null; confidence: number } {
+  const rated = evidence.filter(item => item.score !== null);
+  const totalWeight = rated.reduce((sum, item) => sum + item.similarity, 0);
+  if (rated.length === 0 || totalWeight === 0) {
+    return { verdict: 'unverified', score: null, confidence: 0 };
+  }
+
+  const score = rated.reduce((sum, item) => sum + item.score! * item.similarity, 0) / totalWeight;
+  const variance = rated.reduce((sum, item) => sum + item.similarity * (item.score! - score) ** 2, 0) / totalWeight;
+  const agreement = 1 - Math.min(1, Math.sqrt(variance) * 2);
+  const volume = Math.min(1, rated.length / 3);
+  const relevance = totalWeight / rated.length;
+  const confidence = Math.round(agreement * volume * relevance * 100) / 100;
+
+  return { ...verdictForScore(score), score: Math.round(score * 100) / 100, confidence };
+}
+
+/**
+ * Fact-check pipeline: find fact-check articles, read their ClaimReview markup,
+ * cross-reference Wikipedia and aggregate the publishers' ratings into a verdict.
+ */
+export class FactChecker {
+  constructor(private options: FactCheckerOptions) {}
+
+  async check(claim: string, maxSources = 5, minSimilarity = 0.3): Promise<FactCheckResult> {
+    const [reviewStage, wikipedia] = await Promise.all([
+      this.collectClaimReviews(claim, maxSources, minSimilarity),
+      this.crossReferenceWikipedia(claim),
+    ]);
+    const { verdict, score, confidence } = aggregateVerdict(reviewStage.evidence);
+
+    return {
+      claim,
+      verdict,
+      score,
+      confidence,
+      summary: this.summarize(verdict, confidence, reviewStage.evidence, wikipedia),
+      evidence: reviewStage.evidence,
+      wikipedia,
+      sourcesChecked: reviewStage.sourcesChecked,
+    };
+  }
+
+  private async collectClaimReviews(claim: string, maxSources: number, minSimilarity: number) {
+    const evidence: ClaimReviewEvidence[] = [];
+    const sourcesChecked: FactCheckResult['sourcesChecked'] = [];
+    if (!this.options.search) {
+      return { evidence, sourcesChecked };
+    }
+
+    let results: SearchResultItem[] = [];
+    try {
+      results = (await this.options.search({ q: `${claim} fact check`, num: 10 })).items.slice(0, maxSources);
+    } catch (error) {
+      console.error('Fact-check search failed:', error);
+    }
+
+    const pages = await Promise.all(results.map(async (result) => {
+      try {
+        return { result, reviews: extractClaimReviews(await this.options.fetchHtml(result.link), result.link) };
+      } catch (error) {
+        return { result, reviews: [] as ClaimReview[], error: error instanceof Error ? error.message : 'Unknown error', errorCode: fetchErrorCode(error) };
+      }
+    }));
+
+    const seen = new Set<string>();
+    for (const { result, reviews, error, errorCode } of pages) {
+      sourcesChecked.push({ title: result.title, url: result.link, claimReviews: reviews.length, ...(error && { error }), ...(errorCode && { errorCode }) });
+      for (const review of reviews) {
+        const similarity = Math.round(claimSimilarity(claim, review.claimReviewed) * 100) / 100;
+        const key = `${review.publisher}|${review.claimReviewed}`.toLowerCase();
+        if (similarity < minSimilarity || seen.has(key)) continue;
+        seen.add(key);
+        evidence.push({ ...review, ...normalizeRating(review), similarity });
+      }
+    }
+
+    return { evidence: evidence.sort((a, b) => b.similarity - a.similarity), sourcesChecked };
+  }
+
+  private async crossReferenceWikipedia(claim: string): Promise<WikipediaEvidence[]> {
+    const lang = this.options.lang || 'en';
+    try {
+      const search = await this.options.wikipedia.search(claim, { limit: 3, lang });
+      const titles: string[] = (search?.query?.search || []).map((hit: any) => hit.title);
+      const summaries = await Promise.all(titles.map(async (title) => {
+        try {
+          const summary = await this.options.wikipedia.getPageSummary(title, lang);
+          const extract: string = summary?.extract || '';
+          return {
+            title: summary?.title || title,
+            url: summary?.content_urls?.desktop?.page || `https://${lang}.wikipedia.org/wiki/${encodeURIComponent(title.replace(/ /g, '_'))}`,
+            extract,
+            coverage: Math.round(termCoverage(claim, extract) * 100) / 100,
+          };
+        } catch {
+          return null;
+        }
+      }));
+      return summaries.filter((summary): summary is WikipediaEvidence => summary !== null && summary.extract !== '')
+        .sort((a, b) => b.coverage - a.coverage);
+    } catch (error) {
+      console.error('Wikipedia cross-reference failed:', error);
+      return [];
+    }
+  }
+
+  private summarize(verdict: Verdict, confidence: number, evidence: ClaimReviewEvidence[], wikipedia: WikipediaEvidence[]): string {
+    const publishers = [...new Set(evidence.map(item => item.publisher))];
+    const ratingPart = evidence.length > 0
+      ? `${evidence.length} fact-check rating(s) from ${publishers.join(', ')} point to "${verdict.replace('_', ' ')}" (confidence ${Math.round(confidence * 100)}%).`
+      : 'No published fact-check (ClaimReview) matching this claim was found, so the claim remains unverified.';
+    const best = wikipedia[0];
+    const wikiPart = best
+      ? ` Wikipedia's "${best.title}" covers ${Math.round(best.coverage * 100)}% of the claim's key terms; read it for context, since coverage alone does not confirm the claim.`
+      : '';
+    return ratingPart + wikiPart;
+  }
+}
@@ -0,0 +1,368 @@
+import axios, { LookupAddressEntry } from 'axios';
+import LRUCache from 'lru-cache';
+import { RequestDeduplicator } from './resilience.js';
+import { UrlPolicy, UrlPolicyError, UrlPolicyErrorCode } from './urlPolicy.js';
+
+export const DEFAULT_USER_AGENT = 'research-mcp-server/1.0 (+https://github.com/1999AZZAR/research-assistant-mcp-server)';
+
+// Pages, feeds, PDFs and JSON; PDFs are often served as application/octet-stream
+export const DEFAULT_CONTENT_TYPES = [
+  'text/html', 'application/xhtml+xml', 'text/plain', 'text/xml', 'application/xml', 'application/rss+xml',
+  'application/atom+xml', 'application/pdf', 'application/x-pdf', 'application/octet-stream', 'application/json',
+  'application/ld+json',
+];
+
+// robots.txt files larger than this are truncated (RFC 9309 asks for at least 500 KiB)
+const MAX_ROBOTS_BYTES = 512 * 1024;
+// Upper bound for a site's Crawl-delay, so one slow site can't stall a tool call
+const MAX_CRAWL_DELAY_MS = 10000;
+
+export type FetchErrorCode = 'ROBOTS_DISALLOWED' | 'UNSUPPORTED_CONTENT_TYPE' | 'RESPONSE_TOO_LARGE' | 'HTTP_ERROR';
+
+export class FetchError extends Error {
+  constructor(public code: FetchErrorCode, message: string, public status?: number) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+/**
+ * Why a fetch was refused or failed, for structured tool output; undefined for
+ * network errors and anything else without a code.
+ */
+export function fetchErrorCode(error: unknown): FetchErrorCode | UrlPolicyErrorCode | undefined {
+  return error instanceof FetchError || error instanceof UrlPolicyError ? error.code : undefined;
+}
+
+export interface FetcherOptions {
+  userAgent?: string;
+  timeout?: number;
+  maxBytes?: number;
+  contentTypes?: string[];
+  respectRobots?: boolean;
+  // Requests in flight per host
+  hostConcurrency?: number;
+  // Minimum time between request starts to the same host
+  hostDelayMs?: number;
+  robotsCacheTtl?: number;
+  // Which URLs may be fetched; defaults to public http(s) addresses only
+  policy?: UrlPolicy;
+}
+
+export interface FetchOptions {
+  method?: 'GET' | 'HEAD';
+  // MIME types, or prefixes such as "text/", accepted for this request
+  contentTypes?: string[];
+  maxBytes?: number;
+  timeout?: number;
+}
+
+export interface FetchedResource {
+  url: string;
+  finalUrl: string;
+  status: number;
+  contentType: string;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+export interface RobotsRules {
+  rules: { allow: boolean; pattern: string }[];
+  crawlDelay?: number;
+}
+
+interface HostSlot {
+  active: number;
+  waiting: (() => void)[];
+  nextStart: number;
+}
+
+/**
+ * Parse robots.txt and keep the rules of the groups that apply to `userAgent`
+ * (matched on its product token), falling back to the `*` group.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const product = userAgent.split(/[\s/]/)[0].toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRules['rules']; crawlDelay?: number }[] = [];
+  let current: (typeof groups)[number] | undefined;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!collectingAgents || !current) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    collectingAgents = false;
+    if (!current) continue;
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay' && Number.isFinite(parseFloat(value))) {
+      current.crawlDelay = parseFloat(value);
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.some(agent => agent !== '*' && product.includes(agent)));
+  const applicable = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+  const delays = applicable.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+  return {
+    rules: applicable.flatMap(group => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * The longest matching rule decides; on a tie Allow wins, and no match allows.
+ */
+export function isAllowedByRobots(robots: RobotsRules, pathAndQuery: string): boolean {
+  if (pathAndQuery === '/robots.txt') return true;
+  let best: { allow: boolean; pattern: string } | undefined;
+  for (const rule of robots.rules) {
+    if (!patternMatches(rule.pattern, pathAndQuery)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+// Policy errors raised inside axios (DNS lookup, redirects) arrive wrapped in its own errors
+function findPolicyError(error: unknown): UrlPolicyError | undefined {
+  for (let current = error, depth = 0; current instanceof Error && depth < 5; current = current.cause, depth++) {
+    if (current instanceof UrlPolicyError) return current;
+  }
+  return undefined;
+}
+
+function contentTypeAllowed(contentType: string, allowed: string[]): boolean {
+  const mime = contentType.split(';')[0].trim().toLowerCase();
+  // Servers that send no type get the benefit of the doubt
+  if (!mime) return true;
+  return allowed.some(entry => entry === '*' || entry === mime || (entry.endsWith('/') && mime.startsWith(entry)));
+}
+
+/**
+ * Decode a fetched body using the charset from its Content-Type, defaulting to UTF-8.
+ */
+export function decodeText(resource: Pick<FetchedResource, 'body' | 'contentType'>): string {
+  const charset = resource.contentType.match(/charset\s*=\s*"?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(resource.body);
+  } catch {
+    return new TextDecoder('utf-8').decode(resource.body);
+  }
+}
+
+/**
+ * Shared HTTP client for every tool that reads arbitrary web pages. It sends
+ * a real user agent, honors robots.txt (cached per origin), limits concurrency
+ * and request rate per host, and refuses oversized or unexpected responses.
+ */
+export class PageFetcher {
+  private readonly options: Required<Omit<FetcherOptions, 'policy'>>;
+  private readonly policy: UrlPolicy;
+  private robotsCache: LRUCache<string, RobotsRules>;
+  // Concurrent requests to a site wait on one robots.txt fetch
+  private robotsRequests = new RequestDeduplicator();
+  private hosts = new Map<string, HostSlot>();
+
+  constructor(options: FetcherOptions = {}) {
+    this.options = {
+      userAgent: options.userAgent || DEFAULT_USER_AGENT,
+      timeout: options.timeout ?? 10000,
+      maxBytes: options.maxBytes ?? 10 * 1024 * 1024,
+      contentTypes: options.contentTypes ?? DEFAULT_CONTENT_TYPES,
+      respectRobots: options.respectRobots ?? true,
+      hostConcurrency: Math.max(1, options.hostConcurrency ?? 2),
+      hostDelayMs: Math.max(0, options.hostDelayMs ?? 1000),
+      robotsCacheTtl: options.robotsCacheTtl ?? 60 * 60 * 1000,
+    };
+    this.policy = options.policy ?? new UrlPolicy();
+    this.robotsCache = new LRUCache<string, RobotsRules>({ max: 500, ttl: this.options.robotsCacheTtl });
+  }
+
+  get userAgent(): string {
+    return this.options.userAgent;
+  }
+
+  /**
+   * Fetch a URL. Rejects with a FetchError, or with a UrlPolicyError when the
+   * URL or any redirect target is outside the URL policy.
+   */
+  async fetch(url: string, options: FetchOptions = {}): Promise<FetchedResource> {
+    const target = await this.policy.assertAllowed(url);
+
+    const robots = this.options.respectRobots ? await this.robotsFor(target) : undefined;
+    if (robots && !isAllowedByRobots(robots, `${target.pathname}${target.search}`)) {
+      throw new FetchError('ROBOTS_DISALLOWED', `Fetching ${url} is disallowed by ${target.origin}/robots.txt`);
+    }
+
+    const crawlDelay = robots?.crawlDelay !== undefined ? Math.min(robots.crawlDelay * 1000, MAX_CRAWL_DELAY_MS) : 0;
+    const release = await this.acquire(target.hostname.toLowerCase(), Math.max(this.options.hostDelayMs, crawlDelay));
+    try {
+      return await this.request(target.toString(), options);
+    } finally {
+      release();
+    }
+  }
+
+  private async request(url: string, options: FetchOptions): Promise<FetchedResource> {
+    const method = options.method ?? 'GET';
+    const maxBytes = options.maxBytes ?? this.options.maxBytes;
+    const timeout = options.timeout ?? this.options.timeout;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await axios.request({
+        url,
+        method,
+        timeout,
+        signal: controller.signal,
+        responseType: 'stream',
+        maxRedirects: 5,
+        // Every hop is checked again: the target URL here, its addresses at connect time
+        beforeRedirect: redirect => {
+          this.policy.checkUrl(redirect.href);
+        },
+        lookup: async (hostname: string) => [await this.policy.resolve(hostname) as LookupAddressEntry[]],
+        // A proxy from HTTP_PROXY would connect instead of us, skipping the address check above
+        proxy: false,
+        validateStatus: () => true,
+        headers: { 'User-Agent': this.options.userAgent, Accept: 'text/html,application/xhtml+xml,application/pdf;q=0.9,*/*;q=0.8' },
+      });
+      const stream = response.data as NodeJS.ReadableStream & { destroy(): void };
+      const headers = Object.fromEntries(Object.entries(response.headers).map(([key, value]) => [key, String(value)]));
+      const contentType = headers['content-type'] || '';
+      const resource = {
+        url,
+        finalUrl: response.request?.res?.responseUrl || url,
+        status: response.status,
+        contentType,
+        headers,
+        body: Buffer.alloc(0),
+      };
+
+      if (response.status >= 400) {
+        stream.destroy();
+        throw new FetchError('HTTP_ERROR', `Request failed with status code ${response.status}`, response.status);
+      }
+      if (method === 'HEAD') {
+        stream.destroy();
+        return resource;
+      }
+      if (!contentTypeAllowed(contentType, options.contentTypes ?? this.options.contentTypes)) {
+        stream.destroy();
+        throw new FetchError('UNSUPPORTED_CONTENT_TYPE', `Unsupported content type ${contentType.split(';')[0]} at ${url}`);
+      }
+      if (Number(headers['content-length']) > maxBytes) {
+        stream.destroy();
+        throw new FetchError('RESPONSE_TOO_LARGE', `Response from ${url} is larger than ${maxBytes} bytes`);
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      for await (const chunk of stream) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          stream.destroy();
+          throw new FetchError('RESPONSE_TOO_LARGE', `Response from ${url} is larger than ${maxBytes} bytes`);
+        }
+        chunks.push(Buffer.from(chunk));
+      }
+      return { ...resource, body: Buffer.concat(chunks) };
+    } catch (error) {
+      const policyError = findPolicyError(error);
+      if (policyError) throw policyError;
+      if (controller.signal.aborted && !(error instanceof FetchError)) {
+        throw new Error(`timeout of ${timeout}ms exceeded`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * robots.txt for the URL's origin. A missing file (4xx) allows everything;
+   * a server error disallows everything, as RFC 9309 asks. Network failures
+   * allow, so the page request itself reports the real error.
+   */
+  private async robotsFor(target: URL): Promise<RobotsRules> {
+    const cached = this.robotsCache.get(target.origin);
+    if (cached) return cached;
+    return this.robotsRequests.deduplicate(target.origin, () => this.loadRobots(target));
+  }
+
+  private async loadRobots(target: URL): Promise<RobotsRules> {
+    let robots: RobotsRules;
+    const release = await this.acquire(target.hostname.toLowerCase(), this.options.hostDelayMs);
+    try {
+      const response = await this.request(`${target.origin}/robots.txt`, { maxBytes: MAX_ROBOTS_BYTES, contentTypes: ['*'] });
+      robots = parseRobotsTxt(decodeText(response), this.options.userAgent);
+    } catch (error) {
+      if (error instanceof FetchError && error.code === 'RESPONSE_TOO_LARGE') {
+        robots = { rules: [] };
+      } else if (error instanceof FetchError && error.status !== undefined && error.status >= 500) {
+        robots = { rules: [{ allow: false, pattern: '/' }] };
+      } else {
+        robots = { rules: [] };
+      }
+    } finally {
+      release();
+    }
+    this.robotsCache.set(target.origin, robots);
+    return robots;
+  }
+
+  // Wait for a free slot on the host and for its next allowed start time
+  private async acquire(host: string, delayMs: number): Promise<() => void> {
+    let slot = this.hosts.get(host);
+    if (!slot) {
+      slot = { active: 0, waiting: [], nextStart: 0 };
+      this.hosts.set(host, slot);
+    }
+    if (slot.active < this.options.hostConcurrency) {
+      slot.active++;
+    } else {
+      // The releasing request hands its slot over directly
+      await new Promise<void>(resolve => slot!.waiting.push(resolve));
+    }
+
+    const now = Date.now();
+    const wait = slot.nextStart - now;
+    slot.nextStart = Math.max(now, slot.nextStart) + delayMs;
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+
+    const current = slot;
+    return () => {
+      const next = current.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        current.active--;
+        if (current.active === 0 && current.nextStart <= Date.now()) this.hosts.delete(host);
+      }
+    };
+  }
+}
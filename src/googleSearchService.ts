@@ -1,8 +1,13 @@
-import axios, { AxiosResponse } from 'axios';
+import axios from 'axios';
 import axiosRetry from 'axios-retry';
 import * as cheerio from 'cheerio';
 import Sentiment from 'sentiment';
 import config from './config.js';
+import { extractReadableContent } from './contentExtractor.js';
+import { extractPdfContent, isPdf } from './pdfExtractor.js';
+import { decodeText, PageFetcher } from './fetcher.js';
+import { UrlPolicy } from './urlPolicy.js';
+import { GoogleSearchProvider, MAX_PAGED_RESULTS, PagedSearchResult, SearchProvider, searchPaged, validateSearchFilters } from './searchProviders.js';
 
 // Configure axios retry
 axiosRetry(axios, {
@@ -32,8 +37,13 @@ interface GoogleSearchResponse {
 }
 
 interface ContentAnalysis {
+  format: 'html' | 'pdf';
   title: string;
   content: string;
+  markdown: string;
+  byline?: string;
+  publishedAt?: string;
+  siteName?: string;
   wordCount: number;
   readabilityScore?: number;
   sentiment: {
@@ -55,59 +65,62 @@ interface SearchParams {
   safe?: string;
   exactTerms?: string;
   excludeTerms?: string;
+  orTerms?: string;
   sort?: string;
   gl?: string;
   hl?: string;
+  lr?: string;
+  rights?: string;
   num?: number;
   start?: number;
 }
 
 export class GoogleSearchService {
-  private apiKey: string;
-  private cseId: string;
-  private baseUrl = 'https://www.googleapis.com/customsearch/v1';
+  private provider: SearchProvider;
+  private fetcher: PageFetcher;
 
-  constructor() {
-    if (!config.google.apiKey || !config.google.cseId) {
+  /**
+   * Searches go through the given provider; without one, Google Custom Search is used.
+   * Pages are read through the given fetcher, or one built from the fetcher settings.
+   */
+  constructor(provider?: SearchProvider, fetcher?: PageFetcher) {
+    this.fetcher = fetcher || new PageFetcher({ ...config.fetcher, policy: new UrlPolicy(config.urlPolicy) });
+    this.provider = provider || new GoogleSearchProvider({ apiKey: config.google.apiKey, cseId: config.google.cseId });
+    if (!this.provider.isConfigured()) {
       throw new Error('Google API key and CSE ID are required. Please set GOOGLE_API_KEY and GOOGLE_CSE_ID environment variables.');
     }
-    this.apiKey = config.google.apiKey;
-    this.cseId = config.google.cseId;
   }
 
   /**
-   * Perform a Google Custom Search
+   * Perform a web search through the configured provider
    */
   async search(params: SearchParams): Promise<GoogleSearchResponse> {
+    validateSearchFilters(params);
     try {
-      const searchParams = new URLSearchParams({
-        key: this.apiKey,
-        cx: this.cseId,
-        q: params.q,
-      });
+      const response = await this.provider.search(params);
+      return {
+        items: response.items,
+        searchInformation: response.totalResults !== undefined
+          ? { totalResults: String(response.totalResults) }
+          : undefined,
+      };
+    } catch (error) {
+      console.error('Search provider error:', error);
+      throw new Error(`Failed to perform ${this.provider.name} search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      // Add optional parameters
-      if (params.fileType) searchParams.append('fileType', params.fileType);
-      if (params.siteSearch) searchParams.append('siteSearch', params.siteSearch);
-      if (params.dateRestrict) searchParams.append('dateRestrict', params.dateRestrict);
-      if (params.safe) searchParams.append('safe', params.safe);
-      if (params.exactTerms) searchParams.append('exactTerms', params.exactTerms);
-      if (params.excludeTerms) searchParams.append('excludeTerms', params.excludeTerms);
-      if (params.sort) searchParams.append('sort', params.sort);
-      if (params.gl) searchParams.append('gl', params.gl);
-      if (params.hl) searchParams.append('hl', params.hl);
-      if (params.num) searchParams.append('num', params.num.toString());
-      if (params.start) searchParams.append('start', params.start.toString());
-
-      const response: AxiosResponse<GoogleSearchResponse> = await axios.get(
-        `${this.baseUrl}?${searchParams}`,
-        { timeout: 10000 }
-      );
-
-      return response.data;
+  /**
+   * Fetch up to `maxResults` (max 100) results in pages of 10, deduplicated by URL.
+   * `nextStart` can be passed back as `start` to continue the result set.
+   */
+  async searchAll(params: SearchParams, maxResults: number): Promise<PagedSearchResult> {
+    validateSearchFilters(params);
+    try {
+      return await searchPaged(query => this.provider.search(query), params, Math.min(maxResults, MAX_PAGED_RESULTS));
     } catch (error) {
-      console.error('Google Search API error:', error);
-      throw new Error(`Failed to perform Google search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Search provider error:', error);
+      throw new Error(`Failed to perform ${this.provider.name} search: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -116,48 +129,14 @@ export class GoogleSearchService {
    */
   async extractContent(url: string): Promise<ContentAnalysis> {
     try {
-      const response = await axios.get(url, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; MCP-Server/1.0)',
-        },
-      });
-
-      const $ = cheerio.load(response.data);
-
-      // Remove script and style elements
+      const resource = await this.fetcher.fetch(url);
+      const pdf = isPdf(resource.contentType, resource.body);
+      const html = pdf ? '' : decodeText(resource);
+      const page = pdf ? await extractPdfContent(resource.body, resource.finalUrl) : extractReadableContent(html, resource.finalUrl);
+      const content = page.text;
+      const $ = cheerio.load(html);
       $('script, style, nav, header, footer, aside, .ad, .advertisement').remove();
 
-      // Extract main content
-      const title = $('title').text().trim() ||
-                   $('h1').first().text().trim() ||
-                   'No title found';
-
-      // Try to find main content areas
-      let content = '';
-      const contentSelectors = ['main', 'article', '.content', '.post', '.entry', '#content', '#main'];
-
-      for (const selector of contentSelectors) {
-        const element = $(selector);
-        if (element.length > 0 && element.text().trim().length > content.length) {
-          content = element.text().trim();
-          break;
-        }
-      }
-
-      // Fallback to body if no main content found
-      if (!content) {
-        content = $('body').text().trim();
-      }
-
-      // Clean up whitespace
-      content = content.replace(/\s+/g, ' ').trim();
-
-      // Limit content length
-      if (content.length > 10000) {
-        content = content.substring(0, 10000) + '...';
-      }
-
       // Extract links and images
       const links: string[] = [];
       const images: string[] = [];
@@ -180,13 +159,18 @@ export class GoogleSearchService {
       const sentimentAnalysis = sentiment.analyze(content);
 
       // Calculate basic readability score (simplified)
-      const words = content.split(/\s+/).length;
+      const words = page.wordCount;
       const sentences = content.split(/[.!?]+/).length;
       const avgWordsPerSentence = words / Math.max(sentences, 1);
 
       return {
-        title,
+        format: page.format,
+        title: page.title,
         content,
+        markdown: page.markdown,
+        byline: page.byline,
+        publishedAt: page.publishedAt,
+        siteName: page.siteName,
         wordCount: words,
         readabilityScore: avgWordsPerSentence > 20 ? 0.3 : avgWordsPerSentence > 15 ? 0.6 : 1.0,
         sentiment: {
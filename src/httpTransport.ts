@@ -0,0 +1,138 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Transport, JSONRPCPayload } from './transport.js';
+
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+export interface HttpTransportOptions {
+  port?: number;
+  host?: string;
+  path?: string;
+  maxBodyBytes?: number;
+}
+
+/**
+ * JSON-RPC over plain HTTP POST. Each request body is handed to `onmessage`
+ * and the returned Response is written back to the client as-is.
+ */
+export class HttpTransport implements Transport {
+  private httpServer: Server | null = null;
+  private options: Required<Omit<HttpTransportOptions, 'host'>> & { host?: string };
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (rawMessage: string, connection?: object) => Promise<Response>;
+
+  constructor(options: HttpTransportOptions = {}) {
+    this.options = {
+      port: options.port ?? 3000,
+      host: options.host,
+      path: options.path ?? '/rpc',
+      maxBodyBytes: options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES,
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.httpServer) {
+      throw new Error('HttpTransport already started');
+    }
+
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+        if (!res.headersSent) {
+          res.writeHead(500).end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => resolve());
+    });
+  }
+
+  async send(message: JSONRPCPayload): Promise<Response> {
+    if (message === null) {
+      return new Response(null, { status: 204 });
+    }
+    return new Response(JSON.stringify(message), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.httpServer) return;
+
+    const server = this.httpServer;
+    this.httpServer = null;
+    await new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()));
+    this.onclose?.();
+  }
+
+  /**
+   * The address the server is listening on; useful when started with port 0.
+   */
+  address(): AddressInfo | null {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? address : null;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== this.options.path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    const body = await readRequestBody(req, this.options.maxBodyBytes);
+    if (body === null) {
+      res.writeHead(413, { Connection: 'close' }).end();
+      return;
+    }
+
+    if (!this.onmessage) {
+      res.writeHead(503).end();
+      return;
+    }
+
+    // Keep-alive requests share a socket, which stands for the client connection
+    const response = await this.onmessage(body, req.socket);
+    res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+    res.end(response.body ? Buffer.from(await response.arrayBuffer()) : undefined);
+  }
+
+}
+
+/**
+ * Read a request body as text, or null once it grows past `maxBytes`. The rest
+ * of an oversized body is drained rather than buffered, so the caller can still
+ * answer with 413 on the same connection.
+ */
+export function readRequestBody(req: IncomingMessage, maxBytes: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer | string) => {
+      if (size > maxBytes) return;
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        resolve(null);
+        return;
+      }
+      chunks.push(buffer);
+    });
+    req.on('end', () => {
+      if (size <= maxBytes) resolve(Buffer.concat(chunks).toString('utf8'));
+    });
+    req.on('error', reject);
+  });
+}
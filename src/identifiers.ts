@@ -0,0 +1,383 @@
+import * as cheerio from 'cheerio';
+import { CitationItem, CitationItemType, CslDate, CslName, normalizeDoi, parseDate, parseName } from './citations.js';
+import {
+  ARXIV_BASE_URL,
+  ArxivEntry,
+  baseUrl,
+  CROSSREF_BASE_URL,
+  getScholarlyData,
+  queryArxiv,
+  ScholarlyApiOptions,
+  stripMarkup,
+} from './scholarlyApi.js';
+
+export type IdentifierType = 'doi' | 'isbn' | 'arxiv' | 'pmid' | 'url';
+
+export const IDENTIFIER_TYPES: IdentifierType[] = ['doi', 'isbn', 'arxiv', 'pmid', 'url'];
+
+export type MetadataSource = 'crossref' | 'openlibrary' | 'arxiv' | 'pubmed' | 'meta-tags';
+
+export interface ParsedIdentifier {
+  type: IdentifierType;
+  // Normalized: bare DOI, ISBN digits, arXiv ID with version, PMID digits or the URL
+  value: string;
+}
+
+export interface ResolvedIdentifier {
+  identifier: ParsedIdentifier;
+  source: MetadataSource;
+  // Where the metadata was read from
+  sourceUrl: string;
+  item: CitationItem;
+}
+
+export interface IdentifierResolverOptions extends ScholarlyApiOptions {
+  // Fetches pages for URL identifiers; should go through the URL policy
+  fetchHtml: (url: string) => Promise<string>;
+  crossrefBaseUrl?: string;
+  openLibraryBaseUrl?: string;
+  arxivBaseUrl?: string;
+  pubmedBaseUrl?: string;
+  // Sent to Crossref so requests go to its polite pool
+  contactEmail?: string;
+}
+
+const OPEN_LIBRARY_BASE_URL = 'https://openlibrary.org';
+const PUBMED_BASE_URL = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+const ARXIV_NEW_ID = /^\d{4}\.\d{4,5}(?:v\d+)?$/;
+const ARXIV_OLD_ID = /^[a-z-]+(?:\.[A-Z]{2})?\/\d{7}(?:v\d+)?$/;
+
+function isValidIsbn(digits: string): boolean {
+  if (/^\d{9}[\dX]$/.test(digits)) {
+    const sum = [...digits].reduce((total, digit, index) => total + (digit === 'X' ? 10 : Number(digit)) * (10 - index), 0);
+    return sum % 11 === 0;
+  }
+  if (/^\d{13}$/.test(digits)) {
+    const sum = [...digits].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+    return sum % 10 === 0;
+  }
+  return false;
+}
+
+function identifierFromUrl(url: URL): ParsedIdentifier | undefined {
+  const host = url.hostname.replace(/^www\./, '');
+  const path = decodeURIComponent(url.pathname);
+  if (host === 'doi.org' || host === 'dx.doi.org') {
+    const doi = normalizeDoi(path.slice(1));
+    return doi ? { type: 'doi', value: doi } : undefined;
+  }
+  if (host === 'arxiv.org' || host === 'export.arxiv.org') {
+    const id = path.match(/^\/(?:abs|pdf)\/(.+?)(?:\.pdf)?$/)?.[1];
+    return id && (ARXIV_NEW_ID.test(id) || ARXIV_OLD_ID.test(id)) ? { type: 'arxiv', value: id } : undefined;
+  }
+  if (host === 'pubmed.ncbi.nlm.nih.gov' || host === 'ncbi.nlm.nih.gov') {
+    const pmid = path.match(/^\/(?:pubmed\/)?(\d{1,9})\/?$/)?.[1];
+    return pmid ? { type: 'pmid', value: pmid } : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Recognize a DOI, ISBN, arXiv ID, PMID or URL. DOI, arXiv and PubMed URLs
+ * count as their identifier; `type` forces one reading when the input is ambiguous.
+ */
+export function parseIdentifier(input: string, type?: IdentifierType): ParsedIdentifier {
+  const raw = input.trim();
+  const fail = () => new Error(`"${input}" is not a valid ${type ? type.toUpperCase() : 'DOI, ISBN, arXiv ID, PMID or URL'}`);
+
+  let url: URL | undefined;
+  if (/^https?:\/\//i.test(raw)) {
+    try {
+      url = new URL(raw);
+    } catch {
+      throw fail();
+    }
+  }
+  const fromUrl = url ? identifierFromUrl(url) : undefined;
+  if (fromUrl && (!type || type === fromUrl.type)) return fromUrl;
+
+  const doi = /^(?:doi:\s*)?10\.\d{4,9}\/\S+$/i.test(raw) ? normalizeDoi(raw) : undefined;
+  const arxiv = raw.replace(/^arxiv:\s*/i, '');
+  const isbn = raw.replace(/^isbn(?:-1[03])?:?\s*/i, '').replace(/[\s-]/g, '').toUpperCase();
+  const pmid = raw.replace(/^pmid:\s*/i, '');
+  const candidates: [IdentifierType, string | undefined][] = [
+    ['doi', doi],
+    ['arxiv', ARXIV_NEW_ID.test(arxiv) || ARXIV_OLD_ID.test(arxiv) ? arxiv : undefined],
+    ['isbn', isValidIsbn(isbn) ? isbn : undefined],
+    ['pmid', /^\d{1,9}$/.test(pmid) ? pmid : undefined],
+    ['url', url?.toString()],
+  ];
+  const match = candidates.find(([candidate, value]) => value !== undefined && (!type || candidate === type));
+  if (!match) throw fail();
+  return { type: match[0], value: match[1]! };
+}
+
+// Shared helpers
+function first<T>(values: T[] | T | undefined): T | undefined {
+  return Array.isArray(values) ? values[0] : values;
+}
+
+function withoutEmpty(item: CitationItem): CitationItem {
+  return Object.fromEntries(Object.entries(item).filter(([, value]) =>
+    value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+  )) as unknown as CitationItem;
+}
+
+function today(): CslDate {
+  return parseDate(new Date().toISOString().slice(0, 10))!;
+}
+
+// Crossref
+const CROSSREF_TYPES: Record<string, CitationItemType> = {
+  'journal-article': 'article-journal',
+  'book-chapter': 'chapter',
+  'book-section': 'chapter',
+  'book-part': 'chapter',
+  'reference-entry': 'entry-encyclopedia',
+  'proceedings-article': 'paper-conference',
+  book: 'book',
+  monograph: 'book',
+  'edited-book': 'book',
+  'reference-book': 'book',
+  report: 'report',
+  dissertation: 'thesis',
+};
+
+function crossrefNames(names: any[] | undefined): CslName[] | undefined {
+  return names?.map(name => name.family
+    ? { family: name.family, ...(name.given ? { given: name.given } : {}), ...(name.suffix ? { suffix: name.suffix } : {}) }
+    : { literal: name.name ?? name.given ?? '' });
+}
+
+function crossrefDate(work: any): CslDate | undefined {
+  for (const key of ['issued', 'published-print', 'published-online', 'created']) {
+    const parts = work[key]?.['date-parts']?.[0];
+    if (Array.isArray(parts) && parts[0] != null) return { 'date-parts': [parts.filter((part: number | null): part is number => part != null)] };
+  }
+  return undefined;
+}
+
+function crossrefToItem(work: any): CitationItem {
+  const subtitle = first(work.subtitle);
+  return withoutEmpty({
+    type: CROSSREF_TYPES[work.type] ?? 'document',
+    title: [stripMarkup(first(work.title)), stripMarkup(subtitle)].filter(Boolean).join(': '),
+    author: crossrefNames(work.author),
+    editor: crossrefNames(work.editor),
+    'container-title': stripMarkup(first(work['container-title'])),
+    publisher: work.publisher,
+    'publisher-place': work['publisher-location'],
+    issued: crossrefDate(work),
+    volume: work.volume,
+    issue: work.issue,
+    page: work.page,
+    edition: work['edition-number'],
+    DOI: normalizeDoi(work.DOI),
+    URL: work.URL,
+    ISSN: first(work.ISSN),
+    ISBN: first(work.ISBN),
+    language: work.language,
+    abstract: stripMarkup(work.abstract),
+  });
+}
+
+// OpenLibrary
+function openLibraryToItem(book: any, isbn: string): CitationItem {
+  return withoutEmpty({
+    type: 'book',
+    title: [book.title, book.subtitle].filter(Boolean).join(': '),
+    author: book.authors?.map((author: any) => parseName(author.name)),
+    publisher: first(book.publishers)?.name,
+    'publisher-place': first(book.publish_places)?.name,
+    issued: parseDate(book.publish_date),
+    ISBN: isbn,
+  });
+}
+
+// arXiv
+function arxivToItem(entry: ArxivEntry): CitationItem {
+  return withoutEmpty({
+    type: 'document',
+    title: entry.title,
+    author: entry.authors.map(parseName),
+    'container-title': 'arXiv',
+    publisher: 'arXiv',
+    number: `arXiv:${entry.id}`,
+    issued: parseDate(entry.published),
+    // arXiv registers a DataCite DOI for every preprint
+    DOI: `10.48550/arXiv.${entry.id}`,
+    URL: `https://arxiv.org/abs/${entry.versionedId}`,
+    abstract: entry.summary,
+    note: [entry.journalRef && `Published in ${entry.journalRef}`, entry.doi && `doi:${entry.doi}`].filter(Boolean).join(', ') || undefined,
+  });
+}
+
+// "Jumper JM" in NLM order, initials without periods
+function pubmedName(author: any): CslName {
+  if (author.authtype && author.authtype !== 'Author') return { literal: author.name };
+  const words = String(author.name).trim().split(/\s+/);
+  if (words.length === 1) return { family: words[0] };
+  const initials = words[words.length - 1];
+  return {
+    family: words.slice(0, -1).join(' '),
+    given: /^[A-Z]+$/.test(initials) ? [...initials].map(letter => `${letter}.`).join(' ') : initials,
+  };
+}
+
+const PUBMED_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "2021 Aug 26", "2021 Aug", "2021 Jul-Aug" or "2021"
+function pubmedDate(value: string | undefined): CslDate | undefined {
+  const match = value?.match(/^(\d{4})(?:\s+([A-Za-z]{3})[A-Za-z]*(?:\s+(\d{1,2}))?)?/);
+  if (!match) return value ? { literal: value } : undefined;
+  const month = match[2] ? PUBMED_MONTHS.indexOf(match[2].toLowerCase()) + 1 : 0;
+  return { 'date-parts': [[Number(match[1]), ...(month ? [month] : []), ...(month && match[3] ? [Number(match[3])] : [])]] };
+}
+
+// NLM abbreviates page ranges: 583-9 is 583-589
+function expandPages(pages: string | undefined): string | undefined {
+  return pages?.replace(/^(\d+)-(\d+)$/, (range, start: string, end: string) =>
+    end.length < start.length ? `${start}-${start.slice(0, start.length - end.length)}${end}` : range);
+}
+
+function pubmedToItem(summary: any, pmid: string): CitationItem {
+  const doi = summary.articleids?.find((id: any) => id.idtype === 'doi')?.value;
+  return withoutEmpty({
+    type: 'article-journal',
+    title: String(summary.title ?? '').replace(/\.$/, ''),
+    author: summary.authors?.map(pubmedName),
+    'container-title': summary.fulljournalname || summary.source,
+    issued: pubmedDate(summary.pubdate),
+    volume: summary.volume,
+    issue: summary.issue,
+    page: expandPages(summary.pages),
+    DOI: normalizeDoi(doi),
+    ISSN: summary.issn || summary.essn,
+    URL: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+  });
+}
+
+/**
+ * Citation metadata from a page's meta tags, as publishers and repositories
+ * expose it for Google Scholar, falling back to Dublin Core and Open Graph.
+ */
+export function metaTagsToItem(html: string, url: string): CitationItem | undefined {
+  const $ = cheerio.load(html);
+  const all = (...names: string[]) => {
+    for (const name of names) {
+      const values = $(`meta[name="${name}" i], meta[property="${name}" i]`)
+        .map((_, element) => $(element).attr('content')?.trim()).get()
+        .filter(Boolean);
+      if (values.length > 0) return values as string[];
+    }
+    return [];
+  };
+  const meta = (...names: string[]) => all(...names)[0];
+
+  const title = meta('citation_title', 'dc.title', 'dcterms.title', 'og:title') || $('title').first().text().replace(/\s+/g, ' ').trim();
+  if (!title) return undefined;
+  const journal = meta('citation_journal_title');
+  const conference = meta('citation_conference_title');
+  const book = meta('citation_inbook_title', 'citation_book_title');
+  const thesisInstitution = meta('citation_dissertation_institution');
+  const reportInstitution = meta('citation_technical_report_institution');
+  const isbn = meta('citation_isbn');
+  const type: CitationItemType = journal ? 'article-journal'
+    : conference ? 'paper-conference'
+    : book ? 'chapter'
+    : thesisInstitution ? 'thesis'
+    : reportInstitution ? 'report'
+    : isbn ? 'book'
+    : 'webpage';
+  const firstPage = meta('citation_firstpage');
+  const lastPage = meta('citation_lastpage');
+  const date = meta('citation_publication_date', 'citation_date', 'citation_online_date', 'dc.date', 'dcterms.issued', 'dcterms.date', 'article:published_time');
+  const identifiers = all('citation_doi', 'dc.identifier', 'dcterms.identifier');
+
+  return withoutEmpty({
+    type,
+    title,
+    author: all('citation_author', 'dc.creator', 'dcterms.creator', 'author').map(parseName),
+    'container-title': journal ?? conference ?? book ?? meta('og:site_name'),
+    publisher: meta('citation_publisher', 'dc.publisher', 'dcterms.publisher') ?? thesisInstitution ?? reportInstitution,
+    issued: parseDate(date?.replace(/\//g, '-')),
+    accessed: type === 'webpage' ? today() : undefined,
+    volume: meta('citation_volume'),
+    issue: meta('citation_issue'),
+    page: firstPage && lastPage ? `${firstPage}-${lastPage}` : firstPage,
+    number: meta('citation_technical_report_number'),
+    DOI: identifiers.map(normalizeDoi).find(Boolean),
+    ISBN: isbn,
+    ISSN: meta('citation_issn'),
+    URL: meta('citation_abstract_html_url', 'citation_public_url') ?? url,
+    language: meta('citation_language', 'dc.language', 'dcterms.language') ?? $('html').attr('lang'),
+    abstract: meta('citation_abstract', 'dc.description', 'dcterms.abstract'),
+    keyword: meta('citation_keywords')?.split(/\s*[;,]\s*/).filter(Boolean).join(', '),
+  });
+}
+
+/**
+ * Turns identifiers into CSL-JSON citation items: DOIs through Crossref,
+ * ISBNs through OpenLibrary, arXiv IDs through the arXiv API, PMIDs through
+ * PubMed E-utilities and other URLs through the page's citation meta tags.
+ */
+export class IdentifierResolver {
+  constructor(private options: IdentifierResolverOptions) {}
+
+  async resolve(input: string, type?: IdentifierType): Promise<ResolvedIdentifier> {
+    const identifier = parseIdentifier(input, type);
+    switch (identifier.type) {
+      case 'doi':
+        return this.resolveDoi(identifier);
+      case 'isbn':
+        return this.resolveIsbn(identifier);
+      case 'arxiv':
+        return this.resolveArxiv(identifier);
+      case 'pmid':
+        return this.resolvePmid(identifier);
+      case 'url':
+        return this.resolveUrl(identifier);
+    }
+  }
+
+  private get(label: string, url: string, params: Record<string, string>, notFound: string): Promise<any> {
+    return getScholarlyData(label, url, params, this.options, { notFound });
+  }
+
+  private async resolveDoi(identifier: ParsedIdentifier): Promise<ResolvedIdentifier> {
+    const sourceUrl = `${baseUrl(this.options.crossrefBaseUrl, CROSSREF_BASE_URL)}/works/${encodeURIComponent(identifier.value)}`;
+    const data = await this.get('Crossref', sourceUrl, this.options.contactEmail ? { mailto: this.options.contactEmail } : {}, `No Crossref record for DOI ${identifier.value}`);
+    return { identifier, source: 'crossref', sourceUrl, item: crossrefToItem(data.message) };
+  }
+
+  private async resolveIsbn(identifier: ParsedIdentifier): Promise<ResolvedIdentifier> {
+    const sourceUrl = `${baseUrl(this.options.openLibraryBaseUrl, OPEN_LIBRARY_BASE_URL)}/api/books`;
+    const key = `ISBN:${identifier.value}`;
+    const data = await this.get('OpenLibrary', sourceUrl, { bibkeys: key, format: 'json', jscmd: 'data' }, `No OpenLibrary record for ISBN ${identifier.value}`);
+    if (!data?.[key]) throw new Error(`No OpenLibrary record for ISBN ${identifier.value}`);
+    return { identifier, source: 'openlibrary', sourceUrl: `${sourceUrl}?bibkeys=${key}`, item: openLibraryToItem(data[key], identifier.value) };
+  }
+
+  private async resolveArxiv(identifier: ParsedIdentifier): Promise<ResolvedIdentifier> {
+    const base = baseUrl(this.options.arxivBaseUrl, ARXIV_BASE_URL);
+    const notFound = `No arXiv record for ${identifier.value}`;
+    const [entry] = await queryArxiv(base, { id_list: identifier.value, max_results: '1' }, this.options, { notFound });
+    if (!entry) throw new Error(notFound);
+    return { identifier, source: 'arxiv', sourceUrl: `${base}/api/query?id_list=${identifier.value}`, item: arxivToItem(entry) };
+  }
+
+  private async resolvePmid(identifier: ParsedIdentifier): Promise<ResolvedIdentifier> {
+    const sourceUrl = `${baseUrl(this.options.pubmedBaseUrl, PUBMED_BASE_URL)}/esummary.fcgi`;
+    const data = await this.get('PubMed', sourceUrl, { db: 'pubmed', id: identifier.value, retmode: 'json' }, `No PubMed record for PMID ${identifier.value}`);
+    const summary = data?.result?.[identifier.value];
+    if (!summary || summary.error) throw new Error(`No PubMed record for PMID ${identifier.value}`);
+    return { identifier, source: 'pubmed', sourceUrl: `${sourceUrl}?db=pubmed&id=${identifier.value}`, item: pubmedToItem(summary, identifier.value) };
+  }
+
+  private async resolveUrl(identifier: ParsedIdentifier): Promise<ResolvedIdentifier> {
+    const item = metaTagsToItem(await this.options.fetchHtml(identifier.value), identifier.value);
+    if (!item) throw new Error(`No citation metadata found at ${identifier.value}`);
+    return { identifier, source: 'meta-tags', sourceUrl: identifier.value, item };
+  }
+}
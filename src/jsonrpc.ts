@@ -1,17 +1,39 @@
 import { Transport, JSONRPCMessage } from './transport.js';
 
+// Standard JSON-RPC 2.0 error codes
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+export const SERVER_ERROR = -32000;
+
+/**
+ * Error carrying a JSON-RPC error code. Handlers throw it to control the
+ * code returned to the caller, e.g. INVALID_PARAMS for bad arguments.
+ */
+export class JSONRPCError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message);
+    this.name = 'JSONRPCError';
+  }
+}
+
+// `connection` is the transport's key for the client connection, when it has one
+export type JSONRPCHandler = (params: any, connection?: object) => Promise<any>;
+
 export class JSONRPCServer {
   private transport: Transport;
-  private handlers: Record<string, (params: any) => Promise<any>> = {};
+  private handlers: Record<string, JSONRPCHandler> = {};
 
   constructor(transport: Transport) {
     this.transport = transport;
-    this.transport.onmessage = this.handleMessage.bind(this);
+    this.transport.onmessage = this.processText.bind(this);
     this.transport.onerror = (err: Error) => console.error('Transport error', err);
     this.transport.onclose = () => console.log('Transport closed');
   }
 
-  public on(method: string, handler: (params: any) => Promise<any>) {
+  public on(method: string, handler: JSONRPCHandler) {
     this.handlers[method] = handler;
   }
 
@@ -19,36 +41,84 @@ export class JSONRPCServer {
     await this.transport.start();
   }
 
-  public async processRequest(requestBody: any): Promise<Response> {
-    if (!requestBody || typeof requestBody !== 'object' || requestBody === null) {
-      const errorResponseMsg: JSONRPCMessage = {
-        jsonrpc: '2.0',
-        error: { code: -32600, message: 'Invalid Request: body must be a JSON object.' },
-        id: (requestBody && typeof requestBody.id !== 'undefined') ? requestBody.id : null,
-      };
-      return this.transport.send(errorResponseMsg);
+  public async close(): Promise<void> {
+    await this.transport.close();
+  }
+
+  /**
+   * Entry point for raw request bodies. Malformed JSON yields a -32700 parse error.
+   */
+  public async processText(rawMessage: string, connection?: object): Promise<Response> {
+    let requestBody: unknown;
+    try {
+      requestBody = JSON.parse(rawMessage);
+    } catch {
+      return this.transport.send(this.errorResponse(null, PARSE_ERROR, 'Parse error'));
+    }
+    return this.processRequest(requestBody, connection);
+  }
+
+  /**
+   * Process a parsed request body: a single request object or a batch array.
+   * Notifications (requests without an id) never produce a response entry.
+   */
+  public async processRequest(requestBody: unknown, connection?: object): Promise<Response> {
+    if (Array.isArray(requestBody)) {
+      if (requestBody.length === 0) {
+        return this.transport.send(this.errorResponse(null, INVALID_REQUEST, 'Invalid Request: batch must not be empty.'));
+      }
+
+      const responses = await Promise.all(requestBody.map(message => this.handleMessage(message, connection)));
+      const batchResponse = responses.filter((response): response is JSONRPCMessage => response !== null);
+      return this.transport.send(batchResponse.length > 0 ? batchResponse : null);
     }
 
-    return this.handleMessage(requestBody as JSONRPCMessage);
+    return this.transport.send(await this.handleMessage(requestBody, connection));
   }
 
-  private async handleMessage(msg: JSONRPCMessage): Promise<Response> {
-    if (msg.jsonrpc !== '2.0' || !msg.method) {
-      const errorMsg: JSONRPCMessage = { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid JSON-RPC request object' }, id: msg.id };
-      return this.transport.send(errorMsg);
+  private async handleMessage(msg: unknown, connection?: object): Promise<JSONRPCMessage | null> {
+    if (!msg || typeof msg !== 'object' || Array.isArray(msg)) {
+      return this.errorResponse(null, INVALID_REQUEST, 'Invalid Request: body must be a JSON object.');
     }
-    const handler = this.handlers[msg.method];
-    const responseMsg: JSONRPCMessage = { jsonrpc: '2.0', id: msg.id };
+
+    const request = msg as JSONRPCMessage;
+    const id = this.isValidId(request.id) ? request.id : null;
+    if (request.jsonrpc !== '2.0' || typeof request.method !== 'string' || !this.isValidId(request.id)) {
+      return this.errorResponse(id, INVALID_REQUEST, 'Invalid JSON-RPC request object');
+    }
+
+    const isNotification = !('id' in request);
+    const respond = (response: JSONRPCMessage) => isNotification ? null : response;
+
+    if (request.params !== undefined && (request.params === null || typeof request.params !== 'object')) {
+      return respond(this.errorResponse(id, INVALID_PARAMS, 'Invalid params: params must be an object or array'));
+    }
+
+    const handler = this.handlers[request.method];
     if (!handler) {
-      responseMsg.error = { code: -32601, message: 'Method not found' };
-      return this.transport.send(responseMsg);
+      return respond(this.errorResponse(id, METHOD_NOT_FOUND, 'Method not found'));
     }
+
     try {
-      const result = await handler(msg.params);
-      responseMsg.result = result;
+      const result = await handler(request.params, connection);
+      return respond({ jsonrpc: '2.0', result: result ?? null, id });
     } catch (err: any) {
-      responseMsg.error = { code: -32000, message: err.message || String(err) };
+      if (err instanceof JSONRPCError) {
+        return respond(this.errorResponse(id, err.code, err.message, err.data));
+      }
+      return respond(this.errorResponse(id, SERVER_ERROR, err?.message || String(err)));
     }
-    return this.transport.send(responseMsg);
+  }
+
+  private isValidId(id: unknown): boolean {
+    return id === undefined || id === null || typeof id === 'string' || typeof id === 'number';
+  }
+
+  private errorResponse(id: string | number | null | undefined, code: number, message: string, data?: any): JSONRPCMessage {
+    return {
+      jsonrpc: '2.0',
+      error: data === undefined ? { code, message } : { code, message, data },
+      id: id ?? null,
+    };
   }
 }
@@ -0,0 +1,409 @@
+import { ExtractedContent } from './contentExtractor.js';
+
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+export interface PdfPageContent {
+  number: number;
+  items: PdfTextItem[];
+}
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  creationDate?: string;
+  lang?: string;
+}
+
+interface Line {
+  page: number;
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+}
+
+// A line while it is being assembled, with the x where its text ends
+type OpenLine = Line & { end: number };
+
+interface Block {
+  page: number;
+  kind: 'heading' | 'paragraph';
+  text: string;
+}
+
+// Text-heavy papers rarely need more; very long PDFs are cut here
+export const MAX_PDF_PAGES = 100;
+
+// Content types a PDF may be served as; anything else is skipped before its body is downloaded
+export const PDF_CONTENT_TYPES = ['application/pdf', 'application/x-pdf', 'application/octet-stream'];
+
+// Items on one baseline further apart than this many font sizes sit in different columns
+const COLUMN_GAP = 1.5;
+
+const SECTION_KEYWORDS = /^(abstract|introduction|background|related work|methods?|methodology|materials and methods|results|discussion|conclusions?|acknowledge?ments?|appendix|references|bibliography)$/i;
+const NUMBERED_HEADING = /^(\d+(\.\d+)*\.?|[IVX]+\.)\s+\p{Lu}[^.]{0,80}$/u;
+const REFERENCES_HEADING = /^((\d+|[IVX]+)\.?\s+)?(references|bibliography|works cited|literature cited|cited literature)$/i;
+const APPENDIX_HEADING = /^((\d+|[A-Z])\.?\s+)?(appendix|appendices|supplementary (material|information))\b/i;
+const REFERENCE_MARKER = /^(\[\d+\]|\d+\.\s)/;
+const AFFILIATION = /universit|institut|department|dept\.|laborator|school|college|faculty|centre|center|inc\.|corp|ltd|@/i;
+const PAGE_NUMBER = /^(page\s+)?\d+(\s*(of|\/)\s*\d+)?$/i;
+
+/**
+ * PDF responses are recognised by content type, or by the %PDF- signature
+ * when servers send a generic type such as application/octet-stream.
+ */
+export function isPdf(contentType: string | undefined, body: Uint8Array): boolean {
+  if (contentType && /application\/(x-)?pdf/i.test(contentType)) return true;
+  if (contentType && /html|xml|text\//i.test(contentType)) return false;
+  return Buffer.from(body.subarray(0, 1024)).toString('latin1').includes('%PDF-');
+}
+
+/**
+ * Convert a PDF date ("D:20230415120000+02'00'") to ISO 8601.
+ */
+export function parsePdfDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/);
+  if (!match) return undefined;
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+  const offset = !zone || zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(3).replace(/'/g, '') || '00'}`;
+  const parsed = Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  return Number.isNaN(parsed) ? undefined : new Date(parsed).toISOString();
+}
+
+// Join text items that share a baseline and sit close together into lines
+function groupLines(page: PdfPageContent): Line[] {
+  const items = page.items
+    .filter(item => item.text.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: OpenLine[] = [];
+  for (const item of items) {
+    const line = lines.find(candidate => {
+      const fontSize = Math.max(candidate.fontSize, item.fontSize);
+      return Math.abs(candidate.y - item.y) <= fontSize * 0.4
+        && item.x - candidate.end <= fontSize * COLUMN_GAP
+        && candidate.x - (item.x + item.width) <= fontSize * COLUMN_GAP;
+    });
+    if (!line) {
+      lines.push({ page: page.number, text: item.text, x: item.x, y: item.y, fontSize: item.fontSize, end: item.x + item.width });
+      continue;
+    }
+    const gap = item.x - line.end;
+    const spaced = /\s$/.test(line.text) || /^\s/.test(item.text);
+    line.text += !spaced && gap > item.fontSize * 0.15 ? ` ${item.text}` : item.text;
+    line.end = Math.max(line.end, item.x + item.width);
+    line.x = Math.min(line.x, item.x);
+    line.fontSize = Math.max(line.fontSize, item.fontSize);
+  }
+  return readingOrder(lines).map(line => ({
+    page: line.page,
+    text: line.text.replace(/\s+/g, ' ').trim(),
+    x: line.x,
+    y: line.y,
+    fontSize: line.fontSize,
+  }));
+}
+
+/**
+ * The x of the gutter between two columns of running text: a position with
+ * at least three lines wholly on each side. Short table cells don't count.
+ */
+function findGutter(lines: OpenLine[]): number | undefined {
+  const prose = (side: OpenLine[]) => side.reduce((sum, line) => sum + line.text.length, 0) / side.length >= 20;
+  let gutter: number | undefined;
+  let support = 2;
+  for (const { x } of lines) {
+    const left = lines.filter(line => line.end <= x);
+    const right = lines.filter(line => line.x >= x);
+    if (Math.min(left.length, right.length) > support && prose(left) && prose(right)) {
+      gutter = x;
+      support = Math.min(left.length, right.length);
+    }
+  }
+  return gutter;
+}
+
+// Top to bottom; on multi-column pages each column is read before the next,
+// with lines spanning the gutter (titles, full-width abstracts) read in place
+function readingOrder(lines: OpenLine[]): OpenLine[] {
+  const sorted = [...lines].sort((a, b) => b.y - a.y || a.x - b.x);
+  const gutter = findGutter(sorted);
+  if (gutter === undefined) return sorted;
+
+  const ordered: OpenLine[] = [];
+  let left: OpenLine[] = [];
+  let right: OpenLine[] = [];
+  for (const line of sorted) {
+    if (line.end <= gutter) {
+      left.push(line);
+    } else if (line.x >= gutter) {
+      right.push(line);
+    } else {
+      ordered.push(...left, ...right, line);
+      left = [];
+      right = [];
+    }
+  }
+  return [...ordered, ...left, ...right];
+}
+
+// Running heads and footers repeat on most pages; page numbers stand alone
+function dropPageFurniture(pages: Line[][]): Line[][] {
+  const key = (line: Line) => line.text.replace(/\d+/g, '#').toLowerCase();
+  const counts = new Map<string, number>();
+  for (const lines of pages) {
+    const edges = new Set([...lines.slice(0, 2), ...lines.slice(-2)].map(key));
+    edges.forEach(edge => counts.set(edge, (counts.get(edge) || 0) + 1));
+  }
+  const repeated = (line: Line) => pages.length >= 3 && (counts.get(key(line)) || 0) >= pages.length / 2;
+  return pages.map(lines => lines.filter((line, index) => {
+    const atEdge = index < 2 || index >= lines.length - 2;
+    return !(atEdge && (PAGE_NUMBER.test(line.text) || repeated(line)));
+  }));
+}
+
+// Font size that most of the text is set in
+function bodyFontSize(lines: Line[]): number {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) || 0) + line.text.length);
+  }
+  return [...weights].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+}
+
+function isHeading(line: Line, bodySize: number): boolean {
+  if (line.text.length > 120 || /[.,;]$/.test(line.text)) return false;
+  if (SECTION_KEYWORDS.test(line.text.replace(/^(\d+|[IVX]+)\.?\s+/, ''))) return true;
+  if (line.fontSize >= bodySize * 1.15 && /\p{L}/u.test(line.text)) return true;
+  return line.fontSize >= bodySize && line.text.length <= 80 && NUMBERED_HEADING.test(line.text);
+}
+
+// Join wrapped lines, undoing end-of-line hyphenation
+function joinLines(previous: string, next: string): string {
+  if (/\p{L}-$/u.test(previous) && /^\p{Ll}/u.test(next)) return previous.slice(0, -1) + next;
+  return `${previous} ${next}`;
+}
+
+function buildBlocks(lines: Line[], bodySize: number): Block[] {
+  const blocks: Block[] = [];
+  let previous: Line | undefined;
+  for (const line of lines) {
+    const last = blocks[blocks.length - 1];
+    if (isHeading(line, bodySize)) {
+      blocks.push({ page: line.page, kind: 'heading', text: line.text });
+    } else if (
+      last?.kind === 'paragraph' && previous && previous.page === line.page &&
+      // The top of the next column starts a new paragraph
+      previous.y > line.y && previous.y - line.y <= Math.max(previous.fontSize, line.fontSize) * 1.7 &&
+      Math.abs(previous.fontSize - line.fontSize) < 1
+    ) {
+      last.text = joinLines(last.text, line.text);
+    } else {
+      blocks.push({ page: line.page, kind: 'paragraph', text: line.text });
+    }
+    previous = line;
+  }
+  return blocks;
+}
+
+/**
+ * Split a references section into entries: by [n] / n. markers when the
+ * list is numbered, otherwise by the hanging indent of author-year styles.
+ */
+function splitReferences(lines: Line[]): string[] {
+  if (lines.length === 0) return [];
+  const numbered = REFERENCE_MARKER.test(lines[0].text);
+  const margin = Math.min(...lines.map(line => line.x));
+  const entries: string[] = [];
+  lines.forEach((line, index) => {
+    const startsEntry = index === 0 || (numbered
+      ? REFERENCE_MARKER.test(line.text)
+      : line.x <= margin + 1 && (lines[index - 1].x > margin + 1 || /\.$/.test(lines[index - 1].text)));
+    if (startsEntry) entries.push(line.text);
+    else entries[entries.length - 1] = joinLines(entries[entries.length - 1], line.text);
+  });
+  return entries.map(entry => entry.replace(REFERENCE_MARKER, '').trim()).filter(Boolean);
+}
+
+// Last path segment of a URL, or '' when the URL or its %-escapes are malformed
+function fileNameOf(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  } catch {
+    return '';
+  }
+}
+
+function usableTitle(title: string | undefined): string | undefined {
+  const trimmed = title?.replace(/\s+/g, ' ').trim();
+  if (!trimmed || trimmed.length < 4) return undefined;
+  if (/^(untitled|microsoft word|title|document\d*)\b/i.test(trimmed) || /\.(pdf|docx?|tex|dvi|ps)$/i.test(trimmed)) return undefined;
+  return trimmed;
+}
+
+function splitAuthors(text: string): string[] {
+  return text
+    .split(/\s*(?:,|;|\band\b|&)\s*/)
+    .map(name => name.replace(/[\d*†‡§¶]+$/u, '').trim())
+    .filter(Boolean);
+}
+
+function isAuthorName(name: string): boolean {
+  return /^\p{Lu}[\p{L}.'’-]*(\s+\p{Lu}[\p{L}.'’-]*){1,3}$/u.test(name);
+}
+
+/**
+ * Turn positioned PDF text into the same shape as HTML extraction: pages are
+ * kept apart, headings are told apart by font size and section names, and the
+ * title, authors, abstract and references are recovered where the layout
+ * follows the usual paper conventions.
+ */
+export function structurePdf(pageContents: PdfPageContent[], info: PdfInfo, url: string): ExtractedContent {
+  const pages = dropPageFurniture(pageContents.map(groupLines));
+  const allLines = pages.flat();
+  const bodySize = bodyFontSize(allLines);
+
+  // Title: document info when meaningful, else the largest text at the top of the first page
+  const firstPage = pages[0] || [];
+  const top = firstPage.slice(0, 15);
+  const largest = Math.max(0, ...top.map(line => line.fontSize));
+  let titleStart = 0;
+  let titleEnd = 0;
+  if (largest > bodySize) {
+    titleStart = top.findIndex(line => line.fontSize === largest);
+    titleEnd = titleStart;
+    while (top[titleEnd + 1]?.fontSize === largest) titleEnd++;
+  }
+  const titleLines = top.slice(titleStart, titleEnd + 1);
+  const fallbackTitle = fileNameOf(url) || 'Untitled PDF';
+  const titleFromLines = titleLines.map(line => line.text).join(' ');
+  const title = usableTitle(info.title) || usableTitle(titleFromLines) || fallbackTitle;
+
+  // Authors: document info, else name lines between the title and the first heading.
+  // Name and affiliation lines are front matter and stay out of the content.
+  let authors = splitAuthors(info.author || '');
+  const frontMatter: Line[] = [];
+  for (const line of firstPage.slice(titleEnd + 1, titleEnd + 7)) {
+    if (isHeading(line, bodySize) || /^abstract\b/i.test(line.text) || line.text.length > 150) break;
+    const names = splitAuthors(line.text);
+    // Affiliations follow the names; a body line mentioning a "center" must not match
+    if (frontMatter.length > 0 && AFFILIATION.test(line.text)) {
+      frontMatter.push(line);
+    } else if (names.length > 0 && names.every(isAuthorName)) {
+      if (!info.author) authors.push(...names);
+      frontMatter.push(line);
+    }
+  }
+  authors = [...new Set(authors)];
+
+  // The references section runs from its heading to an appendix or the end
+  const referencesStart = allLines.map(line => REFERENCES_HEADING.test(line.text)).lastIndexOf(true);
+  const appendixStart = referencesStart >= 0
+    ? allLines.findIndex((line, index) => index > referencesStart && APPENDIX_HEADING.test(line.text))
+    : -1;
+  const referenceLines = referencesStart >= 0
+    ? allLines.slice(referencesStart + 1, appendixStart >= 0 ? appendixStart : undefined)
+    : [];
+  const references = splitReferences(referenceLines);
+
+  // Title and author lines are reported as metadata rather than repeated in the content
+  const skipped = new Set<Line>([...(title === titleFromLines ? titleLines : []), ...frontMatter, ...referenceLines]);
+  if (referencesStart >= 0) skipped.add(allLines[referencesStart]);
+  const blocks = buildBlocks(allLines.filter(line => !skipped.has(line)), bodySize);
+
+  // Abstract: the paragraphs under an "Abstract" heading, or a paragraph opening with the word
+  let abstract: string | undefined;
+  const abstractHeading = blocks.findIndex(block => block.kind === 'heading' && /^abstract$/i.test(block.text));
+  if (abstractHeading >= 0) {
+    const end = blocks.findIndex((block, index) => index > abstractHeading && block.kind === 'heading');
+    abstract = blocks.slice(abstractHeading + 1, end >= 0 ? end : undefined).map(block => block.text).join('\n\n') || undefined;
+  } else {
+    const opening = blocks.find(block => block.kind === 'paragraph' && /^abstract\b\s*[-—–.:]?\s*/i.test(block.text));
+    abstract = opening?.text.replace(/^abstract\b\s*[-—–.:]?\s*/i, '');
+  }
+
+  const renderPage = (number: number, plain: boolean) => blocks
+    .filter(block => block.page === number)
+    .map(block => block.kind === 'heading' && !plain ? `## ${block.text}` : block.text);
+  const referencesMarkdown = references.length > 0
+    ? [`## References\n\n${references.map((entry, index) => `${index + 1}. ${entry}`).join('\n')}`]
+    : [];
+  const markdown = pages
+    .map((_, index) => [`<!-- page ${index + 1} -->`, ...renderPage(index + 1, false)].join('\n\n'))
+    .concat(referencesMarkdown)
+    .join('\n\n');
+  const text = pages.map((_, index) => renderPage(index + 1, true).join('\n\n')).filter(Boolean).join('\n\n');
+
+  return {
+    format: 'pdf',
+    title,
+    byline: authors.length > 0 ? authors.join(', ') : undefined,
+    publishedAt: parsePdfDate(info.creationDate),
+    excerpt: abstract?.slice(0, 300),
+    lang: info.lang || undefined,
+    markdown,
+    text,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+    authors,
+    abstract,
+    references,
+    pages: pages.map((lines, index) => ({ number: index + 1, text: lines.map(line => line.text).join('\n') })),
+  };
+}
+
+export type PdfJsLoader = () => Promise<Pick<typeof import('pdfjs-dist/legacy/build/pdf.mjs'), 'getDocument'>>;
+
+// Loaded on first use: pdf.js is large and most requests are HTML
+const loadPdfJs: PdfJsLoader = () => import('pdfjs-dist/legacy/build/pdf.mjs');
+
+/**
+ * Extract text from a PDF with pdf.js (pure JavaScript, no native code) and
+ * structure it like an HTML page.
+ */
+export async function extractPdfContent(data: Uint8Array, url: string, maxPages = MAX_PDF_PAGES, loadPdf: PdfJsLoader = loadPdfJs): Promise<ExtractedContent> {
+  const { getDocument } = await loadPdf();
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy
+  const document = await getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const metadata = await document.getMetadata().catch(() => undefined);
+    const info = (metadata?.info || {}) as Record<string, any>;
+    const pages: PdfPageContent[] = [];
+    for (let number = 1; number <= Math.min(document.numPages, maxPages); number++) {
+      const page = await document.getPage(number);
+      const content = await page.getTextContent();
+      pages.push({
+        number,
+        items: content.items.flatMap(item => 'str' in item ? [{
+          text: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+        }] : []),
+      });
+      page.cleanup();
+    }
+
+    return structurePdf(pages, {
+      title: info.Title,
+      author: info.Author,
+      creationDate: info.CreationDate,
+      lang: info.Language,
+    }, url);
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,307 @@
+import { fetchErrorCode } from './fetcher.js';
+import { normalizeResultUrl, SearchResultItem } from './searchProviders.js';
+import { contentWords } from './stopWords.js';
+import { splitSentences } from './summarizer.js';
+
+export type ResearchType = 'academic' | 'news' | 'factual' | 'comprehensive';
+export type ResearchDepth = 'quick' | 'standard' | 'deep';
+export type ResearchChannel = 'web' | 'academic' | 'news' | 'wikipedia';
+
+export interface ResearchBudget {
+  searches: number;
+  resultsPerSearch: number;
+  pagesToFetch: number;
+}
+
+// `searches` caps the query budget, `pagesToFetch` the crawl breadth
+export const DEPTH_BUDGETS: Record<ResearchDepth, ResearchBudget> = {
+  quick: { searches: 3, resultsPerSearch: 3, pagesToFetch: 2 },
+  standard: { searches: 6, resultsPerSearch: 5, pagesToFetch: 5 },
+  deep: { searches: 12, resultsPerSearch: 8, pagesToFetch: 10 },
+};
+
+// Where each research type looks first; unavailable channels are skipped
+export const RESEARCH_ROUTES: Record<ResearchType, ResearchChannel[]> = {
+  academic: ['academic'],
+  news: ['news'],
+  factual: ['wikipedia'],
+  comprehensive: ['web', 'wikipedia', 'academic', 'news'],
+};
+
+// Query templates per research type, in priority order
+const EXPANSIONS: Record<ResearchType, [string, (topic: string, core: string) => string][]> = {
+  academic: [
+    ['Research overview', topic => topic],
+    ['Reviews and meta-analyses', (_, core) => `${core} systematic review OR meta-analysis`],
+    ['Empirical findings', (_, core) => `${core} study results`],
+    ['Methods', (_, core) => `${core} methodology`],
+    ['Open questions', (_, core) => `${core} limitations future research`],
+    ['Recent work', (_, core) => `${core} ${new Date().getFullYear()}`],
+  ],
+  news: [
+    ['Latest coverage', topic => topic],
+    ['Recent developments', (_, core) => `${core} latest news`],
+    ['Announcements', (_, core) => `${core} announcement`],
+    ['Analysis', (_, core) => `${core} analysis`],
+    ['Reactions', (_, core) => `${core} reaction`],
+  ],
+  factual: [
+    ['Overview', topic => topic],
+    ['Core subject', (_, core) => core],
+    ['Definition', (_, core) => `${core} definition`],
+    ['Background', (_, core) => `${core} history`],
+    ['Key facts', (_, core) => `${core} facts`],
+  ],
+  comprehensive: [
+    ['Overview', topic => topic],
+    ['Key facts', (_, core) => `${core} key facts`],
+    ['Recent developments', (_, core) => `${core} recent developments`],
+    ['Analysis', (_, core) => `${core} analysis`],
+    ['Debate and criticism', (_, core) => `${core} criticism`],
+    ['Outlook', (_, core) => `${core} future`],
+  ],
+};
+
+const QUESTION_WORDS = /^(?:(?:what|who|whom|whose|which|when|where|why|how|is|are|was|were|do|does|did|can|could|should|would|will)\b\s*)+/i;
+
+export interface PlannedSearch {
+  label: string;
+  query: string;
+  channel: ResearchChannel;
+  resultCount?: number;
+  error?: string;
+}
+
+export interface ResearchSource {
+  id: number;
+  title: string;
+  url: string;
+  channel: ResearchChannel;
+  section: string;
+  snippet: string;
+  hits: number;
+  fetched: boolean;
+  error?: string;
+  // FetchError or UrlPolicyError code when the page could not be read
+  errorCode?: string;
+}
+
+export interface BriefingSection {
+  heading: string;
+  points: { text: string; citations: number[] }[];
+}
+
+export interface ResearchBriefing {
+  topic: string;
+  researchType: ResearchType;
+  depth: ResearchDepth;
+  plan: { channels: ResearchChannel[]; skippedChannels: ResearchChannel[]; budget: ResearchBudget; searches: PlannedSearch[] };
+  sections: BriefingSection[];
+  sources: ResearchSource[];
+  briefing: string;
+}
+
+// A channel returns search results; Wikipedia can hand back article text directly
+export type ChannelSearch = (query: string, num: number) => Promise<(SearchResultItem & { content?: string })[]>;
+
+export interface ResearchAssistantOptions {
+  channels: Partial<Record<ResearchChannel, ChannelSearch>>;
+  fetchPage: (url: string) => Promise<{ title: string; content: string }>;
+}
+
+interface Candidate {
+  item: SearchResultItem & { content?: string };
+  channel: ResearchChannel;
+  section: string;
+  rank: number;
+  hits: number;
+}
+
+function terms(text: string): string[] {
+  return contentWords(text);
+}
+
+/**
+ * Strip question words from questions so "How does X affect Y?" expands as "X affect Y".
+ */
+export function coreTerms(topic: string): string {
+  const trimmed = topic.trim();
+  if (!trimmed.endsWith('?')) return trimmed;
+  const core = trimmed.replace(/\?+$/, '').replace(QUESTION_WORDS, '').trim();
+  return core || trimmed;
+}
+
+export function expandQueries(topic: string, researchType: ResearchType): { label: string; query: string }[] {
+  const core = coreTerms(topic);
+  const seen = new Set<string>();
+  return EXPANSIONS[researchType]
+    .map(([label, build]) => ({ label, query: build(topic.trim(), core) }))
+    .filter(({ query }) => {
+      const key = query.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Pick the sentences that share the most terms with the topic, in reading order.
+ */
+export function keySentences(text: string, topic: string, count: number): string[] {
+  const topicTerms = new Set(terms(topic));
+  const scored = splitSentences(text)
+    .map((sentence, index) => ({ sentence, index, score: terms(sentence).filter(term => topicTerms.has(term)).length }))
+    .filter(({ sentence, score }) => score > 0 && sentence.length >= 40 && sentence.length <= 400);
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, count)
+    .sort((a, b) => a.index - b.index)
+    .map(({ sentence }) => sentence);
+}
+
+/**
+ * Research pipeline: expand the topic into queries, route them to the channels
+ * that suit the research type, deduplicate the results, read the top pages and
+ * write a sectioned briefing with numbered citations.
+ */
+export class ResearchAssistant {
+  constructor(private options: ResearchAssistantOptions) {}
+
+  plan(topic: string, researchType: ResearchType, depth: ResearchDepth): ResearchBriefing['plan'] {
+    if (!RESEARCH_ROUTES[researchType]) {
+      throw new Error(`Unknown research type "${researchType}". Use ${Object.keys(RESEARCH_ROUTES).join(', ')}.`);
+    }
+    if (!DEPTH_BUDGETS[depth]) {
+      throw new Error(`Unknown depth "${depth}". Use ${Object.keys(DEPTH_BUDGETS).join(', ')}.`);
+    }
+    const budget = DEPTH_BUDGETS[depth];
+    const routed = RESEARCH_ROUTES[researchType];
+    let channels = routed.filter(channel => this.options.channels[channel]);
+    // Fall back to Wikipedia rather than returning nothing when web search is unavailable
+    if (channels.length === 0 && this.options.channels.wikipedia) {
+      channels = ['wikipedia'];
+    }
+
+    const expansions = expandQueries(topic, researchType);
+    const searches: PlannedSearch[] = [];
+    for (const expansion of expansions) {
+      for (const channel of channels) {
+        if (searches.length < budget.searches) {
+          searches.push({ ...expansion, channel });
+        }
+      }
+    }
+
+    return { channels, skippedChannels: routed.filter(channel => !channels.includes(channel)), budget, searches };
+  }
+
+  async research(topic: string, researchType: ResearchType = 'comprehensive', depth: ResearchDepth = 'standard'): Promise<ResearchBriefing> {
+    const plan = this.plan(topic, researchType, depth);
+    if (plan.searches.length === 0) {
+      throw new Error('No research sources available. Configure web search or enable Wikipedia.');
+    }
+
+    const candidates = await this.search(plan);
+    const selected = candidates.slice(0, Math.max(plan.budget.pagesToFetch, plan.channels.length * 2));
+    const contents = await this.fetchContents(selected, plan.budget.pagesToFetch);
+
+    const sources: ResearchSource[] = selected.map((candidate, index) => ({
+      id: index + 1,
+      title: contents[index].title || candidate.item.title,
+      url: candidate.item.link,
+      channel: candidate.channel,
+      section: candidate.section,
+      snippet: candidate.item.snippet,
+      hits: candidate.hits,
+      fetched: contents[index].fetched,
+      ...(contents[index].error && { error: contents[index].error }),
+      ...(contents[index].errorCode && { errorCode: contents[index].errorCode }),
+    }));
+
+    const sections = this.buildSections(topic, plan.searches, sources, contents.map(content => content.text));
+    return {
+      topic,
+      researchType,
+      depth,
+      plan,
+      sections,
+      sources,
+      briefing: this.renderBriefing(topic, sections, sources),
+    };
+  }
+
+  private async search(plan: ResearchBriefing['plan']): Promise<Candidate[]> {
+    const responses = await Promise.all(plan.searches.map(async (search) => {
+      try {
+        const items = await this.options.channels[search.channel]!(search.query, plan.budget.resultsPerSearch);
+        search.resultCount = items.length;
+        return items;
+      } catch (error) {
+        search.error = error instanceof Error ? error.message : 'Unknown error';
+        search.resultCount = 0;
+        return [];
+      }
+    }));
+
+    // The same URL found by several searches is merged and ranked higher
+    const byUrl = new Map<string, Candidate>();
+    responses.forEach((items, searchIndex) => {
+      items.forEach((item, position) => {
+        const key = normalizeResultUrl(item.link);
+        const existing = byUrl.get(key);
+        if (existing) {
+          existing.hits++;
+          existing.rank = Math.min(existing.rank, position);
+          if (!existing.item.content && item.content) existing.item = { ...existing.item, content: item.content };
+          return;
+        }
+        const search = plan.searches[searchIndex];
+        byUrl.set(key, { item, channel: search.channel, section: search.label, rank: position, hits: 1 });
+      });
+    });
+
+    return [...byUrl.values()].sort((a, b) => b.hits - a.hits || a.rank - b.rank);
+  }
+
+  private async fetchContents(candidates: Candidate[], pagesToFetch: number) {
+    let fetchSlots = pagesToFetch;
+    return Promise.all(candidates.map(async (candidate) => {
+      if (candidate.item.content) {
+        return { title: '', text: candidate.item.content, fetched: true };
+      }
+      if (fetchSlots <= 0) {
+        return { title: '', text: candidate.item.snippet, fetched: false };
+      }
+      fetchSlots--;
+      try {
+        const page = await this.options.fetchPage(candidate.item.link);
+        return { title: page.title, text: page.content, fetched: true };
+      } catch (error) {
+        return { title: '', text: candidate.item.snippet, fetched: false, error: error instanceof Error ? error.message : 'Unknown error', errorCode: fetchErrorCode(error) };
+      }
+    }));
+  }
+
+  private buildSections(topic: string, searches: PlannedSearch[], sources: ResearchSource[], texts: string[]): BriefingSection[] {
+    const headings = [...new Set(searches.map(search => search.label))];
+    return headings.map(heading => {
+      const query = searches.find(search => search.label === heading)!.query;
+      const points = sources
+        .filter(source => source.section === heading)
+        .flatMap(source => {
+          const sentences = keySentences(texts[source.id - 1], `${topic} ${query}`, source.fetched ? 2 : 1);
+          const text = sentences.length > 0 ? sentences.join(' ') : source.snippet.trim();
+          return text ? [{ text, citations: [source.id] }] : [];
+        });
+      return { heading, points };
+    }).filter(section => section.points.length > 0);
+  }
+
+  private renderBriefing(topic: string, sections: BriefingSection[], sources: ResearchSource[]): string {
+    const body = sections.map(section =>
+      `## ${section.heading}\n${section.points.map(point => `- ${point.text} ${point.citations.map(id => `[${id}]`).join('')}`).join('\n')}`
+    ).join('\n\n');
+    const references = sources.map(source => `[${source.id}] ${source.title} (${source.channel}) ${source.url}`).join('\n');
+    return `# Research briefing: ${topic}\n\n${body || 'No findings.'}\n\n## Sources\n${references || 'None.'}`;
+  }
+}
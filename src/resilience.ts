@@ -13,6 +13,13 @@ export interface CircuitBreakerOptions {
   monitoringPeriod: number;
 }
 
+export class CircuitOpenError extends Error {
+  constructor() {
+    super('Circuit breaker is OPEN');
+    this.name = 'CircuitOpenError';
+  }
+}
+
 export class CircuitBreaker {
   private failures = 0;
   private lastFailureTime = 0;
@@ -25,7 +32,7 @@ export class CircuitBreaker {
       if (Date.now() - this.lastFailureTime > this.options.resetTimeout) {
         this.state = 'HALF_OPEN';
       } else {
-        throw new Error('Circuit breaker is OPEN');
+        throw new CircuitOpenError();
       }
     }
 
@@ -94,84 +101,114 @@ export async function retryWithBackoff<T>(
   throw lastError;
 }
 
-export class WikipediaEndpointManager {
+export interface EndpointManagerOptions {
+  // Mirrors of the same API, tried in order with the last healthy one first
+  endpoints: string[];
+  userAgent?: string;
+  timeout?: number;
+  retry?: Partial<RetryOptions>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+}
+
+// A non-2xx response, keeping the status and body for callers that explain API errors
+export class HttpStatusError extends Error {
+  constructor(public status: number, statusText: string, public body = '') {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+const DEFAULT_USER_AGENT = 'Wikipedia-MCP-Server/1.0 (https://github.com/1999AZZAR/wikipedia-mcp-server)';
+
+export class EndpointManager {
   private endpoints: string[];
   private currentEndpointIndex = 0;
   private circuitBreakers = new Map<string, CircuitBreaker>();
+  private retryOptions: RetryOptions;
 
-  constructor(language: string) {
-    this.endpoints = [
-      `https://${language}.wikipedia.org`,
-      `https://${language}.m.wikipedia.org`, // Mobile endpoint as fallback
-      // Add more mirrors/CDNs as needed
-    ];
+  constructor(private options: EndpointManagerOptions) {
+    this.endpoints = options.endpoints;
 
     // Initialize circuit breakers for each endpoint
     this.endpoints.forEach(endpoint => {
       this.circuitBreakers.set(endpoint, new CircuitBreaker({
         failureThreshold: 3,
         resetTimeout: 30000, // 30 seconds
-        monitoringPeriod: 60000 // 1 minute
+        monitoringPeriod: 60000, // 1 minute
+        ...options.circuitBreaker,
       }));
     });
-  }
 
-  async makeRequest(path: string): Promise<Response> {
-    const retryOptions: RetryOptions = {
+    this.retryOptions = {
       maxRetries: 3,
       baseDelay: 1000,
       maxDelay: 8000,
       backoffMultiplier: 2,
       retryableErrors: (error) => {
-        // Retry on network errors, 5xx errors, timeouts
-        return error.name === 'TypeError' || 
+        // Retry on network errors, rate limits, 5xx errors, timeouts
+        return error.name === 'TypeError' ||
+               error.status === 429 ||
                (error.status >= 500 && error.status < 600) ||
-               error.name === 'TimeoutError';
-      }
+               error.name === 'TimeoutError' ||
+               error.name === 'AbortError';
+      },
+      ...options.retry,
     };
+  }
 
-    return retryWithBackoff(async () => {
-      let lastError: any;
+  async makeRequest(path: string, init: RequestInit = {}): Promise<Response> {
+    // Kept across attempts so an endpoint's breaker opening doesn't hide why it failed
+    let lastError: any;
 
+    return retryWithBackoff(async () => {
       // Try each endpoint
       for (let i = 0; i < this.endpoints.length; i++) {
         const endpointIndex = (this.currentEndpointIndex + i) % this.endpoints.length;
         const endpoint = this.endpoints[endpointIndex];
         const circuitBreaker = this.circuitBreakers.get(endpoint)!;
 
+        let response: Response;
         try {
-          return await circuitBreaker.execute(async () => {
+          response = await circuitBreaker.execute(async () => {
             const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
+            const timeoutId = setTimeout(() => controller.abort(), this.options.timeout ?? 10000);
 
             try {
-              const response = await fetch(`${endpoint}${path}`, {
-                signal: controller.signal,
-                headers: {
-                  'User-Agent': 'Wikipedia-MCP-Server/1.0 (https://github.com/1999AZZAR/wikipedia-mcp-server)'
-                }
-              });
-
-              if (!response.ok) {
-                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+              const headers = new Headers(init.headers);
+              if (!headers.has('User-Agent')) {
+                headers.set('User-Agent', this.options.userAgent || DEFAULT_USER_AGENT);
               }
+              const response = await fetch(`${endpoint}${path}`, { ...init, headers, signal: controller.signal });
 
-              // Success - make this the preferred endpoint
-              this.currentEndpointIndex = endpointIndex;
+              // A rejected request is the caller's problem, not the endpoint's, so it doesn't trip the breaker
+              if (!response.ok && !isClientError(response.status)) {
+                throw new HttpStatusError(response.status, response.statusText, await response.text().catch(() => ''));
+              }
               return response;
             } finally {
               clearTimeout(timeoutId);
             }
           });
         } catch (error) {
-          lastError = error;
+          if (!(error instanceof CircuitOpenError) || !lastError) {
+            lastError = error;
+          }
           console.warn(`Endpoint ${endpoint} failed:`, (error as Error).message);
           continue;
         }
+
+        // Another mirror would reject the same request
+        if (!response.ok) {
+          throw new HttpStatusError(response.status, response.statusText, await response.text().catch(() => ''));
+        }
+
+        // Success - make this the preferred endpoint
+        this.currentEndpointIndex = endpointIndex;
+        return response;
       }
 
-      throw lastError || new Error('All Wikipedia endpoints failed');
-    }, retryOptions);
+      throw lastError || new Error('All endpoints failed');
+    }, this.retryOptions);
   }
 
   getEndpointStatus() {
@@ -182,6 +219,22 @@ export class WikipediaEndpointManager {
   }
 }
 
+export class WikipediaEndpointManager extends EndpointManager {
+  constructor(language: string) {
+    super({
+      endpoints: [
+        `https://${language}.wikipedia.org`,
+        `https://${language}.m.wikipedia.org`, // Mobile endpoint as fallback
+        // Add more mirrors/CDNs as needed
+      ],
+    });
+  }
+}
+
+function isClientError(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 429;
+}
+
 // Request deduplication
 export class RequestDeduplicator {
   private pendingRequests = new Map<string, Promise<any>>();
@@ -0,0 +1,133 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { normalizeDoi } from './citations.js';
+
+export const OPENALEX_BASE_URL = 'https://api.openalex.org';
+export const SEMANTIC_SCHOLAR_BASE_URL = 'https://api.semanticscholar.org';
+export const CROSSREF_BASE_URL = 'https://api.crossref.org';
+export const ARXIV_BASE_URL = 'https://export.arxiv.org';
+
+// arXiv's API terms ask for no more than one request every three seconds
+export const ARXIV_REQUEST_INTERVAL = 3000;
+
+export interface ScholarlyApiOptions {
+  userAgent?: string;
+  timeout?: number;
+  // Milliseconds between arXiv API requests, ARXIV_REQUEST_INTERVAL by default
+  arxivRequestInterval?: number;
+}
+
+export interface ScholarlyRequest {
+  headers?: Record<string, string>;
+  // Message for a 404 or 400 answer, which these APIs give for unknown IDs
+  notFound?: string;
+}
+
+export function baseUrl(configured: string | undefined, fallback: string): string {
+  return (configured || fallback).replace(/\/$/, '');
+}
+
+/**
+ * GET a scholarly API, turning HTTP failures into readable messages.
+ */
+export async function getScholarlyData(
+  label: string,
+  url: string,
+  params: Record<string, string | number | undefined>,
+  options: ScholarlyApiOptions,
+  request: ScholarlyRequest = {}
+): Promise<any> {
+  try {
+    const response = await axios.get(url, {
+      params,
+      timeout: options.timeout ?? 15000,
+      headers: { ...(options.userAgent ? { 'User-Agent': options.userAgent } : {}), ...request.headers },
+    });
+    return response.data;
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    if (request.notFound && (status === 404 || status === 400)) {
+      throw new Error(request.notFound);
+    }
+    if (status === 429) {
+      throw new Error(`${label} rate limit reached, try again later`);
+    }
+    if (status !== undefined) {
+      throw new Error(`${label} returned HTTP ${status}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Plain text from a title or abstract that may carry HTML or JATS markup.
+ */
+export function stripMarkup(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const text = cheerio.load(value, null, false).text().replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+// arXiv
+export interface ArxivEntry {
+  // With version, e.g. 1706.03762v7
+  versionedId: string;
+  // Without version
+  id: string;
+  title: string;
+  authors: string[];
+  // YYYY-MM-DD
+  published?: string;
+  summary?: string;
+  journalRef?: string;
+  // The publisher's DOI, once the preprint is published
+  doi?: string;
+  pdfUrl?: string;
+}
+
+/**
+ * Entries of an arXiv API Atom feed. Unknown IDs come back as an entry
+ * titled "Error" whose id is not an abstract page; those are skipped.
+ */
+export function parseArxivFeed(atom: string): ArxivEntry[] {
+  const $ = cheerio.load(atom, { xmlMode: true });
+  return $('entry').map((_, element): ArxivEntry | undefined => {
+    const entry = $(element);
+    const text = (selector: string) => entry.children(selector).first().text().replace(/\s+/g, ' ').trim() || undefined;
+    const versionedId = text('id')?.match(/arxiv\.org\/abs\/(.+)$/)?.[1];
+    const title = text('title');
+    if (!versionedId || !title) return undefined;
+    return {
+      versionedId,
+      id: versionedId.replace(/v\d+$/, ''),
+      title,
+      authors: entry.children('author').map((_, author) => $(author).children('name').text().trim()).get().filter(Boolean),
+      published: text('published')?.slice(0, 10),
+      summary: text('summary'),
+      journalRef: text('arxiv\\:journal_ref'),
+      doi: normalizeDoi(text('arxiv\\:doi')),
+      pdfUrl: entry.children('link[title="pdf"]').attr('href')?.replace(/^http:/, 'https:'),
+    };
+  }).get().filter((entry): entry is ArxivEntry => entry !== undefined);
+}
+
+// Earliest start of the next request, per arXiv API base URL
+const arxivNextRequest = new Map<string, number>();
+
+/**
+ * Query the arXiv API at `base`, keeping requests to it at least
+ * `options.arxivRequestInterval` apart.
+ */
+export async function queryArxiv(
+  base: string,
+  params: Record<string, string | number | undefined>,
+  options: ScholarlyApiOptions,
+  request: ScholarlyRequest = {}
+): Promise<ArxivEntry[]> {
+  const now = Date.now();
+  const next = arxivNextRequest.get(base) ?? 0;
+  arxivNextRequest.set(base, Math.max(now, next) + (options.arxivRequestInterval ?? ARXIV_REQUEST_INTERVAL));
+  if (next > now) await new Promise(resolve => setTimeout(resolve, next - now));
+  const atom = await getScholarlyData('arXiv', `${base}/api/query`, params, options, request);
+  return parseArxivFeed(String(atom));
+}
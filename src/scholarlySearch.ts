@@ -0,0 +1,352 @@
+import { normalizeDoi } from './citations.js';
+import {
+  ARXIV_BASE_URL,
+  ArxivEntry,
+  baseUrl,
+  CROSSREF_BASE_URL,
+  getScholarlyData,
+  OPENALEX_BASE_URL,
+  queryArxiv,
+  ScholarlyApiOptions,
+  SEMANTIC_SCHOLAR_BASE_URL,
+  stripMarkup,
+} from './scholarlyApi.js';
+
+export type ScholarlyProviderName = 'openalex' | 'semanticscholar' | 'arxiv' | 'crossref';
+
+export const SCHOLARLY_PROVIDERS: ScholarlyProviderName[] = ['openalex', 'semanticscholar', 'arxiv', 'crossref'];
+
+export interface ScholarlyQuery {
+  query: string;
+  // Results requested from each provider, and the size of the merged list
+  limit: number;
+  // Earliest publication date, YYYY-MM-DD
+  fromDate?: string;
+  // Only papers with an open-access PDF
+  openAccess?: boolean;
+}
+
+/**
+ * One paper, normalized across providers. `url` is the DOI link when there
+ * is a DOI, otherwise the provider's landing page.
+ */
+export interface ScholarlyRecord {
+  title: string;
+  authors: string[];
+  venue?: string;
+  year?: number;
+  doi?: string;
+  // Without version, e.g. 1706.03762
+  arxivId?: string;
+  abstract?: string;
+  citationCount?: number;
+  pdfUrl?: string;
+  url: string;
+  // Providers that returned this paper, best-ranked first
+  sources: ScholarlyProviderName[];
+}
+
+export interface ScholarlyProvider {
+  readonly name: ScholarlyProviderName;
+  search(query: ScholarlyQuery): Promise<ScholarlyRecord[]>;
+}
+
+export interface ScholarlyProviderStatus {
+  name: ScholarlyProviderName;
+  count: number;
+  error?: string;
+}
+
+export interface ScholarlySearchResult {
+  records: ScholarlyRecord[];
+  providers: ScholarlyProviderStatus[];
+}
+
+export interface ScholarlySearchOptions extends ScholarlyApiOptions {
+  openAlexBaseUrl?: string;
+  semanticScholarBaseUrl?: string;
+  arxivBaseUrl?: string;
+  crossrefBaseUrl?: string;
+  // Raises the Semantic Scholar rate limit, which is shared between all anonymous clients
+  semanticScholarApiKey?: string;
+  // Sent to OpenAlex and Crossref so requests go to their polite pools
+  contactEmail?: string;
+}
+
+const ARXIV_DOI_PREFIX = /^10\.48550\/arxiv\./i;
+
+/**
+ * Google-style date restrictions (d7, w2, m6, y1) as the earliest date they allow.
+ */
+export function dateRestrictToFromDate(dateRestrict: string | undefined, now: Date = new Date()): string | undefined {
+  const match = dateRestrict?.match(/^([dwmy])(\d+)$/);
+  if (!match) return undefined;
+  const amount = parseInt(match[2]);
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (match[1] === 'd') date.setUTCDate(date.getUTCDate() - amount);
+  if (match[1] === 'w') date.setUTCDate(date.getUTCDate() - amount * 7);
+  if (match[1] === 'm') date.setUTCMonth(date.getUTCMonth() - amount);
+  if (match[1] === 'y') date.setUTCFullYear(date.getUTCFullYear() - amount);
+  return date.toISOString().slice(0, 10);
+}
+
+function doiUrl(doi: string | undefined): string | undefined {
+  return doi ? `https://doi.org/${doi}` : undefined;
+}
+
+function arxivIdOf(doi: string | undefined): string | undefined {
+  return doi && ARXIV_DOI_PREFIX.test(doi) ? doi.replace(ARXIV_DOI_PREFIX, '') : undefined;
+}
+
+// OpenAlex ships abstracts as word -> positions for licensing reasons
+function invertedIndexToText(index: Record<string, number[]> | null | undefined): string | undefined {
+  if (!index) return undefined;
+  const words: string[] = [];
+  for (const [word, positions] of Object.entries(index)) {
+    for (const position of positions) words[position] = word;
+  }
+  return words.filter(word => word !== undefined).join(' ') || undefined;
+}
+
+export class OpenAlexProvider implements ScholarlyProvider {
+  readonly name = 'openalex';
+
+  constructor(private options: ScholarlySearchOptions) {}
+
+  async search(query: ScholarlyQuery): Promise<ScholarlyRecord[]> {
+    const filters = [
+      query.fromDate && `from_publication_date:${query.fromDate}`,
+      query.openAccess && 'is_oa:true',
+    ].filter(Boolean);
+    const data = await getScholarlyData('OpenAlex', `${baseUrl(this.options.openAlexBaseUrl, OPENALEX_BASE_URL)}/works`, {
+      search: query.query,
+      'per-page': Math.min(query.limit, 200),
+      filter: filters.length > 0 ? filters.join(',') : undefined,
+      select: 'id,doi,display_name,publication_year,authorships,primary_location,best_oa_location,cited_by_count,abstract_inverted_index',
+      mailto: this.options.contactEmail,
+    }, this.options);
+
+    return (data?.results || []).filter((work: any) => work.display_name).map(openAlexWorkToRecord);
+  }
+}
+
+export function openAlexWorkToRecord(work: any): ScholarlyRecord {
+  const doi = normalizeDoi(work.doi);
+  return {
+    title: stripMarkup(work.display_name) ?? '',
+    authors: (work.authorships || []).map((authorship: any) => authorship.author?.display_name).filter(Boolean),
+    venue: work.primary_location?.source?.display_name || undefined,
+    year: work.publication_year || undefined,
+    doi,
+    arxivId: arxivIdOf(doi),
+    abstract: invertedIndexToText(work.abstract_inverted_index),
+    citationCount: work.cited_by_count,
+    pdfUrl: work.best_oa_location?.pdf_url || undefined,
+    url: doiUrl(doi) ?? work.primary_location?.landing_page_url ?? work.id,
+    sources: ['openalex'],
+  };
+}
+
+// Semantic Scholar
+export class SemanticScholarProvider implements ScholarlyProvider {
+  readonly name = 'semanticscholar';
+
+  constructor(private options: ScholarlySearchOptions) {}
+
+  async search(query: ScholarlyQuery): Promise<ScholarlyRecord[]> {
+    const data = await getScholarlyData('Semantic Scholar', `${baseUrl(this.options.semanticScholarBaseUrl, SEMANTIC_SCHOLAR_BASE_URL)}/graph/v1/paper/search`, {
+      query: query.query,
+      limit: Math.min(query.limit, 100),
+      fields: 'title,authors,venue,journal,year,externalIds,abstract,citationCount,openAccessPdf,url',
+      publicationDateOrYear: query.fromDate ? `${query.fromDate}:` : undefined,
+      // A flag: present means open-access papers only
+      openAccessPdf: query.openAccess ? '' : undefined,
+    }, this.options, { headers: this.options.semanticScholarApiKey ? { 'x-api-key': this.options.semanticScholarApiKey } : {} });
+
+    return (data?.data || []).filter((paper: any) => paper.title).map(semanticScholarPaperToRecord);
+  }
+}
+
+export function semanticScholarPaperToRecord(paper: any): ScholarlyRecord {
+  const doi = normalizeDoi(paper.externalIds?.DOI);
+  return {
+    title: String(paper.title ?? '').trim(),
+    authors: (paper.authors || []).map((author: any) => author.name).filter(Boolean),
+    venue: paper.venue || paper.journal?.name || undefined,
+    year: paper.year || undefined,
+    doi,
+    arxivId: paper.externalIds?.ArXiv || arxivIdOf(doi),
+    abstract: paper.abstract || undefined,
+    citationCount: paper.citationCount ?? undefined,
+    pdfUrl: paper.openAccessPdf?.url || undefined,
+    url: doiUrl(doi) ?? paper.url ?? `https://www.semanticscholar.org/paper/${paper.paperId}`,
+    sources: ['semanticscholar'],
+  };
+}
+
+// arXiv's query language treats these as syntax, so they are dropped from plain-text queries
+function arxivSearchQuery(query: ScholarlyQuery, now: Date): string {
+  const terms = query.query.replace(/[():"[\]]/g, ' ').split(/\s+/).filter(term => term && !/^(AND|OR|ANDNOT)$/.test(term));
+  const clauses = terms.map(term => `all:${term}`);
+  if (query.fromDate) {
+    const to = now.toISOString().slice(0, 10).replace(/-/g, '');
+    clauses.push(`submittedDate:[${query.fromDate.replace(/-/g, '')}0000 TO ${to}2359]`);
+  }
+  return clauses.join(' AND ');
+}
+
+function arxivEntryToRecord(entry: ArxivEntry): ScholarlyRecord {
+  const year = parseInt(entry.published?.slice(0, 4) ?? '');
+  return {
+    title: entry.title,
+    authors: entry.authors,
+    venue: entry.journalRef ?? 'arXiv',
+    year: isNaN(year) ? undefined : year,
+    // The publisher's DOI once the preprint is published, otherwise the DataCite DOI arXiv registers
+    doi: entry.doi ?? `10.48550/arXiv.${entry.id}`,
+    arxivId: entry.id,
+    abstract: entry.summary,
+    pdfUrl: entry.pdfUrl,
+    url: `https://arxiv.org/abs/${entry.versionedId}`,
+    sources: ['arxiv'],
+  };
+}
+
+export class ArxivProvider implements ScholarlyProvider {
+  readonly name = 'arxiv';
+
+  constructor(private options: ScholarlySearchOptions, private now: () => Date = () => new Date()) {}
+
+  async search(query: ScholarlyQuery): Promise<ScholarlyRecord[]> {
+    const searchQuery = arxivSearchQuery(query, this.now());
+    if (!searchQuery) return [];
+    const entries = await queryArxiv(baseUrl(this.options.arxivBaseUrl, ARXIV_BASE_URL), {
+      search_query: searchQuery,
+      start: 0,
+      max_results: Math.min(query.limit, 100),
+      sortBy: 'relevance',
+    }, this.options);
+    return entries.map(arxivEntryToRecord);
+  }
+}
+
+// Crossref
+export class CrossrefProvider implements ScholarlyProvider {
+  readonly name = 'crossref';
+
+  constructor(private options: ScholarlySearchOptions) {}
+
+  // Crossref has no open-access information, so openAccess is left to the merge step
+  async search(query: ScholarlyQuery): Promise<ScholarlyRecord[]> {
+    const data = await getScholarlyData('Crossref', `${baseUrl(this.options.crossrefBaseUrl, CROSSREF_BASE_URL)}/works`, {
+      'query.bibliographic': query.query,
+      rows: Math.min(query.limit, 100),
+      filter: query.fromDate ? `from-pub-date:${query.fromDate}` : undefined,
+      select: 'DOI,title,author,container-title,issued,abstract,is-referenced-by-count,URL',
+      mailto: this.options.contactEmail,
+    }, this.options);
+
+    return (data?.message?.items || []).filter((work: any) => work.title?.[0]).map((work: any): ScholarlyRecord => {
+      const doi = normalizeDoi(work.DOI);
+      const year = work.issued?.['date-parts']?.[0]?.[0];
+      return {
+        title: stripMarkup(work.title[0])!,
+        authors: (work.author || []).map((author: any) => author.name ?? [author.given, author.family].filter(Boolean).join(' ')).filter(Boolean),
+        venue: stripMarkup(work['container-title']?.[0]),
+        year: typeof year === 'number' ? year : undefined,
+        doi,
+        arxivId: arxivIdOf(doi),
+        abstract: stripMarkup(work.abstract),
+        citationCount: work['is-referenced-by-count'],
+        url: doiUrl(doi) ?? work.URL,
+        sources: ['crossref'],
+      };
+    });
+  }
+}
+
+// Merging
+function recordKeys(record: ScholarlyRecord): string[] {
+  return [
+    record.doi && `doi:${record.doi.toLowerCase()}`,
+    record.arxivId && `arxiv:${record.arxivId.replace(/v\d+$/, '').toLowerCase()}`,
+  ].filter((key): key is string => Boolean(key));
+}
+
+function mergeInto(target: ScholarlyRecord, record: ScholarlyRecord): void {
+  if (target.authors.length === 0) target.authors = [...record.authors];
+  // A publisher DOI beats arXiv's own DOI for the same paper
+  if (!target.doi || (ARXIV_DOI_PREFIX.test(target.doi) && record.doi && !ARXIV_DOI_PREFIX.test(record.doi))) {
+    target.doi = record.doi ?? target.doi;
+  }
+  target.venue ??= record.venue;
+  target.year ??= record.year;
+  target.arxivId ??= record.arxivId;
+  target.abstract ??= record.abstract;
+  target.pdfUrl ??= record.pdfUrl;
+  if (record.citationCount !== undefined) {
+    target.citationCount = Math.max(target.citationCount ?? 0, record.citationCount);
+  }
+  for (const source of record.sources) {
+    if (!target.sources.includes(source)) target.sources.push(source);
+  }
+}
+
+/**
+ * Interleave provider result lists by rank and merge papers that share a DOI
+ * (or arXiv ID), filling gaps in the best-ranked record from the others.
+ */
+export function mergeScholarlyRecords(lists: ScholarlyRecord[][]): ScholarlyRecord[] {
+  const merged: ScholarlyRecord[] = [];
+  const byKey = new Map<string, ScholarlyRecord>();
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const list of lists) {
+      const record = list[rank];
+      if (!record) continue;
+      let target = recordKeys(record).map(key => byKey.get(key)).find(Boolean);
+      if (target) {
+        mergeInto(target, record);
+      } else {
+        target = { ...record, authors: [...record.authors], sources: [...record.sources] };
+        merged.push(target);
+      }
+      for (const key of recordKeys(target)) byKey.set(key, target);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Searches scholarly APIs directly (no web search key needed) and merges the
+ * answers. A failing provider is reported in `providers` instead of failing
+ * the whole search.
+ */
+export class ScholarlySearch {
+  private providers: Record<ScholarlyProviderName, ScholarlyProvider>;
+
+  constructor(options: ScholarlySearchOptions = {}) {
+    this.providers = {
+      openalex: new OpenAlexProvider(options),
+      semanticscholar: new SemanticScholarProvider(options),
+      arxiv: new ArxivProvider(options),
+      crossref: new CrossrefProvider(options),
+    };
+  }
+
+  async search(query: ScholarlyQuery, providers: ScholarlyProviderName[] = SCHOLARLY_PROVIDERS): Promise<ScholarlySearchResult> {
+    const names = [...new Set(providers)];
+    const settled = await Promise.allSettled(names.map(name => this.providers[name].search(query)));
+    const lists = settled.map(result => result.status === 'fulfilled' ? result.value : []);
+    const statuses = names.map((name, index): ScholarlyProviderStatus => {
+      const result = settled[index];
+      return result.status === 'fulfilled'
+        ? { name, count: result.value.length }
+        : { name, count: 0, error: result.reason instanceof Error ? result.reason.message : 'Unknown error' };
+    });
+
+    let records = mergeScholarlyRecords(lists);
+    if (query.openAccess) records = records.filter(record => record.pdfUrl);
+    return { records: records.slice(0, query.limit), providers: statuses };
+  }
+}
@@ -0,0 +1,499 @@
+import { createHash } from 'node:crypto';
+import axios from 'axios';
+
+// Provider-neutral search parameters, modelled on the Google Custom Search API
+export interface SearchQuery {
+  q: string;
+  num?: number;
+  start?: number;
+  fileType?: string;
+  siteSearch?: string;
+  dateRestrict?: string;
+  safe?: string;
+  exactTerms?: string;
+  excludeTerms?: string;
+  orTerms?: string;
+  sort?: string;
+  gl?: string;
+  hl?: string;
+  lr?: string;
+  rights?: string;
+}
+
+export type SearchFilters = Omit<SearchQuery, 'q' | 'num' | 'start'>;
+
+export const SEARCH_FILTER_KEYS: (keyof SearchFilters)[] = [
+  'fileType', 'siteSearch', 'dateRestrict', 'safe', 'exactTerms', 'excludeTerms', 'orTerms', 'sort', 'gl', 'hl', 'lr', 'rights',
+];
+
+export const SEARCH_RIGHTS = ['cc_publicdomain', 'cc_attribute', 'cc_sharealike', 'cc_noncommercial', 'cc_nonderived'];
+
+export interface SearchResultItem {
+  title: string;
+  link: string;
+  snippet: string;
+  displayLink?: string;
+}
+
+export interface SearchResponse {
+  provider: string;
+  items: SearchResultItem[];
+  totalResults?: number;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  search(query: SearchQuery): Promise<SearchResponse>;
+}
+
+export interface SearchProviderConfig {
+  providers: string[];
+  google?: { apiKey?: string; cseId?: string };
+  searxng?: { baseUrl?: string };
+  brave?: { apiKey?: string };
+  bing?: { apiKey?: string };
+  timeout?: number;
+}
+
+function displayLinkOf(link: string): string | undefined {
+  try {
+    return new URL(link).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Providers without structured filters get them folded into the query string.
+ */
+export function buildOperatorQuery(query: SearchQuery): string {
+  const parts = [query.q];
+  if (query.exactTerms) parts.push(`"${query.exactTerms}"`);
+  if (query.excludeTerms) parts.push(...query.excludeTerms.split(/\s+/).filter(Boolean).map(term => `-${term}`));
+  if (query.orTerms) parts.push(`(${query.orTerms.split(/\s+/).filter(Boolean).join(' OR ')})`);
+  if (query.siteSearch) parts.push(`site:${query.siteSearch}`);
+  if (query.fileType) parts.push(`filetype:${query.fileType}`);
+  return parts.join(' ');
+}
+
+function isValidDate(yyyymmdd: string): boolean {
+  const date = new Date(`${yyyymmdd.slice(0, 4)}-${yyyymmdd.slice(4, 6)}-${yyyymmdd.slice(6, 8)}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10).replace(/-/g, '') === yyyymmdd;
+}
+
+/**
+ * Check filter syntax up front so a typo is reported instead of silently ignored by the API.
+ * Throws with a message describing the expected format.
+ */
+export function validateSearchFilters(filters: SearchFilters): void {
+  if (filters.dateRestrict !== undefined && !/^[dwmy][1-9]\d*$/.test(filters.dateRestrict)) {
+    throw new Error(`Invalid dateRestrict "${filters.dateRestrict}". Use d[number], w[number], m[number] or y[number], e.g. d7 or m6.`);
+  }
+
+  if (filters.sort !== undefined) {
+    const range = filters.sort.match(/^date:r:(\d{8}):(\d{8})$/);
+    if (range) {
+      if (!isValidDate(range[1]) || !isValidDate(range[2]) || range[1] > range[2]) {
+        throw new Error(`Invalid sort date range "${filters.sort}". Use date:r:YYYYMMDD:YYYYMMDD with the earlier date first.`);
+      }
+    } else if (!/^date(:[ad](:[sw])?)?$/.test(filters.sort)) {
+      throw new Error(`Invalid sort "${filters.sort}". Use date, date:a, date:d, date:d:s (bias) or date:r:YYYYMMDD:YYYYMMDD.`);
+    }
+  }
+
+  if (filters.lr !== undefined && !/^lang_[a-z]{2}(-[A-Za-z]{2})?$/.test(filters.lr)) {
+    throw new Error(`Invalid lr "${filters.lr}". Use lang_ followed by a language code, e.g. lang_en or lang_zh-TW.`);
+  }
+
+  if (filters.rights !== undefined) {
+    const unknown = filters.rights.replace(/^\(|\)$/g, '').split(/[|,]/).map(right => right.trim()).filter(right => !SEARCH_RIGHTS.includes(right));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid rights "${unknown.join(', ')}". Use ${SEARCH_RIGHTS.join(', ')}, combined with |.`);
+    }
+  }
+
+  if (filters.safe !== undefined && !['active', 'off'].includes(filters.safe)) {
+    throw new Error(`Invalid safe "${filters.safe}". Use active or off.`);
+  }
+
+  if (filters.gl !== undefined && !/^[a-zA-Z]{2}$/.test(filters.gl)) {
+    throw new Error(`Invalid gl "${filters.gl}". Use a two-letter country code, e.g. us.`);
+  }
+}
+
+/**
+ * Serve `num` results from 1-based `start` off an API with fixed-size pages:
+ * fetch every page the range touches (stopping at a short, final page) and slice.
+ */
+async function fetchPageRange<T>(start: number, num: number, pageSize: number, fetchPage: (page: number) => Promise<T[]>): Promise<T[]> {
+  const first = Math.floor((start - 1) / pageSize);
+  const last = Math.floor((start + num - 2) / pageSize);
+  const results: T[] = [];
+  for (let page = first; page <= last; page++) {
+    const pageResults = await fetchPage(page);
+    results.push(...pageResults);
+    if (pageResults.length < pageSize) break;
+  }
+  const offset = start - 1 - first * pageSize;
+  return results.slice(offset, offset + num);
+}
+
+// Google dateRestrict values (d7, w2, m6, y1, ...) bucketed into day/week/month/year
+function dateRestrictBucket(dateRestrict?: string): 'day' | 'week' | 'month' | 'year' | undefined {
+  const match = dateRestrict?.match(/^([dwmy])(\d+)$/);
+  if (!match) return undefined;
+  const days = parseInt(match[2]) * { d: 1, w: 7, m: 30, y: 365 }[match[1] as 'd' | 'w' | 'm' | 'y'];
+  if (days <= 1) return 'day';
+  if (days <= 7) return 'week';
+  if (days <= 31) return 'month';
+  return 'year';
+}
+
+export class GoogleSearchProvider implements SearchProvider {
+  readonly name = 'google';
+  private baseUrl = 'https://www.googleapis.com/customsearch/v1';
+
+  constructor(private options: { apiKey?: string; cseId?: string; timeout?: number }) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.options.apiKey && this.options.cseId);
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    if (!this.isConfigured()) {
+      throw new Error('Google Search not configured. Set GOOGLE_API_KEY and GOOGLE_CSE_ID environment variables.');
+    }
+
+    const params: Record<string, any> = {};
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null && value !== '') {
+        params[key] = value;
+      }
+    }
+    // Set last, so nothing in the query can replace the server's credentials
+    params.key = this.options.apiKey;
+    params.cx = this.options.cseId;
+
+    const response = await axios.get(this.baseUrl, { params, timeout: this.options.timeout ?? 10000 });
+    return {
+      provider: this.name,
+      items: (response.data.items || []).map((item: any) => ({
+        title: item.title,
+        link: item.link,
+        snippet: item.snippet || '',
+        displayLink: item.displayLink,
+      })),
+      totalResults: response.data.searchInformation?.totalResults
+        ? parseInt(response.data.searchInformation.totalResults)
+        : undefined,
+    };
+  }
+}
+
+export class SearxngSearchProvider implements SearchProvider {
+  readonly name = 'searxng';
+
+  constructor(private options: { baseUrl?: string; timeout?: number }) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.options.baseUrl);
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    if (!this.isConfigured()) {
+      throw new Error('SearXNG not configured. Set SEARXNG_URL environment variable.');
+    }
+
+    let totalResults: number | undefined;
+    // SearXNG pages hold 10 results, so a range that is not page-aligned spans two pages
+    const results = await fetchPageRange(query.start ?? 1, query.num ?? 10, 10, async (page) => {
+      const response = await axios.get(`${this.options.baseUrl!.replace(/\/$/, '')}/search`, {
+        params: {
+          q: buildOperatorQuery(query),
+          format: 'json',
+          pageno: page + 1,
+          language: query.hl,
+          time_range: dateRestrictBucket(query.dateRestrict),
+          safesearch: query.safe === 'active' ? 2 : undefined,
+        },
+        timeout: this.options.timeout ?? 10000,
+      });
+      totalResults = totalResults ?? (response.data.number_of_results || undefined);
+      return response.data.results || [];
+    });
+
+    return {
+      provider: this.name,
+      items: results.map((result: any) => ({
+        title: result.title,
+        link: result.url,
+        snippet: result.content || '',
+        displayLink: displayLinkOf(result.url),
+      })),
+      totalResults,
+    };
+  }
+}
+
+export class BraveSearchProvider implements SearchProvider {
+  readonly name = 'brave';
+  private baseUrl = 'https://api.search.brave.com/res/v1/web/search';
+
+  constructor(private options: { apiKey?: string; timeout?: number }) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.options.apiKey);
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    if (!this.isConfigured()) {
+      throw new Error('Brave Search not configured. Set BRAVE_API_KEY environment variable.');
+    }
+
+    const freshness = { day: 'pd', week: 'pw', month: 'pm', year: 'py' };
+    const bucket = dateRestrictBucket(query.dateRestrict);
+    const count = Math.min(query.num ?? 10, 20);
+    // Brave's offset counts pages of `count` results, not results
+    const results = await fetchPageRange(query.start ?? 1, count, count, async (page) => {
+      const response = await axios.get(this.baseUrl, {
+        params: {
+          q: buildOperatorQuery(query),
+          count,
+          offset: page,
+          country: query.gl,
+          search_lang: query.hl,
+          freshness: bucket ? freshness[bucket] : undefined,
+          safesearch: query.safe === 'active' ? 'strict' : undefined,
+        },
+        headers: { 'X-Subscription-Token': this.options.apiKey!, Accept: 'application/json' },
+        timeout: this.options.timeout ?? 10000,
+      });
+      return response.data.web?.results || [];
+    });
+
+    return {
+      provider: this.name,
+      items: results.map((result: any) => ({
+        title: result.title,
+        link: result.url,
+        snippet: result.description || '',
+        displayLink: displayLinkOf(result.url),
+      })),
+    };
+  }
+}
+
+export class BingSearchProvider implements SearchProvider {
+  readonly name = 'bing';
+  private baseUrl = 'https://api.bing.microsoft.com/v7.0/search';
+
+  constructor(private options: { apiKey?: string; timeout?: number }) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.options.apiKey);
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    if (!this.isConfigured()) {
+      throw new Error('Bing Search not configured. Set BING_API_KEY environment variable.');
+    }
+
+    const freshness = { day: 'Day', week: 'Week', month: 'Month', year: undefined };
+    const bucket = dateRestrictBucket(query.dateRestrict);
+    const response = await axios.get(this.baseUrl, {
+      params: {
+        q: buildOperatorQuery(query),
+        count: query.num ?? 10,
+        offset: (query.start ?? 1) - 1,
+        mkt: query.hl && query.gl ? `${query.hl}-${query.gl.toUpperCase()}` : undefined,
+        freshness: bucket ? freshness[bucket] : undefined,
+        safeSearch: query.safe === 'active' ? 'Strict' : undefined,
+      },
+      headers: { 'Ocp-Apim-Subscription-Key': this.options.apiKey! },
+      timeout: this.options.timeout ?? 10000,
+    });
+
+    return {
+      provider: this.name,
+      items: (response.data.webPages?.value || []).map((page: any) => ({
+        title: page.name,
+        link: page.url,
+        snippet: page.snippet || '',
+        displayLink: displayLinkOf(page.url),
+      })),
+      totalResults: response.data.webPages?.totalEstimatedMatches,
+    };
+  }
+}
+
+/**
+ * Tries each configured provider in order and returns the first successful response.
+ */
+export class FallbackSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private providers: SearchProvider[]) {
+    this.name = providers.map(provider => provider.name).join(' > ');
+  }
+
+  isConfigured(): boolean {
+    return this.providers.some(provider => provider.isConfigured());
+  }
+
+  async search(query: SearchQuery): Promise<SearchResponse> {
+    const errors: string[] = [];
+    for (const provider of this.providers.filter(p => p.isConfigured())) {
+      try {
+        return await provider.search(query);
+      } catch (error) {
+        errors.push(`${provider.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        console.error(`Search provider ${provider.name} failed, trying next provider`);
+      }
+    }
+
+    if (errors.length === 0) {
+      throw new Error(`No search provider configured (tried ${this.name}).`);
+    }
+    throw new Error(`All search providers failed. ${errors.join('; ')}`);
+  }
+}
+
+export function createSearchProvider(config: SearchProviderConfig): FallbackSearchProvider {
+  const providers = config.providers.map((name): SearchProvider => {
+    switch (name.trim().toLowerCase()) {
+      case 'google':
+        return new GoogleSearchProvider({ ...config.google, timeout: config.timeout });
+      case 'searxng':
+        return new SearxngSearchProvider({ ...config.searxng, timeout: config.timeout });
+      case 'brave':
+        return new BraveSearchProvider({ ...config.brave, timeout: config.timeout });
+      case 'bing':
+        return new BingSearchProvider({ ...config.bing, timeout: config.timeout });
+      default:
+        throw new Error(`Unknown search provider "${name}". Use google, searxng, brave or bing.`);
+    }
+  });
+  return new FallbackSearchProvider(providers);
+}
+
+// Most search APIs (Google CSE included) return at most 10 results per request
+export const SEARCH_PAGE_SIZE = 10;
+// Google CSE refuses start + num beyond 100
+export const MAX_PAGED_RESULTS = 100;
+
+export interface PagedSearchResult {
+  provider: string;
+  items: SearchResultItem[];
+  nextStart: number | null;
+  totalResults?: number;
+  // resultKey() of every URL returned so far, for the next cursor
+  seen: string[];
+}
+
+export interface SearchCursor {
+  q: string;
+  start: number;
+  filters?: SearchFilters;
+  // Results already returned, so a continuation does not repeat them
+  seen?: string[];
+}
+
+/**
+ * Normalize a result URL for deduplication: lowercase host, no fragment,
+ * no tracking parameters and no trailing slash.
+ */
+export function normalizeResultUrl(link: string): string {
+  try {
+    const url = new URL(link);
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+    for (const key of [...url.searchParams.keys()]) {
+      if (/^utm_|^(fbclid|gclid)$/i.test(key)) url.searchParams.delete(key);
+    }
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    return link.trim();
+  }
+}
+
+// Short digest of a normalized URL; compact enough to carry a full result set in a cursor
+export function resultKey(link: string): string {
+  return createHash('sha1').update(normalizeResultUrl(link)).digest('base64url').slice(0, 10);
+}
+
+/**
+ * Fetch up to `maxResults` results in pages of SEARCH_PAGE_SIZE, dropping duplicate URLs,
+ * including those in `seen` (keys returned by earlier calls for the same result set).
+ * `nextStart` is where a later call should continue, or null when the result set is exhausted.
+ */
+export async function searchPaged(
+  search: (query: SearchQuery) => Promise<SearchResponse>,
+  query: SearchQuery,
+  maxResults: number,
+  seenKeys: string[] = []
+): Promise<PagedSearchResult> {
+  const seen = new Set<string>(seenKeys);
+  const items: SearchResultItem[] = [];
+  let start = query.start ?? 1;
+  let provider = '';
+  let totalResults: number | undefined;
+  let exhausted = false;
+
+  while (items.length < maxResults && start <= MAX_PAGED_RESULTS - SEARCH_PAGE_SIZE + 1) {
+    const page = await search({ ...query, num: SEARCH_PAGE_SIZE, start });
+    provider = page.provider;
+    totalResults = page.totalResults ?? totalResults;
+
+    let taken = 0;
+    for (const item of page.items) {
+      taken++;
+      const key = resultKey(item.link);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      items.push(item);
+      if (items.length >= maxResults) break;
+    }
+
+    start += taken;
+    if (page.items.length < SEARCH_PAGE_SIZE) {
+      exhausted = taken === page.items.length;
+      break;
+    }
+  }
+
+  const canContinue = !exhausted && start <= MAX_PAGED_RESULTS - SEARCH_PAGE_SIZE + 1
+    && (totalResults === undefined || start <= totalResults);
+  return { provider, items, nextStart: canContinue ? start : null, totalResults, seen: [...seen] };
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Read a cursor back. It comes from the client, so only the known filter keys
+ * survive, and they are validated like the filters of a new search.
+ */
+export function decodeSearchCursor(cursor: string): SearchCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof decoded.q !== 'string' || !Number.isInteger(decoded.start) || decoded.start < 1
+      || (decoded.seen !== undefined && !(Array.isArray(decoded.seen) && decoded.seen.every((key: unknown) => typeof key === 'string')))
+      || (decoded.filters !== undefined && (typeof decoded.filters !== 'object' || decoded.filters === null || Array.isArray(decoded.filters)))) {
+      throw new Error('malformed cursor');
+    }
+    const filters: SearchFilters = Object.fromEntries(
+      SEARCH_FILTER_KEYS.filter(key => typeof decoded.filters?.[key] === 'string').map(key => [key, decoded.filters[key]])
+    );
+    validateSearchFilters(filters);
+    return {
+      q: decoded.q,
+      start: decoded.start,
+      ...(decoded.filters !== undefined ? { filters } : {}),
+      ...(decoded.seen !== undefined ? { seen: decoded.seen } : {}),
+    };
+  } catch {
+    throw new Error('Invalid cursor. Pass the cursor returned by a previous google_search call unchanged.');
+  }
+}
@@ -0,0 +1,411 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export const SESSION_ITEM_TYPES = ['search_result', 'page', 'wikipedia_article', 'citation', 'note'] as const;
+
+export type SessionItemType = typeof SESSION_ITEM_TYPES[number];
+
+// Back-reference to the tool call that produced an item
+export interface SessionItemSource {
+  tool: string;
+  arguments?: Record<string, any>;
+  calledAt: string;
+}
+
+export interface SessionItem {
+  id: string;
+  type: SessionItemType;
+  title?: string;
+  url?: string;
+  data: Record<string, any>;
+  tags: string[];
+  source?: SessionItemSource;
+  addedAt: string;
+}
+
+export type SessionItemInput = Omit<SessionItem, 'id' | 'addedAt' | 'tags' | 'data'> & {
+  tags?: string[];
+  data?: Record<string, any>;
+};
+
+export interface SessionState {
+  content: string;
+  items: SessionItem[];
+  tags: string[];
+}
+
+export interface SessionVersion extends SessionState {
+  version: number;
+  timestamp: string;
+  change: string;
+  restoredFrom?: number;
+}
+
+export interface StoredSession {
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  versions: SessionVersion[];
+}
+
+export interface SessionSummary {
+  name: string;
+  latestVersion: number;
+  itemCount: number;
+  tags: string[];
+  updatedAt: string;
+}
+
+// One line of a session log: what a version changed relative to the one before it
+interface SessionDelta {
+  version: number;
+  timestamp: string;
+  change: string;
+  restoredFrom?: number;
+  content?: string;
+  tags?: string[];
+  // New items, and items whose fields changed, by id
+  putItems?: SessionItem[];
+  removeItemIds?: string[];
+  // Only written when putting and removing alone would not reproduce the item order
+  itemOrder?: string[];
+}
+
+export const EMPTY_SESSION_STATE: SessionState = { content: '', items: [], tags: [] };
+
+export interface SessionItemQuery {
+  type?: SessionItemType;
+  tags?: string[];
+  text?: string;
+}
+
+/**
+ * Directory store for research sessions. Every session lives in its own
+ * JSON-lines log: a header line, then one line per version holding only what
+ * that version changed, so saving appends to the file instead of rewriting it.
+ */
+export class FileSessionStore {
+  private writeQueues = new Map<string, Promise<unknown>>();
+
+  constructor(private directory: string) {}
+
+  async save(name: string, content: string): Promise<SessionVersion> {
+    return this.update(name, 'save', (state) => ({ ...state, content }));
+  }
+
+  async addItem(name: string, input: SessionItemInput): Promise<{ version: SessionVersion; item: SessionItem }> {
+    const { version, items: [item] } = await this.addItems(name, [input]);
+    return { version, item };
+  }
+
+  /**
+   * Add several items as a single `add_item` version, e.g. every result of one tool call.
+   */
+  async addItems(name: string, inputs: SessionItemInput[]): Promise<{ version: SessionVersion; items: SessionItem[] }> {
+    const unknown = inputs.find(input => !SESSION_ITEM_TYPES.includes(input.type));
+    if (unknown) {
+      throw new Error(`Unknown session item type "${unknown.type}". Use one of: ${SESSION_ITEM_TYPES.join(', ')}`);
+    }
+
+    const addedAt = new Date().toISOString();
+    const items: SessionItem[] = inputs.map(input => ({
+      ...input,
+      id: randomUUID(),
+      data: input.data || {},
+      tags: this.normalizeTags(input.tags || []),
+      addedAt,
+    }));
+    const version = await this.update(name, 'add_item', (state) => ({ ...state, items: [...state.items, ...items] }));
+    return { version, items };
+  }
+
+  async removeItem(name: string, itemId: string): Promise<SessionVersion> {
+    return this.update(name, 'remove_item', (state) => {
+      if (!state.items.some(item => item.id === itemId)) {
+        throw new Error(`Item "${itemId}" not found in research session "${name}".`);
+      }
+      return { ...state, items: state.items.filter(item => item.id !== itemId) };
+    }, false);
+  }
+
+  /**
+   * Add tags to a single item, or to the session itself when no item is given.
+   */
+  async tag(name: string, tags: string[], itemId?: string): Promise<SessionVersion> {
+    const normalized = this.normalizeTags(tags);
+    return this.update(name, 'tag', (state) => {
+      if (!itemId) {
+        return { ...state, tags: this.normalizeTags([...state.tags, ...normalized]) };
+      }
+      if (!state.items.some(item => item.id === itemId)) {
+        throw new Error(`Item "${itemId}" not found in research session "${name}".`);
+      }
+      return {
+        ...state,
+        items: state.items.map(item => item.id === itemId
+          ? { ...item, tags: this.normalizeTags([...item.tags, ...normalized]) }
+          : item),
+      };
+    }, false);
+  }
+
+  async query(name: string, query: SessionItemQuery = {}, version?: number): Promise<SessionItem[]> {
+    const { items } = await this.load(name, version);
+    const tags = this.normalizeTags(query.tags || []);
+    const text = query.text?.toLowerCase();
+
+    return items.filter(item => {
+      if (query.type && item.type !== query.type) return false;
+      if (tags.length > 0 && !tags.every(tag => item.tags.includes(tag))) return false;
+      if (text && !JSON.stringify([item.title, item.url, item.data]).toLowerCase().includes(text)) return false;
+      return true;
+    });
+  }
+
+  async load(name: string, version?: number): Promise<SessionVersion> {
+    const session = await this.getSession(name);
+    return this.findVersion(session, version);
+  }
+
+  async getSession(name: string): Promise<StoredSession> {
+    const session = await this.read(name);
+    if (!session) {
+      throw new Error(`Research session "${name}" not found.`);
+    }
+    return session;
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const summaries: SessionSummary[] = [];
+    for (const file of files.filter(f => f.endsWith('.jsonl'))) {
+      const session = (await this.readFile(path.join(this.directory, file)))?.session;
+      if (!session) continue;
+      const latest = session.versions[session.versions.length - 1];
+      summaries.push({
+        name: session.name,
+        latestVersion: latest?.version ?? 0,
+        itemCount: latest?.items.length ?? 0,
+        tags: latest?.tags ?? [],
+        updatedAt: session.updatedAt,
+      });
+    }
+    return summaries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.enqueue(name, async () => {
+      try {
+        await fs.unlink(this.filePath(name));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+        throw error;
+      }
+    });
+  }
+
+  async history(name: string): Promise<SessionVersion[]> {
+    return (await this.getSession(name)).versions;
+  }
+
+  /**
+   * Save the state of an earlier version as a new version, keeping history intact.
+   */
+  async restore(name: string, version: number): Promise<SessionVersion> {
+    return this.update(name, 'restore', (_state, session) => {
+      const source = this.findVersion(session, version);
+      return { content: source.content, items: source.items, tags: source.tags, restoredFrom: source.version };
+    }, false);
+  }
+
+  private async update(
+    name: string,
+    change: string,
+    mutate: (state: SessionState, session: StoredSession) => SessionState & { restoredFrom?: number },
+    createIfMissing = true
+  ): Promise<SessionVersion> {
+    return this.enqueue(name, async () => {
+      const now = new Date().toISOString();
+      const file = this.filePath(name);
+      const stored = await this.readFile(file);
+      if (!stored && !createIfMissing) {
+        throw new Error(`Research session "${name}" not found.`);
+      }
+      const session = stored?.session ?? { name, createdAt: now, updatedAt: now, versions: [] };
+
+      const latest = session.versions[session.versions.length - 1];
+      const current: SessionState = latest
+        ? { content: latest.content, items: latest.items, tags: latest.tags }
+        : EMPTY_SESSION_STATE;
+      const next = mutate(current, session);
+
+      const version: SessionVersion = {
+        version: (latest?.version ?? 0) + 1,
+        timestamp: now,
+        change,
+        ...next,
+      };
+
+      session.versions.push(version);
+      session.updatedAt = now;
+      if (stored) {
+        // Cut off a partial line left by a crashed append, or the new line would be glued onto it
+        if (stored.intact.length < stored.text.length) {
+          await fs.truncate(file, Buffer.byteLength(stored.intact, 'utf8'));
+        }
+        const separator = stored.intact.endsWith('\n') ? '' : '\n';
+        await fs.appendFile(file, `${separator}${JSON.stringify(this.toDelta(current, version))}\n`, 'utf8');
+      } else {
+        await this.write(session);
+      }
+      return version;
+    });
+  }
+
+  private findVersion(session: StoredSession, version?: number): SessionVersion {
+    const found = version === undefined
+      ? session.versions[session.versions.length - 1]
+      : session.versions.find(v => v.version === version);
+    if (!found) {
+      throw new Error(`Version ${version} of research session "${session.name}" not found.`);
+    }
+    return found;
+  }
+
+  private normalizeTags(tags: string[]): string[] {
+    return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+  }
+
+  // Serialize writes per session so concurrent saves never lose a version
+  private async enqueue<T>(name: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueues.get(name) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(operation);
+    this.writeQueues.set(name, next);
+    try {
+      return await next;
+    } finally {
+      if (this.writeQueues.get(name) === next) {
+        this.writeQueues.delete(name);
+      }
+    }
+  }
+
+  private async read(name: string): Promise<StoredSession | null> {
+    return (await this.readFile(this.filePath(name)))?.session ?? null;
+  }
+
+  // `intact` is the text of the log up to a partial last line, if there is one
+  private async readFile(file: string): Promise<{ session: StoredSession; text: string; intact: string } | null> {
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw new Error(`Failed to read research session file ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      return { text, ...this.parseLog(text) };
+    } catch (error) {
+      throw new Error(`Failed to read research session file ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private parseLog(text: string): { session: StoredSession; intact: string } {
+    const lines = text.split('\n').filter(line => line.trim());
+    let intact = text;
+    const header: { name: string; createdAt: string } = JSON.parse(lines[0]);
+    const versions: SessionVersion[] = [];
+    let state = EMPTY_SESSION_STATE;
+    for (const [index, line] of lines.slice(1).entries()) {
+      let delta: SessionDelta;
+      try {
+        delta = JSON.parse(line);
+      } catch (error) {
+        // An append cut short by a crash leaves a partial last line; drop that version
+        if (index === lines.length - 2) {
+          intact = text.slice(0, text.lastIndexOf(line));
+          break;
+        }
+        throw error;
+      }
+      state = this.applyDelta(state, delta);
+      versions.push({
+        version: delta.version,
+        timestamp: delta.timestamp,
+        change: delta.change,
+        ...(delta.restoredFrom !== undefined ? { restoredFrom: delta.restoredFrom } : {}),
+        ...state,
+      });
+    }
+    return { session: { ...header, updatedAt: versions[versions.length - 1]?.timestamp ?? header.createdAt, versions }, intact };
+  }
+
+  private toDelta(previous: SessionState, version: SessionVersion): SessionDelta {
+    const delta: SessionDelta = {
+      version: version.version,
+      timestamp: version.timestamp,
+      change: version.change,
+      ...(version.restoredFrom !== undefined ? { restoredFrom: version.restoredFrom } : {}),
+    };
+    if (version.content !== previous.content) delta.content = version.content;
+    if (JSON.stringify(version.tags) !== JSON.stringify(previous.tags)) delta.tags = version.tags;
+
+    const before = new Map(previous.items.map(item => [item.id, JSON.stringify(item)]));
+    const after = new Set(version.items.map(item => item.id));
+    const putItems = version.items.filter(item => before.get(item.id) !== JSON.stringify(item));
+    const removeItemIds = previous.items.map(item => item.id).filter(id => !after.has(id));
+    if (putItems.length > 0) delta.putItems = putItems;
+    if (removeItemIds.length > 0) delta.removeItemIds = removeItemIds;
+
+    const replayed = this.applyDelta(previous, delta).items.map(item => item.id);
+    const order = version.items.map(item => item.id);
+    if (replayed.some((id, index) => id !== order[index])) delta.itemOrder = order;
+    return delta;
+  }
+
+  private applyDelta(state: SessionState, delta: SessionDelta): SessionState {
+    let items = state.items;
+    if (delta.removeItemIds || delta.putItems) {
+      const removed = new Set(delta.removeItemIds || []);
+      const put = new Map((delta.putItems || []).map(item => [item.id, item]));
+      items = items.filter(item => !removed.has(item.id)).map(item => put.get(item.id) ?? item);
+      const existing = new Set(items.map(item => item.id));
+      items = [...items, ...(delta.putItems || []).filter(item => !existing.has(item.id))];
+    }
+    if (delta.itemOrder) {
+      const byId = new Map(items.map(item => [item.id, item]));
+      items = delta.itemOrder.map(id => byId.get(id)).filter((item): item is SessionItem => item !== undefined);
+    }
+    return { content: delta.content ?? state.content, items, tags: delta.tags ?? state.tags };
+  }
+
+  // Write a whole log; only needed for new sessions
+  private async write(session: StoredSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const lines = [JSON.stringify({ name: session.name, createdAt: session.createdAt })];
+    let previous = EMPTY_SESSION_STATE;
+    for (const version of session.versions) {
+      lines.push(JSON.stringify(this.toDelta(previous, version)));
+      previous = version;
+    }
+
+    const target = this.filePath(session.name);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, `${lines.join('\n')}\n`, 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  private filePath(name: string): string {
+    return path.join(this.directory, `${encodeURIComponent(name)}.jsonl`);
+  }
+}
@@ -0,0 +1,15 @@
+// English function words left out when texts are compared by their terms
+export const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'that', 'this', 'with', 'from', 'has', 'have', 'had', 'its', 'but',
+  'not', 'you', 'they', 'will', 'than', 'then', 'there', 'their', 'been', 'into', 'about', 'which', 'also', 'can',
+  'would', 'could', 'should', 'may', 'might', 'our', 'your', 'his', 'her', 'she', 'him', 'them', 'who', 'what',
+  'when', 'where', 'how', 'all', 'any', 'more', 'most', 'other', 'some', 'such', 'only', 'over', 'these', 'those',
+  'does',
+]);
+
+/**
+ * Lower-cased words of three or more letters or digits, without stop words.
+ */
+export function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []).filter(term => !STOP_WORDS.has(term));
+}
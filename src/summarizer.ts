@@ -0,0 +1,200 @@
+import { contentWords } from './stopWords.js';
+
+// Sentences per document fed to TextRank; keeps the similarity graph small
+const MAX_SENTENCES_PER_DOCUMENT = 150;
+
+export interface SummaryDocument {
+  url: string;
+  title?: string;
+  text: string;
+}
+
+export interface SummarySentence {
+  text: string;
+  url: string;
+  index: number;
+  score: number;
+}
+
+export interface DocumentSummary {
+  url: string;
+  title?: string;
+  summary: string;
+  sentences: SummarySentence[];
+}
+
+export interface MultiDocumentSummary {
+  combined: { summary: string; sentences: SummarySentence[] };
+  documents: DocumentSummary[];
+}
+
+export interface SummarizeOptions {
+  // Character budget of each per-document summary
+  maxLength?: number;
+  // Number of sentences in the combined summary
+  combinedSentences?: number;
+  // Sentences at least this similar (cosine) to an already chosen one are skipped
+  redundancyThreshold?: number;
+}
+
+type Vector = Map<string, number>;
+
+interface Candidate {
+  text: string;
+  url: string;
+  index: number;
+  vector: Vector;
+  localScore: number;
+  score: number;
+}
+
+export function splitSentences(text: string): string[] {
+  return (text.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]+["'”’)\]]*(?=\s|$)|[^.!?]+$/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+export function tokenize(text: string): string[] {
+  return contentWords(text)
+    // Light stemming so "models" and "model" count as one term
+    .map(term => term.length > 4 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+}
+
+// Prose sentences only: navigation and link lists rarely end in punctuation
+function isProse(sentence: string): boolean {
+  const words = sentence.split(' ').length;
+  return sentence.length >= 40 && sentence.length <= 600 && words >= 6 && /[.!?]["'”’)\]]*$/.test(sentence);
+}
+
+export function cosine(a: Vector, b: Vector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other) dot += weight * other;
+  }
+  for (const weight of b.values()) normB += weight * weight;
+  return dot === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * PageRank over the sentence similarity graph (TextRank).
+ */
+export function textRank(vectors: Vector[], damping = 0.85, iterations = 30): number[] {
+  const n = vectors.length;
+  if (n === 0) return [];
+  const weights = vectors.map((vector, i) => vectors.map((other, j) => i === j ? 0 : cosine(vector, other)));
+  const outgoing = weights.map(row => row.reduce((sum, weight) => sum + weight, 0));
+
+  let scores: number[] = new Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const next = scores.map((_, i) => {
+      let rank = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0) rank += (weights[j][i] / outgoing[j]) * scores[j];
+      }
+      return (1 - damping) / n + damping * rank;
+    });
+    const delta = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+    scores = next;
+    if (delta < 1e-6) break;
+  }
+  return scores;
+}
+
+function tfidfVectors(sentences: string[][], idf: Map<string, number>): Vector[] {
+  return sentences.map(terms => {
+    const vector: Vector = new Map();
+    for (const term of terms) vector.set(term, (vector.get(term) || 0) + 1);
+    for (const [term, count] of vector) vector.set(term, count * (idf.get(term) || 0));
+    return vector;
+  });
+}
+
+function select(candidates: Candidate[], accept: (chosen: Candidate[], next: Candidate) => boolean, threshold: number): Candidate[] {
+  const chosen: Candidate[] = [];
+  for (const candidate of [...candidates].sort((a, b) => b.score - a.score)) {
+    if (chosen.some(existing => cosine(existing.vector, candidate.vector) >= threshold)) continue;
+    if (!accept(chosen, candidate)) break;
+    chosen.push(candidate);
+  }
+  return chosen;
+}
+
+function toSentence(candidate: Candidate): SummarySentence {
+  return { text: candidate.text, url: candidate.url, index: candidate.index, score: Math.round(candidate.score * 1000) / 1000 };
+}
+
+/**
+ * Extractive summarization across several documents. Each document is ranked
+ * with TextRank over TF-IDF sentence vectors; the combined summary mixes that
+ * rank with closeness to the centroid of all documents, so sentences on the
+ * shared topic win. Redundant sentences are dropped across documents.
+ */
+export function summarizeDocuments(documents: SummaryDocument[], options: SummarizeOptions = {}): MultiDocumentSummary {
+  const { maxLength = 500, combinedSentences = 5, redundancyThreshold = 0.5 } = options;
+
+  const perDocument = documents.map(document => {
+    const sentences = splitSentences(document.text)
+      .map((text, index) => ({ text, index }))
+      .filter(({ text }) => isProse(text))
+      .slice(0, MAX_SENTENCES_PER_DOCUMENT);
+    return { document, sentences, terms: sentences.map(({ text }) => tokenize(text)) };
+  });
+
+  // Sentence-level IDF over every document, so terms common to all sentences carry little weight
+  const allTerms = perDocument.flatMap(entry => entry.terms);
+  const documentFrequency = new Map<string, number>();
+  for (const terms of allTerms) {
+    for (const term of new Set(terms)) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }
+  const idf = new Map([...documentFrequency].map(([term, df]) => [term, Math.log(allTerms.length / df) + 1]));
+
+  const centroid: Vector = new Map();
+  const candidatesByDocument = perDocument.map(({ document, sentences, terms }) => {
+    const vectors = tfidfVectors(terms, idf);
+    const ranks = textRank(vectors);
+    const maxRank = Math.max(...ranks, 0);
+    vectors.forEach(vector => vector.forEach((weight, term) => centroid.set(term, (centroid.get(term) || 0) + weight)));
+    return sentences.map(({ text, index }, i): Candidate => ({
+      text,
+      url: document.url,
+      index,
+      vector: vectors[i],
+      localScore: maxRank > 0 ? ranks[i] / maxRank : 0,
+      score: 0,
+    }));
+  });
+
+  const documentsOut: DocumentSummary[] = candidatesByDocument.map((candidates, i) => {
+    candidates.forEach(candidate => { candidate.score = candidate.localScore; });
+    let length = 0;
+    const chosen = select(candidates, (picked, next) => {
+      // Always keep one sentence, even when it alone exceeds the budget
+      if (picked.length > 0 && length + next.text.length + 1 > maxLength) return false;
+      length += next.text.length + 1;
+      return true;
+    }, redundancyThreshold).sort((a, b) => a.index - b.index);
+    return {
+      url: documents[i].url,
+      title: documents[i].title,
+      summary: chosen.map(candidate => candidate.text).join(' '),
+      sentences: chosen.map(toSentence),
+    };
+  });
+
+  const allCandidates = candidatesByDocument.flat();
+  const centrality = allCandidates.map(candidate => cosine(candidate.vector, centroid));
+  const maxCentrality = Math.max(...centrality, 0);
+  allCandidates.forEach((candidate, i) => {
+    candidate.score = 0.5 * candidate.localScore + 0.5 * (maxCentrality > 0 ? centrality[i] / maxCentrality : 0);
+  });
+  const combined = select(allCandidates, picked => picked.length < combinedSentences, redundancyThreshold);
+
+  return {
+    combined: { summary: combined.map(candidate => candidate.text).join(' '), sentences: combined.map(toSentence) },
+    documents: documentsOut,
+  };
+}
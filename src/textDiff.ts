@@ -0,0 +1,213 @@
+export type DiffOperation<T> =
+  | { type: 'equal'; value: T }
+  | { type: 'added'; value: T }
+  | { type: 'removed'; value: T };
+
+// Largest LCS table (entries of the changed middle of both sequences) diffSequences will fill
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Longest-common-subsequence diff between two sequences. The common prefix
+ * and suffix are matched first; when what is left between them would need an
+ * LCS table of more than MAX_DIFF_CELLS entries, that middle is reported as
+ * removed and then added as a whole.
+ */
+export function diffSequences<T>(before: T[], after: T[], equals: (a: T, b: T) => boolean = (a, b) => a === b): DiffOperation<T>[] {
+  let start = 0;
+  while (start < before.length && start < after.length && equals(before[start], after[start])) start++;
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (beforeEnd > start && afterEnd > start && equals(before[beforeEnd - 1], after[afterEnd - 1])) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  const operations: DiffOperation<T>[] = before.slice(0, start).map(value => ({ type: 'equal', value }));
+  const rows = beforeEnd - start;
+  const cols = afterEnd - start;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    for (let i = start; i < beforeEnd; i++) operations.push({ type: 'removed', value: before[i] });
+    for (let j = start; j < afterEnd; j++) operations.push({ type: 'added', value: after[j] });
+  } else {
+    // lcs[i * width + j]: LCS length of the middles from before[start + i] and after[start + j] on
+    const width = cols + 1;
+    const lcs = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i * width + j] = equals(before[start + i], after[start + j])
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+      if (equals(before[start + i], after[start + j])) {
+        operations.push({ type: 'equal', value: before[start + i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        operations.push({ type: 'removed', value: before[start + i++] });
+      } else {
+        operations.push({ type: 'added', value: after[start + j++] });
+      }
+    }
+    while (i < rows) operations.push({ type: 'removed', value: before[start + i++] });
+    while (j < cols) operations.push({ type: 'added', value: after[start + j++] });
+  }
+
+  for (let i = beforeEnd; i < before.length; i++) operations.push({ type: 'equal', value: before[i] });
+  return operations;
+}
+
+/**
+ * Render a line diff in unified style ("+ added", "- removed", "  unchanged").
+ */
+export function formatLineDiff(before: string, after: string): string {
+  return diffSequences(before.split('\n'), after.split('\n'))
+    .map(op => `${op.type === 'added' ? '+' : op.type === 'removed' ? '-' : ' '} ${op.value}`)
+    .join('\n');
+}
+
+export interface ParagraphChange {
+  type: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+  // Paragraph indexes in the before/after text
+  beforeIndex?: number;
+  afterIndex?: number;
+  // Word overlap of a changed paragraph's two versions (0-1)
+  similarity?: number;
+  // Changed paragraphs with word edits marked as [-removed-] and {+added+}
+  inline?: string;
+}
+
+export interface ParagraphDiff {
+  changes: ParagraphChange[];
+  unchanged: number;
+  added: number;
+  removed: number;
+  changed: number;
+  // Share of words the two texts have in common, as a Dice coefficient (0-1)
+  similarity: number;
+}
+
+// Added paragraphs considered as the new version of a removed one; bounds the work on rewritten pages
+const PAIRING_WINDOW = 10;
+
+function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map(paragraph => paragraph.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+function words(paragraph: string): string[] {
+  return paragraph.split(' ').filter(Boolean);
+}
+
+function wordDiff(before: string, after: string): { operations: DiffOperation<string>[]; common: number; similarity: number } {
+  const beforeWords = words(before);
+  const afterWords = words(after);
+  const operations = diffSequences(beforeWords, afterWords);
+  const common = operations.filter(op => op.type === 'equal').length;
+  const total = beforeWords.length + afterWords.length;
+  return { operations, common, similarity: total === 0 ? 1 : (2 * common) / total };
+}
+
+function formatInline(operations: DiffOperation<string>[]): string {
+  const parts: string[] = [];
+  for (const op of operations) {
+    const last = parts.length - 1;
+    const marker = op.type === 'added' ? ['{+', '+}'] : op.type === 'removed' ? ['[-', '-]'] : undefined;
+    // Runs of the same edit share one marker
+    if (marker && parts[last]?.startsWith(marker[0]) && parts[last].endsWith(marker[1])) {
+      parts[last] = `${parts[last].slice(0, -2)} ${op.value}${marker[1]}`;
+    } else {
+      parts.push(marker ? `${marker[0]}${op.value}${marker[1]}` : op.value);
+    }
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Paragraph-level diff of two texts whose paragraphs are separated by blank
+ * lines. Removed and added paragraphs that replace each other and still share
+ * at least `changedThreshold` of their words are reported as one changed
+ * paragraph with a word-level diff. Whitespace differences are ignored.
+ */
+export function diffParagraphs(before: string, after: string, changedThreshold = 0.5): ParagraphDiff {
+  const beforeParagraphs = splitParagraphs(before);
+  const afterParagraphs = splitParagraphs(after);
+  const operations = diffSequences(beforeParagraphs, afterParagraphs);
+
+  const changes: ParagraphChange[] = [];
+  let beforeIndex = 0;
+  let afterIndex = 0;
+  let unchanged = 0;
+  let commonWords = 0;
+
+  for (let index = 0; index < operations.length;) {
+    if (operations[index].type === 'equal') {
+      commonWords += words(operations[index].value).length;
+      unchanged++;
+      beforeIndex++;
+      afterIndex++;
+      index++;
+      continue;
+    }
+
+    // A run of edits between two unchanged paragraphs
+    const removed: { text: string; index: number }[] = [];
+    const added: { text: string; index: number }[] = [];
+    for (; index < operations.length && operations[index].type !== 'equal'; index++) {
+      const op = operations[index];
+      if (op.type === 'removed') removed.push({ text: op.value, index: beforeIndex++ });
+      else added.push({ text: op.value, index: afterIndex++ });
+    }
+
+    // Pair each removed paragraph with the most similar later added one, keeping order
+    let nextAdded = 0;
+    const runChanges: ParagraphChange[] = [];
+    for (const old of removed) {
+      let best: { position: number; diff: ReturnType<typeof wordDiff> } | undefined;
+      for (let position = nextAdded; position < Math.min(added.length, nextAdded + PAIRING_WINDOW); position++) {
+        const diff = wordDiff(old.text, added[position].text);
+        if (diff.similarity >= changedThreshold && (!best || diff.similarity > best.diff.similarity)) {
+          best = { position, diff };
+        }
+      }
+      if (!best) {
+        runChanges.push({ type: 'removed', before: old.text, beforeIndex: old.index });
+        continue;
+      }
+      for (; nextAdded < best.position; nextAdded++) {
+        runChanges.push({ type: 'added', after: added[nextAdded].text, afterIndex: added[nextAdded].index });
+      }
+      const replacement = added[nextAdded++];
+      commonWords += best.diff.common;
+      runChanges.push({
+        type: 'changed',
+        before: old.text,
+        after: replacement.text,
+        beforeIndex: old.index,
+        afterIndex: replacement.index,
+        similarity: Math.round(best.diff.similarity * 1000) / 1000,
+        inline: formatInline(best.diff.operations),
+      });
+    }
+    for (; nextAdded < added.length; nextAdded++) {
+      runChanges.push({ type: 'added', after: added[nextAdded].text, afterIndex: added[nextAdded].index });
+    }
+    changes.push(...runChanges);
+  }
+
+  const totalWords = words(beforeParagraphs.join(' ')).length + words(afterParagraphs.join(' ')).length;
+  return {
+    changes,
+    unchanged,
+    added: changes.filter(change => change.type === 'added').length,
+    removed: changes.filter(change => change.type === 'removed').length,
+    changed: changes.filter(change => change.type === 'changed').length,
+    similarity: totalWords === 0 ? 1 : Math.round((2 * commonWords / totalWords) * 1000) / 1000,
+  };
+}
@@ -1,19 +1,29 @@
+export interface JSONRPCErrorObject {
+  code: number;
+  message: string;
+  data?: any;
+}
+
 export interface JSONRPCMessage {
   jsonrpc: '2.0';
   method?: string;
   params?: any;
   result?: any;
-  id?: string | number;
-  error?: any;
+  id?: string | number | null;
+  error?: JSONRPCErrorObject;
 }
 
+// A single response, a batch of responses, or nothing at all (notifications only)
+export type JSONRPCPayload = JSONRPCMessage | JSONRPCMessage[] | null;
+
 export interface Transport {
   start(): Promise<void>;
-  send(message: JSONRPCMessage): Promise<Response>;
+  send(message: JSONRPCPayload): Promise<Response>;
   close(): Promise<void>;
   onclose?: () => void;
   onerror?: (error: Error) => void;
-  onmessage?: (message: JSONRPCMessage) => void;
+  // `connection` identifies the client connection the message arrived on
+  onmessage?: (rawMessage: string, connection?: object) => Promise<Response>;
 }
 
-// Transport interfaces for MCP communication
+// Transport interfaces for JSON-RPC communication
@@ -0,0 +1,173 @@
+import { promises as dns } from 'node:dns';
+import { BlockList, isIP } from 'node:net';
+
+export type UrlPolicyErrorCode =
+  | 'INVALID_URL'
+  | 'SCHEME_NOT_ALLOWED'
+  | 'DOMAIN_DENIED'
+  | 'DOMAIN_NOT_ALLOWED'
+  | 'PRIVATE_ADDRESS'
+  | 'DNS_LOOKUP_FAILED';
+
+export class UrlPolicyError extends Error {
+  constructor(public code: UrlPolicyErrorCode, message: string) {
+    super(`URL rejected [${code}]: ${message}`);
+    this.name = 'UrlPolicyError';
+  }
+}
+
+export interface UrlPolicyOptions {
+  allowedSchemes?: string[];
+  // When non-empty, only these domains (and their subdomains) may be fetched
+  allowDomains?: string[];
+  // Never fetched, even when also allow-listed
+  denyDomains?: string[];
+  // Private ranges that are nevertheless reachable, as CIDRs ("10.1.0.0/16")
+  allowedNetworks?: string[];
+  // Turns the private-range check off entirely (local development)
+  allowPrivateNetworks?: boolean;
+  // DNS resolver, replaceable in tests
+  resolve?: (hostname: string) => Promise<ResolvedAddress[]>;
+}
+
+export interface ResolvedAddress {
+  address: string;
+  family: number;
+}
+
+// Loopback, private, link-local (cloud metadata), shared, documentation, multicast and reserved ranges
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+];
+const BLOCKED_IPV6: [string, number][] = [
+  ['::', 128], ['::1', 128], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10],
+  ['fec0::', 10], ['ff00::', 8],
+];
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*?\./, '').replace(/\.$/, '');
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+// IPv4 addresses embedded in IPv6 (::ffff:a.b.c.d, NAT64 64:ff9b::/96) are judged as IPv4
+function embeddedIPv4(address: string): string | undefined {
+  const lower = address.toLowerCase();
+  const dotted = lower.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return dotted[1];
+  const hex = lower.match(/^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) return undefined;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+/**
+ * Decides which URLs the server may fetch. URLs are checked for scheme and
+ * domain lists, host names are resolved, and every resolved address must be
+ * public. HTTP clients should also use `resolve` as their DNS lookup, so the
+ * connection goes to an address that passed the check (no DNS rebinding), and
+ * run `checkUrl` on every redirect target.
+ */
+export class UrlPolicy {
+  private readonly schemes: string[];
+  private readonly allowDomains: string[];
+  private readonly denyDomains: string[];
+  private readonly allowPrivateNetworks: boolean;
+  private readonly blocked = new BlockList();
+  private readonly exempt = new BlockList();
+  private readonly resolveHost: (hostname: string) => Promise<ResolvedAddress[]>;
+
+  constructor(options: UrlPolicyOptions = {}) {
+    this.schemes = (options.allowedSchemes ?? ['http', 'https']).map(scheme => scheme.toLowerCase().replace(/:$/, ''));
+    this.allowDomains = (options.allowDomains ?? []).map(normalizeDomain).filter(Boolean);
+    this.denyDomains = (options.denyDomains ?? []).map(normalizeDomain).filter(Boolean);
+    this.allowPrivateNetworks = options.allowPrivateNetworks ?? false;
+    this.resolveHost = options.resolve ?? (hostname => dns.lookup(hostname, { all: true, verbatim: true }));
+
+    BLOCKED_IPV4.forEach(([network, prefix]) => this.blocked.addSubnet(network, prefix, 'ipv4'));
+    BLOCKED_IPV6.forEach(([network, prefix]) => this.blocked.addSubnet(network, prefix, 'ipv6'));
+    for (const cidr of options.allowedNetworks ?? []) {
+      const [network, prefix] = cidr.trim().split('/');
+      const family = isIP(network);
+      if (!family) throw new Error(`Invalid network in allowed networks: ${cidr}`);
+      this.exempt.addSubnet(network, prefix ? parseInt(prefix, 10) : family === 4 ? 32 : 128, family === 4 ? 'ipv4' : 'ipv6');
+    }
+  }
+
+  isBlockedAddress(address: string): boolean {
+    if (this.allowPrivateNetworks) return false;
+    const ipv4 = embeddedIPv4(address);
+    const [checked, type] = ipv4 ? [ipv4, 'ipv4' as const] : [address, isIP(address) === 6 ? 'ipv6' as const : 'ipv4' as const];
+    return this.blocked.check(checked, type) && !this.exempt.check(checked, type);
+  }
+
+  /**
+   * Checks that need no network access: syntax, scheme, domain lists and literal IP hosts.
+   */
+  checkUrl(url: string | URL): URL {
+    let target: URL;
+    try {
+      target = typeof url === 'string' ? new URL(url) : url;
+    } catch {
+      throw new UrlPolicyError('INVALID_URL', `${url} is not a valid URL`);
+    }
+    const scheme = target.protocol.replace(/:$/, '');
+    if (!this.schemes.includes(scheme)) {
+      throw new UrlPolicyError('SCHEME_NOT_ALLOWED', `${scheme}: URLs are not allowed (allowed: ${this.schemes.join(', ')})`);
+    }
+    if (target.username || target.password) {
+      throw new UrlPolicyError('INVALID_URL', 'URLs with embedded credentials are not allowed');
+    }
+
+    const hostname = target.hostname.replace(/^\[|\]$/g, '').toLowerCase().replace(/\.$/, '');
+    if (matchesDomain(hostname, this.denyDomains)) {
+      throw new UrlPolicyError('DOMAIN_DENIED', `${hostname} is on the deny list`);
+    }
+    if (this.allowDomains.length > 0 && !matchesDomain(hostname, this.allowDomains)) {
+      throw new UrlPolicyError('DOMAIN_NOT_ALLOWED', `${hostname} is not on the allow list`);
+    }
+    if (isIP(hostname) && this.isBlockedAddress(hostname)) {
+      throw new UrlPolicyError('PRIVATE_ADDRESS', `${hostname} is a private, loopback or link-local address`);
+    }
+    return target;
+  }
+
+  /**
+   * Resolve a host name and refuse it when any of its addresses is private.
+   */
+  async resolve(hostname: string): Promise<ResolvedAddress[]> {
+    const bare = hostname.replace(/^\[|\]$/g, '');
+    if (isIP(bare)) {
+      if (this.isBlockedAddress(bare)) {
+        throw new UrlPolicyError('PRIVATE_ADDRESS', `${bare} is a private, loopback or link-local address`);
+      }
+      return [{ address: bare, family: isIP(bare) }];
+    }
+
+    let addresses: ResolvedAddress[];
+    try {
+      addresses = await this.resolveHost(bare);
+    } catch (error) {
+      throw new UrlPolicyError('DNS_LOOKUP_FAILED', `${bare} could not be resolved: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (addresses.length === 0) {
+      throw new UrlPolicyError('DNS_LOOKUP_FAILED', `${bare} has no addresses`);
+    }
+    const blocked = addresses.find(entry => this.isBlockedAddress(entry.address));
+    if (blocked) {
+      throw new UrlPolicyError('PRIVATE_ADDRESS', `${bare} resolves to ${blocked.address}, a private, loopback or link-local address`);
+    }
+    return addresses;
+  }
+
+  async assertAllowed(url: string | URL): Promise<URL> {
+    const target = this.checkUrl(url);
+    await this.resolve(target.hostname);
+    return target;
+  }
+}
@@ -0,0 +1,137 @@
+import axios from 'axios';
+
+export const WAYBACK_BASE_URL = 'https://web.archive.org';
+
+export interface WaybackSnapshot {
+  // 14-digit Wayback timestamp (YYYYMMDDhhmmss, UTC)
+  timestamp: string;
+  capturedAt: string;
+  originalUrl: string;
+  // Capture as shown by the Wayback Machine
+  archiveUrl: string;
+  // Capture as originally served, without the Wayback toolbar or rewritten links
+  rawUrl: string;
+  mimeType?: string;
+  statusCode?: number;
+  digest?: string;
+  length?: number;
+}
+
+export interface SnapshotQuery {
+  // Timestamps or dates (2019, 2019-06, 2019-06-30, 20190630120000); both ends inclusive
+  from?: string;
+  to?: string;
+  // Skip consecutive captures whose content is identical
+  collapseDigest?: boolean;
+  // Keep 4xx/5xx captures, which are usually not wanted
+  includeErrors?: boolean;
+  limit?: number;
+}
+
+export interface WaybackClientOptions {
+  baseUrl?: string;
+  timeout?: number;
+}
+
+const CDX_FIELDS = ['timestamp', 'original', 'mimetype', 'statuscode', 'digest', 'length'];
+
+/**
+ * Normalize a date or partial timestamp to the digits the Wayback Machine
+ * expects, e.g. "2019-06-30T12:00:00Z" to "20190630120000".
+ */
+export function toWaybackTimestamp(value: string | number): string {
+  const text = String(value).trim();
+  // Full date-times may carry a time zone; Wayback timestamps are UTC
+  if (/T\d/.test(text) && !Number.isNaN(Date.parse(text))) {
+    return new Date(text).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  }
+  const digits = text.replace(/[-:\s]/g, '');
+  if (!/^\d{4,14}$/.test(digits)) {
+    throw new Error(`Invalid Wayback timestamp or date: ${value}`);
+  }
+  return digits;
+}
+
+export function timestampToIso(timestamp: string): string {
+  // Partial timestamps stand for the start of their period
+  const padded = timestamp + '0101000000'.slice(timestamp.length - 4);
+  const part = (start: number, end: number) => padded.slice(start, end);
+  return `${part(0, 4)}-${part(4, 6)}-${part(6, 8)}T${part(8, 10)}:${part(10, 12)}:${part(12, 14)}Z`;
+}
+
+export function snapshotUrl(timestamp: string, url: string, raw = false, baseUrl = WAYBACK_BASE_URL): string {
+  return `${baseUrl.replace(/\/$/, '')}/web/${timestamp}${raw ? 'id_' : ''}/${url}`;
+}
+
+/**
+ * Split a Wayback snapshot URL into its timestamp and original URL.
+ */
+export function parseSnapshotUrl(url: string): { timestamp: string; originalUrl: string } | undefined {
+  const match = url.match(/\/web\/(\d{4,14})(?:[a-z]{2}_)?\/(.+)$/);
+  return match ? { timestamp: match[1], originalUrl: match[2] } : undefined;
+}
+
+/**
+ * Rows of a CDX `output=json` response. The first row names the fields.
+ */
+export function parseCdxRows(rows: unknown, baseUrl = WAYBACK_BASE_URL): WaybackSnapshot[] {
+  if (!Array.isArray(rows) || rows.length < 2) return [];
+  const [header, ...records] = rows as string[][];
+  const field = (record: string[], name: string) => {
+    const value = record[header.indexOf(name)];
+    return value === undefined || value === '-' || value === '' ? undefined : value;
+  };
+
+  return records.filter(record => Array.isArray(record) && record.length === header.length).map(record => {
+    const timestamp = field(record, 'timestamp')!;
+    const originalUrl = field(record, 'original')!;
+    const statusCode = Number(field(record, 'statuscode'));
+    const length = Number(field(record, 'length'));
+    return {
+      timestamp,
+      capturedAt: timestampToIso(timestamp),
+      originalUrl,
+      archiveUrl: snapshotUrl(timestamp, originalUrl, false, baseUrl),
+      rawUrl: snapshotUrl(timestamp, originalUrl, true, baseUrl),
+      mimeType: field(record, 'mimetype'),
+      statusCode: Number.isFinite(statusCode) ? statusCode : undefined,
+      digest: field(record, 'digest'),
+      length: Number.isFinite(length) ? length : undefined,
+    };
+  });
+}
+
+/**
+ * Client for the Wayback Machine CDX API, which lists every capture of a URL
+ * (unlike the availability API, which only returns the closest one).
+ */
+export class WaybackClient {
+  private readonly baseUrl: string;
+
+  constructor(private options: WaybackClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || WAYBACK_BASE_URL).replace(/\/$/, '');
+  }
+
+  async listSnapshots(url: string, query: SnapshotQuery = {}): Promise<WaybackSnapshot[]> {
+    const params: Record<string, string | number> = {
+      url,
+      output: 'json',
+      fl: CDX_FIELDS.join(','),
+      limit: query.limit ?? 500,
+    };
+    if (query.from) params.from = toWaybackTimestamp(query.from);
+    if (query.to) params.to = toWaybackTimestamp(query.to);
+    if (query.collapseDigest ?? true) params.collapse = 'digest';
+    if (!query.includeErrors) params.filter = '!statuscode:[45]..';
+
+    const response = await axios.get(`${this.baseUrl}/cdx/search/cdx`, {
+      params,
+      timeout: this.options.timeout ?? 20000,
+    });
+    return parseCdxRows(response.data, this.baseUrl);
+  }
+
+  snapshotUrl(timestamp: string, url: string, raw = false): string {
+    return snapshotUrl(toWaybackTimestamp(timestamp), url, raw, this.baseUrl);
+  }
+}
@@ -0,0 +1,539 @@
+import LRUCache from 'lru-cache';
+import { EndpointManager, HttpStatusError } from './resilience.js';
+
+export type WikidataValueType =
+  | 'item'
+  | 'property'
+  | 'string'
+  | 'external-id'
+  | 'time'
+  | 'quantity'
+  | 'coordinates'
+  | 'monolingualtext'
+  | 'url'
+  | 'media'
+  | 'somevalue'
+  | 'novalue'
+  | 'other';
+
+export interface WikidataValue {
+  type: WikidataValueType;
+  // Readable rendering: a label, a date trimmed to its precision, "8848.86 metre", "27.98, 86.92"
+  text: string;
+  // Item or property ID
+  id?: string;
+  url?: string;
+  // ISO timestamp as stored by Wikidata, with its precision (9 = year, 10 = month, 11 = day)
+  time?: string;
+  precision?: number;
+  calendar?: 'gregorian' | 'julian';
+  amount?: number;
+  unit?: string;
+  latitude?: number;
+  longitude?: number;
+  language?: string;
+}
+
+export interface WikidataQualifier {
+  property: string;
+  label: string;
+  values: WikidataValue[];
+}
+
+export interface WikidataClaim {
+  value: WikidataValue;
+  rank: 'preferred' | 'normal';
+  qualifiers?: WikidataQualifier[];
+}
+
+export interface WikidataStatementGroup {
+  property: string;
+  label: string;
+  datatype: string;
+  claims: WikidataClaim[];
+}
+
+export interface WikidataIdentifier {
+  property: string;
+  label: string;
+  value: string;
+  url?: string;
+}
+
+export interface WikidataEntity {
+  id: string;
+  url: string;
+  label?: string;
+  description?: string;
+  aliases: string[];
+  // The page in the requested language's Wikipedia
+  wikipedia?: { title: string; url: string };
+  claims: WikidataStatementGroup[];
+  // Every external-id claim, flattened for citation lookups
+  identifiers: WikidataIdentifier[];
+}
+
+export interface WikidataEntityOptions {
+  lang?: string;
+  // Only return these property IDs
+  properties?: string[];
+  qualifiers?: boolean;
+  maxValuesPerProperty?: number;
+}
+
+export type SparqlParam = string | number | boolean;
+
+export type SparqlValue = string | number | boolean | null;
+
+export interface WikidataQueryResult {
+  // The query as sent, with parameters bound and the LIMIT added
+  query: string;
+  variables: string[];
+  rows: Record<string, SparqlValue>[];
+  // ASK queries only
+  boolean?: boolean;
+  truncated: boolean;
+}
+
+export interface WikidataServiceOptions {
+  cache?: LRUCache<string, any>;
+  apiEndpoint?: string;
+  sparqlEndpoint?: string;
+  userAgent?: string;
+  // Resolves a Wikipedia title to its item, e.g. EnhancedWikipediaService.getWikidataItem
+  resolveTitle?: (title: string, lang: string) => Promise<{ title: string; id: string } | null>;
+  defaultLanguage?: string;
+}
+
+const API_ENDPOINT = 'https://www.wikidata.org';
+const SPARQL_ENDPOINT = 'https://query.wikidata.org/sparql';
+const ENTITY_PREFIX = 'http://www.wikidata.org/entity/';
+
+export const DEFAULT_SPARQL_LIMIT = 100;
+// Wikipedia language codes (en, zh-yue, be-tarask); the code becomes a hostname
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(?:-[a-z]+)*$/;
+export const MAX_SPARQL_LIMIT = 1000;
+
+// Resolver URLs for the identifier properties researchers cite most
+const IDENTIFIER_URLS: Record<string, string> = {
+  P356: 'https://doi.org/$1',
+  P496: 'https://orcid.org/$1',
+  P818: 'https://arxiv.org/abs/$1',
+  P698: 'https://pubmed.ncbi.nlm.nih.gov/$1/',
+  P932: 'https://www.ncbi.nlm.nih.gov/pmc/articles/PMC$1/',
+  P212: 'https://openlibrary.org/isbn/$1',
+  P957: 'https://openlibrary.org/isbn/$1',
+  P236: 'https://portal.issn.org/resource/ISSN/$1',
+  P214: 'https://viaf.org/viaf/$1/',
+  P227: 'https://d-nb.info/gnd/$1',
+  P244: 'https://id.loc.gov/authorities/names/$1',
+};
+
+// Prefixes predefined by the Wikidata Query Service that a parameter may use as-is
+const SPARQL_PREFIXES = ['wd', 'wdt', 'p', 'ps', 'pq', 'pr', 'psv', 'pqv', 'wdno', 'wikibase', 'rdf', 'rdfs', 'schema', 'skos', 'xsd', 'owl', 'prov', 'bd'];
+
+const SPARQL_NUMERIC_TYPES = ['integer', 'decimal', 'double', 'float', 'int', 'long', 'short', 'nonNegativeInteger', 'positiveInteger'].map(type => `http://www.w3.org/2001/XMLSchema#${type}`);
+
+const LABEL_BATCH = 50;
+
+/**
+ * Read a QID or PID from a bare ID or any Wikidata entity URL
+ * (wiki pages, Property: pages and concept URIs).
+ */
+export function parseEntityId(input: string): string | undefined {
+  const value = input.trim();
+  if (/^[QP]\d+$/i.test(value)) return value.toUpperCase();
+  const match = value.match(/wikidata\.org\/(?:wiki|entity)\/(?:Property:)?([QP]\d+)\b/i);
+  return match?.[1].toUpperCase();
+}
+
+export function entityUrl(id: string): string {
+  return id.startsWith('P') ? `https://www.wikidata.org/wiki/Property:${id}` : `https://www.wikidata.org/wiki/${id}`;
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * Render a Wikidata time value at its precision: "1879-03-14", "1879-03",
+ * "1879", "1870s", "19th century", with BCE for negative years.
+ */
+export function formatWikidataTime(time: string, precision: number): string {
+  const match = time.match(/^([+-])(\d+)-(\d\d)-(\d\d)/);
+  if (!match) return time;
+  const [, sign, yearDigits, month, day] = match;
+  const year = Number(yearDigits);
+  const era = sign === '-' ? ' BCE' : '';
+  if (precision >= 11) return `${yearDigits.padStart(4, '0')}-${month}-${day}${era}`;
+  if (precision === 10) return `${yearDigits.padStart(4, '0')}-${month}${era}`;
+  if (precision === 9) return `${year}${era}`;
+  if (precision === 8) return `${Math.floor(year / 10) * 10}s${era}`;
+  if (precision === 7) return `${ordinal(Math.ceil(year / 100))} century${era}`;
+  if (precision === 6) return `${ordinal(Math.ceil(year / 1000))} millennium${era}`;
+  return `${year}${era}`;
+}
+
+// Collect the entity IDs a snak refers to, so their labels can be fetched in one go
+function referencedIds(snak: any, ids: Set<string>) {
+  if (snak.snaktype !== 'value') return;
+  const value = snak.datavalue?.value;
+  if (snak.datavalue?.type === 'wikibase-entityid' && value?.id) ids.add(value.id);
+  if (snak.datavalue?.type === 'quantity' && typeof value?.unit === 'string' && value.unit.startsWith(ENTITY_PREFIX)) {
+    ids.add(value.unit.slice(ENTITY_PREFIX.length));
+  }
+}
+
+function snakToValue(snak: any, labels: Map<string, string>): WikidataValue {
+  if (snak.snaktype === 'somevalue') return { type: 'somevalue', text: 'unknown value' };
+  if (snak.snaktype === 'novalue') return { type: 'novalue', text: 'no value' };
+
+  const { type, value } = snak.datavalue ?? {};
+  const datatype: string = snak.datatype ?? '';
+  switch (type) {
+    case 'wikibase-entityid': {
+      const id: string = value.id;
+      return { type: id.startsWith('P') ? 'property' : 'item', text: labels.get(id) ?? id, id, url: entityUrl(id) };
+    }
+    case 'time': {
+      const calendar = String(value.calendarmodel).endsWith('Q1985786') ? 'julian' : 'gregorian';
+      return { type: 'time', text: formatWikidataTime(value.time, value.precision), time: value.time, precision: value.precision, calendar };
+    }
+    case 'quantity': {
+      const amount = Number(value.amount);
+      const unitId = typeof value.unit === 'string' && value.unit.startsWith(ENTITY_PREFIX) ? value.unit.slice(ENTITY_PREFIX.length) : undefined;
+      const unit = unitId ? labels.get(unitId) ?? unitId : undefined;
+      return { type: 'quantity', text: unit ? `${amount} ${unit}` : String(amount), amount, unit };
+    }
+    case 'globecoordinate':
+      return { type: 'coordinates', text: `${value.latitude}, ${value.longitude}`, latitude: value.latitude, longitude: value.longitude };
+    case 'monolingualtext':
+      return { type: 'monolingualtext', text: value.text, language: value.language };
+    case 'string':
+      if (datatype === 'external-id') {
+        const template = IDENTIFIER_URLS[snak.property];
+        const url = template ? template.replace('$1', snak.property === 'P212' || snak.property === 'P957' ? value.replace(/-/g, '') : value) : undefined;
+        return { type: 'external-id', text: value, url };
+      }
+      if (datatype === 'url') return { type: 'url', text: value, url: value };
+      if (datatype === 'commonsMedia') {
+        return { type: 'media', text: value, url: `https://commons.wikimedia.org/wiki/File:${encodeURIComponent(value.replace(/ /g, '_'))}` };
+      }
+      return { type: 'string', text: value };
+    default:
+      return { type: 'other', text: typeof value === 'string' ? value : JSON.stringify(value) };
+  }
+}
+
+function pickLabel(terms: Record<string, { value: string }> | undefined, lang: string): string | undefined {
+  if (!terms) return undefined;
+  return (terms[lang] ?? terms.en ?? Object.values(terms)[0])?.value;
+}
+
+const SPARQL_STRING_ESCAPES: Record<string, string> = { '\\': '\\\\', '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+
+function escapeSparqlString(value: string): string {
+  return `"${value.replace(/[\\"\n\r\t]/g, char => SPARQL_STRING_ESCAPES[char])}"`;
+}
+
+/**
+ * Render a parameter as a SPARQL term. Numbers and booleans become literals,
+ * Q-IDs become `wd:` items and P-IDs `wdt:` direct properties, names with a
+ * predefined prefix and http(s) IRIs are kept as terms, and anything else is
+ * an escaped string literal, so a parameter can never change the query's shape.
+ */
+export function sparqlTerm(value: SparqlParam): string {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error(`Cannot use ${value} as a SPARQL number`);
+    return String(value);
+  }
+  if (typeof value === 'boolean') return String(value);
+  if (/^Q\d+$/.test(value)) return `wd:${value}`;
+  if (/^P\d+$/.test(value)) return `wdt:${value}`;
+  const prefix = value.match(/^([a-z]+):[A-Za-z0-9_][\w-]*$/)?.[1];
+  if (prefix && SPARQL_PREFIXES.includes(prefix)) return value;
+  if (/^https?:\/\/[^\s<>"{}|\\^`]+$/.test(value)) return `<${value}>`;
+  return escapeSparqlString(value);
+}
+
+/**
+ * Substitute `$name` placeholders that have a matching parameter. Other
+ * `$` variables are left alone since SPARQL allows them as variable names.
+ */
+export function bindSparqlParams(sparql: string, params: Record<string, SparqlParam> = {}): string {
+  const used = new Set<string>();
+  const bound = sparql.replace(/\$([A-Za-z_]\w*)/g, (placeholder, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(params, name)) return placeholder;
+    used.add(name);
+    return sparqlTerm(params[name]);
+  });
+  const unused = Object.keys(params).filter(name => !used.has(name));
+  if (unused.length > 0) {
+    throw new Error(`The query has no placeholder for ${unused.map(name => `$${name}`).join(', ')}`);
+  }
+  return bound;
+}
+
+// Strings, IRIs and comments, which may contain braces and keywords
+const SPARQL_OPAQUE = /"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|<[^<>"{}|^`\\\s]*>|#[^\n]*/g;
+
+/**
+ * Cap the top-level LIMIT of a SELECT query at `limit`, adding one when the
+ * query has none. LIMITs in subqueries don't bound the rows the query
+ * returns, so only the modifiers after the WHERE clause are looked at.
+ */
+export function limitSparqlQuery(sparql: string, limit: number): string {
+  const masked = sparql.replace(SPARQL_OPAQUE, match => ' '.repeat(match.length));
+  let whereEnd = -1;
+  let depth = 0;
+  for (let index = masked.indexOf('{'); index !== -1 && index < masked.length; index++) {
+    if (masked[index] === '{') depth++;
+    if (masked[index] === '}' && --depth === 0) {
+      whereEnd = index + 1;
+      break;
+    }
+  }
+  if (whereEnd === -1) return sparql;
+
+  // A trailing VALUES block follows the modifiers
+  const values = masked.slice(whereEnd).search(/\bVALUES\b/i);
+  const modifiersEnd = values === -1 ? masked.length : whereEnd + values;
+  const existing = /\bLIMIT\s+(\d+)/i.exec(masked.slice(whereEnd, modifiersEnd));
+  if (existing) {
+    const start = whereEnd + existing.index;
+    return `${sparql.slice(0, start)}LIMIT ${Math.min(Number(existing[1]), limit)}${sparql.slice(start + existing[0].length)}`;
+  }
+  const rest = sparql.slice(modifiersEnd);
+  return `${sparql.slice(0, modifiersEnd).trimEnd()}\nLIMIT ${limit}${rest ? `\n${rest}` : ''}`;
+}
+
+// The query form after comments and PREFIX/BASE declarations
+function sparqlQueryForm(sparql: string): string | undefined {
+  const body = sparql
+    .replace(/(^|\s)#[^\n]*/g, '$1')
+    .replace(/^\s*(?:(?:PREFIX\s+[\w-]*:\s*<[^>]*>|BASE\s+<[^>]*>)\s*)*/i, '');
+  return body.match(/^\s*([A-Za-z]+)/)?.[1].toUpperCase();
+}
+
+function bindingToValue(binding: any): SparqlValue {
+  if (!binding) return null;
+  if (binding.type === 'uri') {
+    return binding.value.startsWith(ENTITY_PREFIX) ? binding.value.slice(ENTITY_PREFIX.length) : binding.value;
+  }
+  if (binding.type === 'bnode') return `_:${binding.value}`;
+  if (SPARQL_NUMERIC_TYPES.includes(binding.datatype)) return Number(binding.value);
+  if (binding.datatype === 'http://www.w3.org/2001/XMLSchema#boolean') return binding.value === 'true';
+  return binding.value;
+}
+
+// Turn Wikidata Query Service error pages into something a query author can act on
+function sparqlError(error: unknown): Error {
+  if (!(error instanceof HttpStatusError)) return error as Error;
+  if (error.status === 400) {
+    const detail = error.body.match(/MalformedQueryException:\s*([^\n]+)/)?.[1];
+    return new Error(detail ? `Malformed SPARQL query: ${detail.trim()}` : 'The Wikidata Query Service rejected the query');
+  }
+  if (error.status === 500 && /TimeoutException/.test(error.body)) {
+    return new Error('The query timed out on the Wikidata Query Service; narrow its patterns or lower the limit');
+  }
+  if (error.status === 429) return new Error('Wikidata Query Service rate limit reached, try again later');
+  return new Error(`Wikidata Query Service returned HTTP ${error.status}`);
+}
+
+export class WikidataService {
+  private api: EndpointManager;
+  private sparql: EndpointManager;
+  private cache: LRUCache<string, any> | null;
+
+  constructor(private options: WikidataServiceOptions = {}) {
+    this.cache = options.cache || null;
+    this.api = new EndpointManager({ endpoints: [options.apiEndpoint || API_ENDPOINT], userAgent: options.userAgent });
+    // The query service enforces a 60 second limit itself; a failed query is only worth repeating when the service was overloaded
+    this.sparql = new EndpointManager({
+      endpoints: [options.sparqlEndpoint || SPARQL_ENDPOINT],
+      userAgent: options.userAgent,
+      timeout: 65000,
+      retry: {
+        maxRetries: 2,
+        retryableErrors: (error) => error.name === 'TypeError' || [502, 503, 504].includes(error.status),
+      },
+      circuitBreaker: { failureThreshold: 5 },
+    });
+  }
+
+  private async apiGet(params: Record<string, string>): Promise<any> {
+    const search = new URLSearchParams({ format: 'json', ...params });
+    const response = await this.api.makeRequest(`/w/api.php?${search}`);
+    const data: any = await response.json();
+    if (data.error) throw new Error(`Wikidata API error: ${data.error.info || data.error.code}`);
+    return data;
+  }
+
+  private async fetchLabels(ids: string[], lang: string): Promise<Map<string, string>> {
+    const labels = new Map<string, string>();
+    for (let start = 0; start < ids.length; start += LABEL_BATCH) {
+      const data = await this.apiGet({
+        action: 'wbgetentities',
+        ids: ids.slice(start, start + LABEL_BATCH).join('|'),
+        props: 'labels',
+        languages: lang,
+        languagefallback: '1',
+      });
+      for (const [id, entity] of Object.entries<any>(data.entities || {})) {
+        const label = pickLabel(entity.labels, lang);
+        if (label) labels.set(id, label);
+      }
+    }
+    return labels;
+  }
+
+  /**
+   * Look up an entity by QID/PID (or Wikidata URL), or by the title of a
+   * Wikipedia page in `lang`. Claim values come back typed, with labels for
+   * every item, property and unit they mention; deprecated claims are skipped.
+   */
+  async getEntity(target: { id?: string; title?: string }, options: WikidataEntityOptions = {}): Promise<WikidataEntity> {
+    const { lang = this.options.defaultLanguage || 'en', properties, qualifiers = false, maxValuesPerProperty = 10 } = options;
+    if (!LANGUAGE_CODE_PATTERN.test(lang)) throw new Error(`"${lang}" is not a Wikipedia language code`);
+
+    let id = target.id ? parseEntityId(target.id) : undefined;
+    if (target.id && !id) throw new Error(`"${target.id}" is not a Wikidata entity ID`);
+    if (!id) {
+      if (!target.title) throw new Error('Give a Wikidata ID or a Wikipedia title');
+      if (!this.options.resolveTitle) throw new Error('Looking up entities by Wikipedia title is not available');
+      const item = await this.options.resolveTitle(target.title, lang);
+      if (!item) throw new Error(`No Wikidata item is linked to the ${lang} Wikipedia page "${target.title}"`);
+      id = item.id;
+    }
+
+    const cacheKey = `wikidata:${id}:${lang}:${properties?.join(',') ?? ''}:${qualifiers}:${maxValuesPerProperty}`;
+    if (this.cache?.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    const data = await this.apiGet({
+      action: 'wbgetentities',
+      ids: id,
+      props: 'labels|descriptions|aliases|claims|sitelinks/urls',
+      languages: lang,
+      languagefallback: '1',
+    });
+    const entity = data.entities?.[id];
+    if (!entity || entity.missing !== undefined) throw new Error(`Wikidata has no entity ${id}`);
+
+    const wanted = properties?.map(property => property.toUpperCase());
+    const groups = Object.entries<any[]>(entity.claims || {})
+      .filter(([property]) => !wanted || wanted.includes(property))
+      .map(([property, statements]) => {
+        const kept = statements
+          .filter(statement => statement.rank !== 'deprecated')
+          // Preferred statements first, as Wikidata shows them
+          .sort((a, b) => Number(b.rank === 'preferred') - Number(a.rank === 'preferred'))
+          .slice(0, maxValuesPerProperty);
+        return { property, datatype: statements[0]?.mainsnak?.datatype ?? '', statements: kept };
+      })
+      .filter(group => group.statements.length > 0);
+
+    const ids = new Set<string>();
+    for (const group of groups) {
+      ids.add(group.property);
+      for (const statement of group.statements) {
+        referencedIds(statement.mainsnak, ids);
+        if (qualifiers) {
+          for (const [property, snaks] of Object.entries<any[]>(statement.qualifiers || {})) {
+            ids.add(property);
+            snaks.forEach(snak => referencedIds(snak, ids));
+          }
+        }
+      }
+    }
+    const labels = await this.fetchLabels([...ids], lang);
+
+    const claims: WikidataStatementGroup[] = groups.map(group => ({
+      property: group.property,
+      label: labels.get(group.property) ?? group.property,
+      datatype: group.datatype,
+      claims: group.statements.map(statement => {
+        const claim: WikidataClaim = { value: snakToValue(statement.mainsnak, labels), rank: statement.rank };
+        if (qualifiers && statement.qualifiers) {
+          claim.qualifiers = Object.entries<any[]>(statement.qualifiers).map(([property, snaks]) => ({
+            property,
+            label: labels.get(property) ?? property,
+            values: snaks.map(snak => snakToValue(snak, labels)),
+          }));
+        }
+        return claim;
+      }),
+    }));
+
+    const identifiers = claims.flatMap(group => group.claims
+      .filter(claim => claim.value.type === 'external-id')
+      .map(claim => ({ property: group.property, label: group.label, value: claim.value.text, url: claim.value.url })));
+
+    const sitelink = entity.sitelinks?.[`${lang.replace(/-/g, '_')}wiki`];
+    const result: WikidataEntity = {
+      id,
+      url: entityUrl(id),
+      label: pickLabel(entity.labels, lang),
+      description: pickLabel(entity.descriptions, lang),
+      aliases: (entity.aliases?.[lang] || []).map((alias: any) => alias.value),
+      wikipedia: sitelink ? { title: sitelink.title, url: sitelink.url } : undefined,
+      claims,
+      identifiers,
+    };
+    this.cache?.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Run a read-only (SELECT or ASK) query against the Wikidata Query Service.
+   * `$name` placeholders are bound from `params` (see sparqlTerm); a SELECT
+   * gets its LIMIT capped (see limitSparqlQuery) so a broad pattern can't
+   * return the whole graph.
+   */
+  async query(sparql: string, options: { params?: Record<string, SparqlParam>; limit?: number } = {}): Promise<WikidataQueryResult> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_SPARQL_LIMIT, 1), MAX_SPARQL_LIMIT);
+    const bound = bindSparqlParams(sparql, options.params);
+    const form = sparqlQueryForm(bound);
+    if (form !== 'SELECT' && form !== 'ASK') {
+      throw new Error('Only SELECT and ASK queries are supported');
+    }
+    // One row past the limit tells whether the results were cut off
+    const query = form === 'SELECT' ? limitSparqlQuery(bound, limit + 1) : bound;
+
+    const cacheKey = `sparql:${limit}:${query}`;
+    if (this.cache?.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    const headers = { Accept: 'application/sparql-results+json' };
+    const search = new URLSearchParams({ query });
+    let data: any;
+    try {
+      // Long queries would overflow the URL, so they are posted instead
+      const response = search.toString().length > 2000
+        ? await this.sparql.makeRequest('', {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: search.toString(),
+        })
+        : await this.sparql.makeRequest(`?${search}`, { headers });
+      data = await response.json();
+    } catch (error) {
+      throw sparqlError(error);
+    }
+
+    const bindings: any[] = data.results?.bindings ?? [];
+    const variables: string[] = data.head?.vars ?? [];
+    const result: WikidataQueryResult = {
+      query,
+      variables,
+      rows: bindings.slice(0, limit).map(binding => Object.fromEntries(variables.map(name => [name, bindingToValue(binding[name])]))),
+      boolean: typeof data.boolean === 'boolean' ? data.boolean : undefined,
+      truncated: bindings.length > limit,
+    };
+    this.cache?.set(cacheKey, result);
+    return result;
+  }
+}
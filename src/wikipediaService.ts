@@ -278,6 +278,45 @@ export class EnhancedWikipediaService {
     return response.json();
   }
 
+  // Resolves a page title (following redirects) to its Wikidata item ID
+  async getWikidataItem(title: string, lang = this.options.defaultLanguage || 'en'): Promise<{ title: string; id: string } | null> {
+    const cacheKey = `wikidataItem:${lang}:${title}`;
+
+    const cached = await this.getCachedData(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const operation = async () => {
+      const endpointManager = this.getEndpointManager(lang);
+      const searchParams = new URLSearchParams({
+        action: 'query',
+        format: 'json',
+        prop: 'pageprops',
+        ppprop: 'wikibase_item',
+        redirects: '1',
+        titles: title
+      });
+
+      const response = await endpointManager.makeRequest(`/w/api.php?${searchParams}`);
+      const data: any = await response.json();
+      const page: any = Object.values(data.query?.pages || {})[0];
+      if (!page || page.missing !== undefined || !page.pageprops?.wikibase_item) {
+        return null;
+      }
+
+      const result = { title: page.title, id: page.pageprops.wikibase_item };
+      await this.setCachedData(cacheKey, result, 1800);
+      return result;
+    };
+
+    if (this.options.enableDeduplication) {
+      return this.deduplicator.deduplicate(cacheKey, operation);
+    }
+
+    return operation();
+  }
+
   // Health check methods
   async healthCheck(): Promise<{
     status: 'healthy' | 'degraded' | 'unhealthy';
@@ -0,0 +1,234 @@
+import * as cheerio from 'cheerio';
+
+export interface InfoboxField {
+  label: string;
+  value: string;
+  // Header row the field sits under, e.g. "Population" or "Government"
+  group?: string;
+}
+
+export interface Infobox {
+  title?: string;
+  image?: string;
+  imageCaption?: string;
+  fields: InfoboxField[];
+}
+
+export interface WikiTable {
+  index: number;
+  caption?: string;
+  // Innermost section the table appears in; absent in the lead
+  section?: string;
+  // One name per column; stacked header rows are joined with " / "
+  columns: string[];
+  rows: string[][];
+  // Data rows before maxRows was applied
+  rowCount: number;
+  truncated: boolean;
+}
+
+export interface WikiSection {
+  title: string;
+  level: number;
+  anchor?: string;
+  children: WikiSection[];
+}
+
+export interface WikipediaStructure {
+  infobox?: Infobox;
+  tables: WikiTable[];
+  sections: WikiSection[];
+}
+
+// Footnote markers, edit links and sort keys that would otherwise leak into cell text
+const NOISE_SELECTOR = [
+  'sup.reference', '.mw-editsection', '.sortkey', '.noprint', 'style', 'script',
+  '[style*="display:none"]', '[style*="display: none"]',
+].join(', ');
+
+// Larger spans are malformed markup, not layout
+const MAX_SPAN = 100;
+
+function span(value: string | undefined): number {
+  const parsed = parseInt(value || '1', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, MAX_SPAN) : 1;
+}
+
+/**
+ * Text of a cell with footnotes dropped; line breaks and list items are
+ * joined with `separator` and other whitespace is collapsed.
+ */
+function cellText($: cheerio.CheerioAPI, element: any, separator = ' '): string {
+  const cell = $(element).clone();
+  cell.find(NOISE_SELECTOR).remove();
+  cell.find('br').replaceWith('\n');
+  cell.find('li, p, div').each((_, block) => {
+    $(block).append('\n');
+  });
+  return cell.text()
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join(separator);
+}
+
+// Rows of a table itself, not of tables nested in its cells
+function ownRows($: cheerio.CheerioAPI, table: any): any[] {
+  return $(table).children('tr, thead, tbody, tfoot').toArray()
+    .flatMap(child => child.name === 'tr' ? [child] : $(child).children('tr').toArray());
+}
+
+function parseInfobox($: cheerio.CheerioAPI, table: any): Infobox {
+  const infobox: Infobox = { fields: [] };
+  const caption = $(table).children('caption').first();
+  if (caption.length > 0) infobox.title = cellText($, caption);
+
+  let group: string | undefined;
+  for (const row of ownRows($, table)) {
+    const cells = $(row).children('th, td');
+    const header = cells.filter('th');
+    const data = cells.filter('td');
+
+    const image = $(row).find('.infobox-image img, td.image img').first();
+    if (image.length > 0 && !infobox.image) {
+      const src = image.attr('src') || '';
+      infobox.image = src.startsWith('//') ? `https:${src}` : src;
+      const imageCaption = $(row).find('.infobox-caption').first();
+      if (imageCaption.length > 0) infobox.imageCaption = cellText($, imageCaption);
+      continue;
+    }
+
+    if (header.length === 1 && data.length >= 1) {
+      const label = cellText($, header);
+      const value = cellText($, data.first(), '; ');
+      if (label && value) infobox.fields.push({ label, value, ...(group ? { group } : {}) });
+    } else if (cells.length === 1) {
+      // A lone full-width cell is the title (first) or a group header
+      const text = cellText($, cells);
+      if (!text) continue;
+      if (!infobox.title && infobox.fields.length === 0 && !group && $(cells).is('.infobox-above, th')) {
+        infobox.title = text;
+      } else if ($(cells).is('th, .infobox-header')) {
+        group = text;
+      }
+    }
+  }
+  return infobox;
+}
+
+/**
+ * Lay a table's cells out on a grid so that a cell spanning rows or columns
+ * repeats its text in every position it covers.
+ */
+function tableGrid($: cheerio.CheerioAPI, table: any): { cells: string[][]; header: boolean[] } {
+  const rows = ownRows($, table);
+  const cells: string[][] = rows.map(() => []);
+  const headerCells: boolean[][] = rows.map(() => []);
+
+  rows.forEach((row, rowIndex) => {
+    let column = 0;
+    for (const cell of $(row).children('th, td').toArray()) {
+      while (cells[rowIndex][column] !== undefined) column++;
+      const text = cellText($, cell);
+      const colspan = span(cell.attribs?.colspan);
+      // rowspan="0" runs to the last row
+      const rowspan = cell.attribs?.rowspan === '0' ? rows.length - rowIndex : span(cell.attribs?.rowspan);
+      for (let r = rowIndex; r < Math.min(rowIndex + rowspan, rows.length); r++) {
+        for (let c = column; c < column + colspan; c++) {
+          cells[r][c] = text;
+          headerCells[r][c] = cell.name === 'th';
+        }
+      }
+      column += colspan;
+    }
+  });
+
+  const width = Math.max(0, ...cells.map(row => row.length));
+  return {
+    cells: cells.map(row => Array.from({ length: width }, (_, index) => row[index] ?? '')),
+    // A header row has only th cells, though row headers may start data rows
+    header: headerCells.map(row => row.length > 0 && Array.from({ length: width }, (_, index) => row[index] ?? true).every(Boolean)),
+  };
+}
+
+function parseWikiTable($: cheerio.CheerioAPI, table: any, index: number, section: string | undefined, maxRows: number): WikiTable {
+  const { cells, header } = tableGrid($, table);
+  const headerCount = header.findIndex(isHeader => !isHeader);
+  const headerRows = cells.slice(0, headerCount === -1 ? cells.length : headerCount);
+  const width = cells[0]?.length ?? 0;
+
+  const columns = Array.from({ length: width }, (_, column) => {
+    const names = headerRows.map(row => row[column]).filter(Boolean);
+    // A spanning header repeats down its column; keep each name once
+    return names.filter((name, position) => name !== names[position - 1]).join(' / ') || `Column ${column + 1}`;
+  });
+  const rows = cells.slice(headerRows.length).filter(row => row.some(Boolean));
+
+  const caption = $(table).children('caption').first();
+  return {
+    index,
+    ...(caption.length > 0 ? { caption: cellText($, caption) } : {}),
+    ...(section ? { section } : {}),
+    columns,
+    rows: rows.slice(0, maxRows),
+    rowCount: rows.length,
+    truncated: rows.length > maxRows,
+  };
+}
+
+function headingInfo($: cheerio.CheerioAPI, heading: any): { title: string; anchor?: string } {
+  const headline = $(heading).find('.mw-headline').first();
+  const source = headline.length > 0 ? headline : $(heading);
+  return { title: cellText($, source), anchor: source.attr('id') || $(heading).attr('id') };
+}
+
+/**
+ * Parse the HTML of a Wikipedia `action=parse` response into its infobox
+ * (label/value pairs), wikitables (as a grid, with rowspan and colspan
+ * resolved) and section hierarchy.
+ */
+export function parseWikipediaStructure(html: string, options: { maxRows?: number } = {}): WikipediaStructure {
+  const { maxRows = 500 } = options;
+  const $ = cheerio.load(html);
+  const result: WikipediaStructure = { tables: [], sections: [] };
+
+  // Open sections, outermost first
+  const stack: WikiSection[] = [];
+  const elements = $('h2, h3, h4, h5, h6, table.infobox, table.wikitable').toArray()
+    // Skip whatever is nested in an infobox, wikitable, navbox or table of contents; plain layout tables may hold wikitables
+    .filter(element => $(element).parents('.toc, #toc, .navbox, table.infobox, table.wikitable').length === 0);
+
+  for (const element of elements) {
+    if (element.name === 'table') {
+      if ($(element).hasClass('infobox')) {
+        if (!result.infobox) result.infobox = parseInfobox($, element);
+      } else {
+        result.tables.push(parseWikiTable($, element, result.tables.length, stack[stack.length - 1]?.title, maxRows));
+      }
+      continue;
+    }
+
+    const { title, anchor } = headingInfo($, element);
+    if (!title) continue;
+    const section: WikiSection = { title, level: Number(element.name.slice(1)), ...(anchor ? { anchor } : {}), children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) stack.pop();
+    (stack.length > 0 ? stack[stack.length - 1].children : result.sections).push(section);
+    stack.push(section);
+  }
+
+  return result;
+}
+
+export function isWikiTable(data: any): data is Pick<WikiTable, 'columns' | 'rows'> {
+  return Boolean(data) && Array.isArray(data.columns) && Array.isArray(data.rows) && data.rows.every(Array.isArray);
+}
+
+export function wikiTableToCsv(table: Pick<WikiTable, 'columns' | 'rows'>): string {
+  const line = (values: string[]) => values.map(value => `"${String(value ?? '').replace(/"/g, '""')}"`).join(',');
+  return [line(table.columns), ...table.rows.map(line)].join('\n');
+}
+
+export function wikiTableToMarkdown(table: Pick<WikiTable, 'columns' | 'rows'>): string {
+  const line = (values: string[]) => `| ${values.map(value => String(value ?? '').replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [line(table.columns), line(table.columns.map(() => '---')), ...table.rows.map(line)].join('\n');
+}